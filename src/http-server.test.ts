@@ -0,0 +1,177 @@
+import http from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpServerOptions, RunningHttpServer, startHttpServer } from './http-server.js';
+
+interface Response {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: LATEST_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: { name: 'test', version: '1.0.0' },
+  },
+};
+
+/**
+ * Raw request, so Host and Origin can be set freely
+ */
+function request(
+  url: string,
+  options: { method?: string; headers?: Record<string, string>; body?: string | Buffer } = {}
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      url,
+      {
+        method: options.method ?? 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          ...options.headers,
+        },
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk) => chunks.push(chunk));
+        res.on('end', () =>
+          resolve({ status: res.statusCode!, headers: res.headers, body: Buffer.concat(chunks).toString('utf-8') })
+        );
+      }
+    );
+    req.on('error', reject);
+    req.end(options.body);
+  });
+}
+
+function createServer(): Server {
+  return new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+}
+
+describe('startHttpServer', () => {
+  let running: RunningHttpServer | undefined;
+
+  async function start(options: Partial<HttpServerOptions> = {}): Promise<string> {
+    running = await startHttpServer(createServer, { host: '127.0.0.1', port: 0, ...options });
+    return running.url;
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await running?.close();
+    running = undefined;
+    vi.restoreAllMocks();
+  });
+
+  it('refuses to bind to a non-loopback address without a token', async () => {
+    await expect(startHttpServer(createServer, { host: '0.0.0.0', port: 0 })).rejects.toThrow(
+      'Refusing to serve on 0.0.0.0 without an auth token'
+    );
+  });
+
+  it('starts a session on initialize and rejects unknown sessions', async () => {
+    const url = await start();
+
+    const initialized = await request(url, { body: JSON.stringify(INITIALIZE) });
+    expect(initialized.status).toBe(200);
+    expect(initialized.headers['mcp-session-id']).toBeTruthy();
+    expect(running!.sessionCount()).toBe(1);
+
+    const list = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+    const unknown = await request(url, { headers: { 'Mcp-Session-Id': 'nope' }, body: JSON.stringify(list) });
+    expect(unknown.status).toBe(400);
+    expect(JSON.parse(unknown.body).error.message).toContain('unknown session ID');
+
+    const missing = await request(url, { body: JSON.stringify(list) });
+    expect(missing.status).toBe(400);
+
+    const stream = await request(url, { method: 'GET', headers: { 'Mcp-Session-Id': 'nope' } });
+    expect(stream.status).toBe(400);
+  });
+
+  it('rejects Host and Origin headers it does not serve', async () => {
+    const url = await start();
+    const { port } = new URL(url);
+    const body = JSON.stringify(INITIALIZE);
+
+    const badHost = await request(url, { headers: { Host: `evil.example:${port}` }, body });
+    expect(badHost.status).toBe(403);
+    expect(JSON.parse(badHost.body).error.message).toContain('invalid Host header');
+
+    const badOrigin = await request(url, { headers: { Origin: 'http://evil.example' }, body });
+    expect(badOrigin.status).toBe(403);
+    expect(JSON.parse(badOrigin.body).error.message).toContain('invalid Origin header');
+
+    const sameOrigin = await request(url, { headers: { Host: `localhost:${port}`, Origin: `http://localhost:${port}` }, body });
+    expect(sameOrigin.status).toBe(200);
+  });
+
+  it('accepts configured hosts and origins', async () => {
+    const url = await start({ allowedHosts: ['kb.internal'], allowedOrigins: ['https://app.example'] });
+    const body = JSON.stringify(INITIALIZE);
+
+    expect((await request(url, { body })).status).toBe(403);
+    expect((await request(url, { headers: { Host: 'kb.internal:8080' }, body })).status).toBe(200);
+    expect(
+      (await request(url, { headers: { Host: 'kb.internal', Origin: 'https://app.example' }, body })).status
+    ).toBe(200);
+    expect((await request(url, { headers: { Host: 'kb.internal', Origin: 'https://other.example' }, body })).status).toBe(
+      403
+    );
+  });
+
+  it('requires the bearer token when one is set', async () => {
+    const url = await start({ authToken: 'secret' });
+    const body = JSON.stringify(INITIALIZE);
+
+    const missing = await request(url, { body });
+    expect(missing.status).toBe(401);
+    expect(missing.headers['www-authenticate']).toBe('Bearer');
+
+    const wrong = await request(url, { headers: { Authorization: 'Bearer nope' }, body });
+    expect(wrong.status).toBe(401);
+
+    const valid = await request(url, { headers: { Authorization: 'Bearer secret' }, body });
+    expect(valid.status).toBe(200);
+  });
+
+  it('rejects oversized and malformed bodies', async () => {
+    const url = await start();
+
+    const large = await request(url, { body: Buffer.alloc(5 * 1024 * 1024, 'a') });
+    expect(large.status).toBe(400);
+    expect(JSON.parse(large.body).error.message).toBe('Request body too large');
+
+    const malformed = await request(url, { body: '{' });
+    expect(malformed.status).toBe(400);
+    expect(JSON.parse(malformed.body).error.message).toBe('Parse error: invalid JSON');
+  });
+
+  it('closes sessions that stay idle', async () => {
+    const url = await start({ sessionIdleMs: 50 });
+
+    const initialized = await request(url, { body: JSON.stringify(INITIALIZE) });
+    expect(initialized.status).toBe(200);
+    expect(running!.sessionCount()).toBe(1);
+
+    await vi.waitFor(() => expect(running!.sessionCount()).toBe(0), { timeout: 2000, interval: 25 });
+
+    const sessionId = initialized.headers['mcp-session-id'] as string;
+    const expired = await request(url, {
+      headers: { 'Mcp-Session-Id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    expect(expired.status).toBe(400);
+  });
+});
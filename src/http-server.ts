@@ -0,0 +1,278 @@
+import http from 'http';
+import crypto from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Streamable HTTP transport mode
+ * Serves the MCP endpoint at /mcp with one MCP server per session, so several
+ * clients can share one knowledge base instance.
+ */
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Bearer token clients must send; required unless bound to loopback */
+  authToken?: string;
+  /** Host names clients may address the server by; loopback binds default to the loopback names */
+  allowedHosts?: string[];
+  /** Browser origins allowed besides those of the allowed hosts */
+  allowedOrigins?: string[];
+  /** Close sessions without requests for this long */
+  sessionIdleMs?: number;
+}
+
+export interface RunningHttpServer {
+  url: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+const MCP_PATH = '/mcp';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  lastActivity: number;
+  /** Requests and streams still open; a session is never idle while one is */
+  openRequests: number;
+}
+
+export async function startHttpServer(
+  createServer: () => Server,
+  options: HttpServerOptions
+): Promise<RunningHttpServer> {
+  if (!options.authToken && !isLoopback(options.host)) {
+    throw new Error(
+      `Refusing to serve on ${options.host} without an auth token. Set CLAUDE_KB_AUTH_TOKEN or server.authToken.`
+    );
+  }
+
+  // Without a host check a loopback server is reachable from any web page through DNS rebinding
+  const allowedHosts = options.allowedHosts?.length
+    ? options.allowedHosts.map((host) => host.toLowerCase())
+    : isLoopback(options.host)
+      ? [...LOOPBACK_HOSTS, options.host.toLowerCase()]
+      : undefined;
+  const allowedOrigins = new Set(options.allowedOrigins ?? []);
+  const sessionIdleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+
+  const sessions = new Map<string, Session>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', 'http://localhost');
+      if (url.pathname !== MCP_PATH) {
+        sendError(res, 404, 'Not found');
+        return;
+      }
+
+      if (allowedHosts) {
+        const rejected = checkHostHeaders(req, allowedHosts, allowedOrigins);
+        if (rejected) {
+          sendError(res, 403, rejected);
+          return;
+        }
+      }
+
+      if (options.authToken && !isAuthorized(req, options.authToken)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendError(res, 401, 'Unauthorized');
+        return;
+      }
+
+      const sessionId = req.headers['mcp-session-id'];
+      const session = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+      if (session) {
+        trackActivity(session, res);
+      }
+
+      if (req.method === 'POST') {
+        const body = await readJsonBody(req);
+
+        if (session) {
+          await session.transport.handleRequest(req, res, body);
+          return;
+        }
+
+        if (sessionId || !isInitializeRequest(body)) {
+          sendError(res, 400, 'Bad Request: missing or unknown session ID');
+          return;
+        }
+
+        // New session: its own MCP server sharing the knowledge base
+        const server = createServer();
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => crypto.randomUUID(),
+          onsessioninitialized: (id) => {
+            const session: Session = { transport, server, lastActivity: Date.now(), openRequests: 0 };
+            sessions.set(id, session);
+            trackActivity(session, res);
+            console.error(`HTTP session started: ${id} (${sessions.size} active)`);
+          },
+        });
+        transport.onclose = () => {
+          if (transport.sessionId && sessions.delete(transport.sessionId)) {
+            console.error(`HTTP session closed: ${transport.sessionId} (${sessions.size} active)`);
+          }
+        };
+
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (req.method === 'GET' || req.method === 'DELETE') {
+        if (!session) {
+          sendError(res, 400, 'Bad Request: missing or unknown session ID');
+          return;
+        }
+        await session.transport.handleRequest(req, res);
+        return;
+      }
+
+      res.setHeader('Allow', 'GET, POST, DELETE');
+      sendError(res, 405, 'Method not allowed');
+    } catch (error) {
+      console.error('Error handling HTTP request:', error);
+      if (!res.headersSent) {
+        if (error instanceof BodyError) {
+          // The rest of an oversized body is left unread, so the connection can't be reused
+          res.setHeader('Connection', 'close');
+        }
+        sendError(res, error instanceof BodyError ? 400 : 500, error instanceof Error ? error.message : 'Internal error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const idleSweep = setInterval(() => {
+    const cutoff = Date.now() - sessionIdleMs;
+    for (const [id, session] of sessions) {
+      if (session.openRequests === 0 && session.lastActivity < cutoff) {
+        console.error(`HTTP session expired while idle: ${id}`);
+        void session.transport.close();
+      }
+    }
+  }, Math.min(sessionIdleMs, 60 * 1000));
+  idleSweep.unref();
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    url: `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${port}${MCP_PATH}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(idleSweep);
+      for (const { transport } of sessions.values()) {
+        await transport.close();
+      }
+      sessions.clear();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
+
+class BodyError extends Error {}
+
+function trackActivity(session: Session, res: http.ServerResponse): void {
+  session.openRequests++;
+  session.lastActivity = Date.now();
+  res.once('close', () => {
+    session.openRequests--;
+    session.lastActivity = Date.now();
+  });
+}
+
+/**
+ * Reject requests addressed to a host name we don't serve, or sent by a page
+ * from another origin. Clients outside a browser send no Origin header.
+ */
+function checkHostHeaders(
+  req: http.IncomingMessage,
+  allowedHosts: string[],
+  allowedOrigins: Set<string>
+): string | undefined {
+  const hostname = parseHostname(req.headers.host);
+  if (!hostname || !allowedHosts.includes(hostname)) {
+    return `Forbidden: invalid Host header ${req.headers.host ?? '(none)'}`;
+  }
+
+  const origin = req.headers.origin;
+  if (origin && !allowedOrigins.has(origin)) {
+    const originHost = parseHostname(origin.replace(/^[a-z][a-z0-9+.-]*:\/\//i, ''));
+    if (!originHost || !allowedHosts.includes(originHost)) {
+      return `Forbidden: invalid Origin header ${origin}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Lower-case host name of a Host header value, without the port; IPv6 addresses keep their brackets
+ */
+function parseHostname(host: string | undefined): string | undefined {
+  if (!host) return undefined;
+  try {
+    return new URL(`http://${host}`).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new BodyError('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    throw new BodyError('Parse error: invalid JSON');
+  }
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  // Constant-time comparison of equal-length digests
+  const expected = crypto.createHash('sha256').update(token).digest();
+  const actual = crypto.createHash('sha256').update(match[1]).digest();
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+function sendError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null,
+    })
+  );
+}
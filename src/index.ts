@@ -4,14 +4,84 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  Resource,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
+import { watch } from 'fs';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
+import { RunningHttpServer, startHttpServer } from './http-server.js';
 import { KnowledgeBaseStorage } from './knowledge-base/storage.js';
 import { GitHubSync } from './knowledge-base/github-sync.js';
+import { GitLabProvider } from './knowledge-base/gitlab-provider.js';
+import { GiteaProvider } from './knowledge-base/gitea-provider.js';
+import { GitCloneProvider } from './knowledge-base/git-provider.js';
+import {
+  RepoSyncResult,
+  SourceProvider,
+  SyncFileStats,
+  fetchFilesFromRepo,
+} from './knowledge-base/source-provider.js';
+import { LocalSync, resolveLocalPath } from './knowledge-base/local-sync.js';
 import { SearchEngine } from './knowledge-base/search.js';
+import { formatBreadcrumb } from './knowledge-base/chunker.js';
+import { isTombstone, splitServerSpec } from './knowledge-base/blocklist.js';
+import { FeedImportReport, importBlocklistFeeds } from './knowledge-base/blocklist-feeds.js';
+import {
+  buildCommunityCatalog,
+  communityServerBlocks,
+  selectCommunityServers,
+} from './knowledge-base/awesome-list.js';
+import {
+  buildServerCatalog,
+  findBlocklistMatches,
+  findServer,
+  referencingRepos,
+} from './knowledge-base/server-catalog.js';
+import { isValidRange } from './knowledge-base/semver.js';
+import {
+  DOCUMENT_URI_TEMPLATE,
+  SPEC_RESOURCE_URI,
+  documentUri,
+  mimeTypeFor,
+  parseResourceUri,
+} from './knowledge-base/resources.js';
+import {
+  BUILT_IN_TEMPLATES,
+  ScaffoldTemplate,
+  fromUserTemplate,
+  renderScaffold,
+} from './knowledge-base/templates.js';
+import { HashingEmbeddingProvider } from './knowledge-base/embeddings.js';
+import { extractSpecifications } from './knowledge-base/spec-extractor.js';
+import { diffSpecifications, formatSpecDiff } from './knowledge-base/spec-diff.js';
+import { AUDIT_RULE_TOPICS, AuditRule, auditServerProject } from './knowledge-base/server-audit.js';
+import { failingRepositories, repositoryHistory, summarizeRun } from './knowledge-base/sync-history.js';
+import { SyncCancelledError, SyncCoordinator } from './knowledge-base/sync-coordinator.js';
+import { diffConfig, findRepository, mergeConfig, validateConfig } from './knowledge-base/config-editor.js';
+import {
+  BlocklistEntry,
+  IndexedDocument,
+  KnowledgeBaseConfig,
+  MCPSpecification,
+  RepoSyncRecord,
+  RepositoryEntrySchema,
+  RepositoryProvider,
+  RepositoryType,
+  SearchFiltersSchema,
+  SearchModeSchema,
+  SyncRun,
+} from './schemas/knowledge-base.js';
 
 /**
  * Claude MCP Knowledge Base Server
@@ -19,42 +89,143 @@ import { SearchEngine } from './knowledge-base/search.js';
  */
 
 const storage = new KnowledgeBaseStorage();
-const searchEngine = new SearchEngine();
+// Replaced by a new generation at the end of each full sync
+let searchEngine = new SearchEngine(new HashingEmbeddingProvider());
+const localSync = new LocalSync(storage);
 let githubSync: GitHubSync | null = null;
 let syncInterval: NodeJS.Timeout | null = null;
+const syncCoordinator = new SyncCoordinator();
+// Stop functions of the watchers on local repositories, by owner/repo
+const localWatchers = new Map<string, { path: string; stop: () => void }>();
+// Local repositories that couldn't be watched; retried on every sync
+const localWatchFailures = new Map<string, { path: string; error: string; since: string }>();
+// The sync in progress, if any, and when the next periodic one is due
+let activeSync: (SyncProgress & { trigger: SyncTrigger; startedAt: string }) | null = null;
+let nextSyncAt: Date | null = null;
+let httpServer: RunningHttpServer | null = null;
+// Configuration currently in effect, and the queue of config edits and reloads
+let appliedConfig: KnowledgeBaseConfig | null = null;
+let configUpdates: Promise<unknown> = Promise.resolve();
+let stopConfigWatcher: (() => void) | null = null;
 
 // Tool schemas
 const SearchKnowledgeBaseSchema = z.object({
   query: z.string().describe('Search query for MCP documentation'),
   maxResults: z.number().min(1).max(50).default(10).describe('Maximum number of results to return'),
-});
+  mode: SearchModeSchema.default('keyword').describe(
+    'keyword (BM25), semantic (embedding similarity) or hybrid (fusion of both)'
+  ),
+}).merge(SearchFiltersSchema);
 
 const ListRepositoriesSchema = z.object({});
 
-const GetMCPSpecSchema = z.object({});
+const GetMCPSpecSchema = z.object({
+  version: z.string().optional().describe('Protocol version, e.g. "2025-03-26" (default: latest)'),
+});
+
+const DiffMCPSpecSchema = z.object({
+  from: z.string().optional().describe('Older protocol version (default: the version before "to")'),
+  to: z.string().optional().describe('Newer protocol version (default: latest)'),
+  format: z.enum(['markdown', 'json']).default('markdown').describe('Changelog text or structured diff'),
+});
 
 const AddBlocklistEntrySchema = z.object({
   type: z.enum(['server', 'file_pattern']).describe('Type of blocklist entry'),
-  serverName: z.string().optional().describe('MCP server name (for server type)'),
+  serverName: z
+    .string()
+    .optional()
+    .describe('MCP server name (for server type). Wildcards like "@untrusted/*" and "name@<1.4.2" are allowed'),
+  version: z
+    .string()
+    .optional()
+    .refine((range) => range === undefined || isValidRange(range), 'Invalid semver range')
+    .describe('Semver range of affected versions, e.g. "<1.4.2" (for server type; default all versions)'),
   pattern: z.string().optional().describe('Glob pattern (for file_pattern type)'),
   reason: z.string().describe('Reason for blocking/excluding'),
 });
 
 const CheckBlocklistSchema = z.object({
-  serverName: z.string().optional().describe('Server name to check'),
+  serverName: z.string().optional().describe('Server name to check, optionally as "name@version"'),
+  version: z.string().optional().describe('Server version to check against version ranges'),
   pattern: z.string().optional().describe('File pattern to check'),
 });
 
+const ListBlocklistSchema = z.object({
+  type: z.enum(['server', 'file_pattern']).optional().describe('Only list entries of this type'),
+  includeRemoved: z
+    .boolean()
+    .default(false)
+    .describe('Also list removed entries and the tombstones that removed them'),
+});
+
+const RemoveBlocklistEntrySchema = z.object({
+  id: z.string().describe('Hash of the entry to remove (from list_blocklist); a unique prefix is enough'),
+  reason: z.string().describe('Why the entry is being lifted'),
+});
+
+const VerifyBlocklistSchema = z.object({});
+
+const ListMCPServersSchema = z.object({
+  query: z.string().optional().describe('Match against server name, aliases and description'),
+  transport: z.enum(['stdio', 'http', 'sse']).optional().describe('Only servers using this transport'),
+  repo: z.string().optional().describe('Only servers referenced by this repository ("repo" or "owner/repo")'),
+  blocked: z.boolean().optional().describe('Only blocked (true) or unblocked (false) servers'),
+  maxResults: z.number().min(1).max(500).default(100).describe('Maximum number of servers'),
+});
+
+const GetMCPServerSchema = z.object({
+  name: z.string().describe('Server name or alias from list_mcp_servers'),
+});
+
+const ListCommunityServersSchema = z.object({
+  category: z.string().optional().describe('Only servers listed under this category'),
+  query: z.string().optional().describe('Match against server name and description'),
+  maxResults: z.number().min(1).max(500).default(100).describe('Maximum number of servers'),
+});
+
+const AuditMCPServerSchema = z.object({
+  path: z.string().describe('Directory of the MCP server project to audit'),
+});
+
 const UpdateKnowledgeBaseSchema = z.object({
   force: z.boolean().default(false).describe('Force update even if recently synced'),
 });
 
+const GetSyncStatusSchema = z.object({
+  repository: z.string().optional().describe('Include the sync history of this repository ("repo" or "owner/repo")'),
+  runs: z.number().min(1).max(50).default(5).describe('Number of recent sync runs to list'),
+});
+
+const GetConfigSchema = z.object({});
+
+const UpdateConfigSchema = z.object({
+  sync: z.record(z.unknown()).optional().describe('Fields of config.sync to change, e.g. {"intervalMinutes": 60}'),
+  storage: z.record(z.unknown()).optional().describe('Fields of config.storage to change (cacheDir, maxIndexSizeMB)'),
+  blocklist: z
+    .record(z.unknown())
+    .optional()
+    .describe('Fields of config.blocklist to change; "feeds" replaces the whole list'),
+  server: z.record(z.unknown()).optional().describe('Fields of config.server to change (applied on restart)'),
+});
+
+const AddRepositorySchema = RepositoryEntrySchema;
+
+const RemoveRepositorySchema = z.object({
+  repository: z.string().describe('Configured repository ("repo" or "owner/repo")'),
+});
+
+const UpdateRepositorySchema = RepositoryEntrySchema.omit({ owner: true, repo: true })
+  .partial()
+  .extend({
+    repository: z.string().describe('Configured repository ("repo" or "owner/repo")'),
+  });
+
 // Tool definitions
 const TOOLS: Tool[] = [
   {
     name: 'search_knowledge_base',
     description:
-      'Search the MCP knowledge base for documentation, examples, and best practices. Searches across official MCP repos, community servers, and your repositories with .claude/ directories.',
+      'Search the MCP knowledge base for documentation, examples, and best practices. Searches across official MCP repos, community servers, your repositories with .claude/ directories, and configured local directories.',
     inputSchema: zodToJsonSchema(SearchKnowledgeBaseSchema) as any,
   },
   {
@@ -66,9 +237,15 @@ const TOOLS: Tool[] = [
   {
     name: 'get_mcp_specification',
     description:
-      'Get the current MCP protocol specification, best practices, and common patterns. Always up-to-date knowledge about MCP development.',
+      'Get the MCP protocol specification (latest, or a given version), best practices, and common patterns. Versions are extracted from the specification repository on sync.',
     inputSchema: zodToJsonSchema(GetMCPSpecSchema) as any,
   },
+  {
+    name: 'diff_mcp_specification',
+    description:
+      'Compare two MCP protocol versions: added or removed capabilities, transport status changes, lifecycle changes and JSON schema field changes, as a changelog.',
+    inputSchema: zodToJsonSchema(DiffMCPSpecSchema) as any,
+  },
   {
     name: 'add_blocklist_entry',
     description:
@@ -77,348 +254,1976 @@ const TOOLS: Tool[] = [
   },
   {
     name: 'check_blocklist',
-    description: 'Check if a server or file pattern is blocked.',
+    description:
+      'Check if a server (optionally at a version) or file pattern is blocked. Lists every matching entry with its reason.',
     inputSchema: zodToJsonSchema(CheckBlocklistSchema) as any,
   },
+  {
+    name: 'list_blocklist',
+    description:
+      'List blocklist entries with their hash, source and whether they are still in effect.',
+    inputSchema: zodToJsonSchema(ListBlocklistSchema) as any,
+  },
+  {
+    name: 'remove_blocklist_entry',
+    description:
+      'Lift a blocklist entry by appending a tombstone. Your own entries can always be removed; system and community entries only if they allow overrides.',
+    inputSchema: zodToJsonSchema(RemoveBlocklistEntrySchema) as any,
+  },
+  {
+    name: 'verify_blocklist',
+    description: 'Recompute every blocklist entry hash and report entries that have been tampered with.',
+    inputSchema: zodToJsonSchema(VerifyBlocklistSchema) as any,
+  },
+  {
+    name: 'list_mcp_servers',
+    description:
+      'List MCP servers found in indexed .mcp.json manifests and package.json files, with transport, tools, blocklist status and the repositories that use them.',
+    inputSchema: zodToJsonSchema(ListMCPServersSchema) as any,
+  },
+  {
+    name: 'get_mcp_server',
+    description:
+      'Get a catalogued MCP server: command, args, transport, required environment variables, declared tools, matching blocklist entries and where it is referenced.',
+    inputSchema: zodToJsonSchema(GetMCPServerSchema) as any,
+  },
+  {
+    name: 'list_community_servers',
+    description:
+      'List community MCP servers linked from the awesome-mcp-servers lists, with category, GitHub URL, description and whether each is indexed or blocked. Without filters, also lists the categories.',
+    inputSchema: zodToJsonSchema(ListCommunityServersSchema) as any,
+  },
+  {
+    name: 'audit_mcp_server',
+    description:
+      'Statically check a local MCP server project: logging to stdout under stdio, tools without input schemas or validation, deprecated transports and blocklisted dependencies. Each finding has a file, line and a knowledge base reference.',
+    inputSchema: zodToJsonSchema(AuditMCPServerSchema) as any,
+  },
   {
     name: 'update_knowledge_base',
     description:
-      'Manually trigger a knowledge base update from GitHub. Normally happens automatically every 30 minutes.',
+      'Manually trigger a knowledge base update from GitHub and local directories. Normally happens automatically every 30 minutes.',
     inputSchema: zodToJsonSchema(UpdateKnowledgeBaseSchema) as any,
   },
-];
-
-// Create MCP server
-const server = new Server(
   {
-    name: 'claude-mcp-kb',
-    version: '0.1.0',
+    name: 'get_sync_status',
+    description:
+      'Get the state of knowledge base syncing: the sync in progress, the last and next run, repositories that keep failing, the GitHub rate limit and recent sync history.',
+    inputSchema: zodToJsonSchema(GetSyncStatusSchema) as any,
   },
   {
-    capabilities: {
-      tools: {},
-    },
+    name: 'get_config',
+    description: 'Get the knowledge base configuration (config.json), with the auth token redacted.',
+    inputSchema: zodToJsonSchema(GetConfigSchema) as any,
+  },
+  {
+    name: 'update_config',
+    description:
+      'Change sync, storage, blocklist or server settings. The result is validated before it is saved and applied right away: the sync timer is rescheduled and affected repositories are reindexed.',
+    inputSchema: zodToJsonSchema(UpdateConfigSchema) as any,
+  },
+  {
+    name: 'add_repository',
+    description:
+      'Add a repository to the knowledge base configuration (GitHub, GitLab, Gitea, a git remote or a local directory) and index it in the background.',
+    inputSchema: zodToJsonSchema(AddRepositorySchema) as any,
+  },
+  {
+    name: 'update_repository',
+    description:
+      'Change the branch, patterns, provider or other settings of a configured repository and reindex it in the background.',
+    inputSchema: zodToJsonSchema(UpdateRepositorySchema) as any,
+  },
+  {
+    name: 'remove_repository',
+    description:
+      'Remove a repository from the configuration. Its documents are dropped from the index unless it is still synced by default (discovered, official or community repos).',
+    inputSchema: zodToJsonSchema(RemoveRepositorySchema) as any,
+  },
+];
+
+// Tools that change config.json; over HTTP only the server's owner may edit it
+const CONFIG_TOOLS = new Set(['update_config', 'add_repository', 'update_repository', 'remove_repository']);
+
+// Resources listed per page
+const RESOURCES_PAGE_SIZE = 100;
+
+/**
+ * Built-in scaffold templates plus user templates (which win on name clashes)
+ */
+async function loadTemplates(): Promise<ScaffoldTemplate[]> {
+  const templates = new Map<string, ScaffoldTemplate>();
+  for (const template of BUILT_IN_TEMPLATES) {
+    templates.set(template.name, template);
+  }
+  for (const template of await storage.loadUserTemplates()) {
+    templates.set(template.name, fromUserTemplate(template));
   }
-);
+  return Array.from(templates.values());
+}
 
-// Handle list tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools: TOOLS };
-});
+/**
+ * Create an MCP server with all handlers registered.
+ * Every session gets its own server; they share the storage and search index.
+ * Remote (HTTP) servers can't edit the configuration and only audit allowed paths.
+ */
+function createServer(remote: boolean = false): Server {
+  const server = new Server(
+    {
+      name: 'claude-mcp-kb',
+      version: '0.1.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
 
-// Handle call tool
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  try {
-    switch (request.params.name) {
-      case 'search_knowledge_base': {
-        const args = SearchKnowledgeBaseSchema.parse(request.params.arguments);
-        const results = searchEngine.search(args.query, args.maxResults);
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(
-                {
-                  query: args.query,
-                  resultsCount: results.length,
-                  results: results.map((r) => ({
-                    repository: `${r.document.repoOwner}/${r.document.repoName}`,
-                    file: r.document.filePath,
-                    score: r.score,
-                    snippet: r.snippet,
-                  })),
-                },
-                null,
-                2
-              ),
-            },
-          ],
-        };
-      }
+  // Handle list tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: remote ? TOOLS.filter((tool) => !CONFIG_TOOLS.has(tool.name)) : TOOLS };
+  });
 
-      case 'list_repositories': {
-        const repos = searchEngine.listRepositories();
+  // Handle list resources
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const offset = request.params?.cursor ? parseInt(request.params.cursor, 10) || 0 : 0;
+    const documents = searchEngine
+      .getAllDocuments()
+      .sort((a, b) => a.id.localeCompare(b.id));
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(
-                {
-                  totalRepositories: repos.length,
-                  repositories: repos,
-                },
-                null,
-                2
-              ),
-            },
-          ],
-        };
-      }
+    const resources: Resource[] = [];
+    if (offset === 0) {
+      resources.push({
+        uri: SPEC_RESOURCE_URI,
+        name: 'MCP specification',
+        description: 'Stored MCP protocol specification, best practices and common patterns',
+        mimeType: 'application/json',
+      });
+    }
 
-      case 'get_mcp_specification': {
-        const spec = await storage.loadSpecification();
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(spec, null, 2),
-            },
-          ],
-        };
-      }
+    for (const doc of documents.slice(offset, offset + RESOURCES_PAGE_SIZE)) {
+      resources.push({
+        uri: documentUri(doc),
+        name: `${doc.repoOwner}/${doc.repoName}/${doc.filePath}`,
+        mimeType: mimeTypeFor(doc.filePath),
+      });
+    }
 
-      case 'add_blocklist_entry': {
-        const args = AddBlocklistEntrySchema.parse(request.params.arguments);
-
-        await storage.addBlocklistEntry({
-          timestamp: new Date().toISOString(),
-          type: args.type,
-          serverName: args.serverName,
-          pattern: args.pattern,
-          reason: args.reason,
-          allowOverride: false,
-          source: 'user',
-        });
+    const nextOffset = offset + RESOURCES_PAGE_SIZE;
+    return {
+      resources,
+      nextCursor: nextOffset < documents.length ? String(nextOffset) : undefined,
+    };
+  });
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Added ${args.type} blocklist entry: ${args.serverName || args.pattern}`,
-            },
-          ],
-        };
-      }
+  // Handle list resource templates
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: DOCUMENT_URI_TEMPLATE,
+          name: 'Knowledge base document',
+          description: 'Full content of an indexed file from a repository branch',
+        },
+      ],
+    };
+  });
+
+  // Handle read resource
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const parsed = parseResourceUri(uri);
+
+    if (!parsed) {
+      throw new Error(`Unknown resource URI: ${uri}`);
+    }
+
+    if (parsed.kind === 'spec') {
+      const spec = await storage.loadSpecification();
+      return {
+        contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(spec, null, 2) }],
+      };
+    }
+
+    const { owner, repo, branch, filePath } = parsed;
+
+    // Prefer the indexed copy, fall back to the local repos/ cache of known repositories
+    const doc = searchEngine.getDocument(`${owner}/${repo}/${branch}/${filePath}`);
+    let text: string | null = doc ? doc.content : null;
+    if (text === null && (await isKnownRepo(owner, repo))) {
+      text = await storage.readCachedFile(owner, repo, filePath);
+    }
+
+    if (text === null) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+
+    return {
+      contents: [{ uri, mimeType: mimeTypeFor(filePath), text }],
+    };
+  });
+
+  // Handle list prompts
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    const templates = await loadTemplates();
+    return {
+      prompts: templates.map((template) => ({
+        name: template.name,
+        description: template.description,
+        arguments: template.arguments,
+      })),
+    };
+  });
+
+  // Handle get prompt
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const templates = await loadTemplates();
+    const template = templates.find((t) => t.name === request.params.name);
+    if (!template) {
+      throw new Error(`Unknown prompt: ${request.params.name}`);
+    }
+
+    const spec = await storage.loadSpecification();
+    const text = renderScaffold(template, request.params.arguments || {}, spec);
+
+    return {
+      description: template.description,
+      messages: [
+        {
+          role: 'user',
+          content: { type: 'text', text },
+        },
+      ],
+    };
+  });
 
-      case 'check_blocklist': {
-        const args = CheckBlocklistSchema.parse(request.params.arguments);
-        const result = await storage.isBlocked(args.serverName, args.pattern);
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+  // Handle call tool
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    try {
+      if (remote && CONFIG_TOOLS.has(request.params.name)) {
+        throw new Error(`${request.params.name} is not available over HTTP; edit ${storage.getConfigPath()} on the server`);
       }
 
-      case 'update_knowledge_base': {
-        const args = UpdateKnowledgeBaseSchema.parse(request.params.arguments);
+      switch (request.params.name) {
+        case 'search_knowledge_base': {
+          const { query, maxResults, mode, ...filters } = SearchKnowledgeBaseSchema.parse(
+            request.params.arguments
+          );
+          // Strict blocklist: blocked files are never returned; otherwise they are flagged
+          const blocklist = await storage.loadFileBlocklist();
+          const blockedBy = (doc: IndexedDocument) =>
+            blocklist.match(doc.repoOwner, doc.repoName, doc.filePath);
+          const results = await searchEngine.search(query, {
+            maxResults,
+            mode,
+            filters,
+            exclude: blocklist.excludesFromIndex() ? (doc) => !!blockedBy(doc) : undefined,
+          });
 
-        if (!githubSync) {
           return {
             content: [
               {
                 type: 'text',
-                text: 'GitHub sync not configured. Set GITHUB_TOKEN environment variable.',
+                text: JSON.stringify(
+                  {
+                    query,
+                    mode,
+                    filters,
+                    resultsCount: results.length,
+                    results: results.map((r) => ({
+                      repository: `${r.document.repoOwner}/${r.document.repoName}`,
+                      repoType: r.document.sourceType,
+                      file: r.document.filePath,
+                      uri: documentUri(r.document),
+                      section: formatBreadcrumb(r.chunk),
+                      lines: `${r.chunk.startLine}-${r.chunk.endLine}`,
+                      score: r.score,
+                      snippet: r.snippet,
+                      blocked: blockedBy(r.document)?.reason,
+                    })),
+                  },
+                  null,
+                  2
+                ),
               },
             ],
-            isError: true,
           };
         }
 
-        console.error('Updating knowledge base...');
-        await syncKnowledgeBase(args.force);
-
-        const stats = searchEngine.getStats();
+        case 'list_repositories': {
+          const repos = searchEngine.listRepositories();
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Knowledge base updated. ${stats.totalDocuments} documents indexed from ${stats.repositories.size} repositories.`,
-            },
-          ],
-        };
-      }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    totalRepositories: repos.length,
+                    repositories: repos,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
 
-      default:
-        throw new Error(`Unknown tool: ${request.params.name}`);
-    }
-  } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
-  }
-});
+        case 'get_mcp_specification': {
+          const args = GetMCPSpecSchema.parse(request.params.arguments ?? {});
+          const availableVersions = await storage.listSpecificationVersions();
 
-/**
- * Sync knowledge base from GitHub
- */
-async function syncKnowledgeBase(force: boolean = false): Promise<void> {
-  if (!githubSync) {
-    console.error('GitHub sync not available');
-    return;
-  }
+          if (args.version && !availableVersions.includes(args.version)) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text:
+                    availableVersions.length > 0
+                      ? `Unknown specification version ${args.version}. Available: ${availableVersions.join(', ')}`
+                      : 'No specification versions extracted yet. They are read from modelcontextprotocol/specification during sync.',
+                },
+              ],
+              isError: true,
+            };
+          }
 
-  const config = await storage.loadConfig();
+          const spec = await storage.loadSpecification(args.version);
 
-  // Clear existing index if forcing update
-  if (force) {
-    searchEngine.clear();
-  }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ ...spec, availableVersions }, null, 2),
+              },
+            ],
+          };
+        }
 
-  // Fetch from user repos (if auto-discover enabled)
-  if (config.sync.autoDiscoverUserRepos) {
-    console.error('Auto-discovering user repositories...');
-    const userRepos = await githubSync.discoverUserRepos();
-    console.error(`Found ${userRepos.length} user repositories with .claude/ directories`);
-
-    for (const repo of userRepos) {
-      const docs = await githubSync.fetchFilesFromRepo(
-        repo.owner,
-        repo.repo,
-        'main',
-        ['.claude/**/*.md', '**/*.mcp.json']
-      );
-      searchEngine.addDocuments(docs);
-    }
-  }
+        case 'diff_mcp_specification': {
+          const args = DiffMCPSpecSchema.parse(request.params.arguments ?? {});
+          const versions = await storage.listSpecificationVersions();
 
-  // Fetch from official MCP repos
-  if (config.sync.includeOfficialMCPRepos) {
-    console.error('Fetching official MCP repositories...');
-    const officialRepos = githubSync.getOfficialMCPRepos();
-
-    for (const repo of officialRepos) {
-      const docs = await githubSync.fetchFilesFromRepo(
-        repo.owner,
-        repo.repo,
-        'main',
-        ['**/*.md', '**/package.json']
-      );
-      searchEngine.addDocuments(docs);
-    }
-  }
+          const unknown = [args.from, args.to].filter((v) => v !== undefined && !versions.includes(v));
+          const to = args.to ?? versions[versions.length - 1];
+          const from = args.from ?? versions.filter((v) => v < to).pop();
 
-  // Fetch from community repos
-  if (config.sync.includeCommunityRepos) {
-    console.error('Fetching community MCP repositories...');
-    const communityRepos = await githubSync.getCommunityMCPRepos();
-
-    for (const repo of communityRepos) {
-      const docs = await githubSync.fetchFilesFromRepo(
-        repo.owner,
-        repo.repo,
-        'main',
-        ['**/*.md']
-      );
-      searchEngine.addDocuments(docs);
-    }
-  }
+          if (versions.length < 2 || unknown.length > 0 || !from) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text:
+                    versions.length < 2
+                      ? `Need at least two stored specification versions to compare (have: ${versions.join(', ') || 'none'}). Versions are extracted during sync.`
+                      : unknown.length > 0
+                        ? `Unknown specification version ${unknown.join(', ')}. Available: ${versions.join(', ')}`
+                        : `No stored version is older than ${to}. Available: ${versions.join(', ')}`,
+                },
+              ],
+              isError: true,
+            };
+          }
 
-  // Fetch explicitly configured repos
-  for (const repo of config.repositories) {
-    if (!repo.indexingEnabled) continue;
-
-    const docs = await githubSync.fetchFilesFromRepo(
-      repo.owner,
-      repo.repo,
-      repo.branch,
-      repo.includePatterns,
-      repo.excludePatterns
-    );
-    searchEngine.addDocuments(docs);
-  }
+          const diff = diffSpecifications(
+            await storage.loadSpecification(from),
+            await storage.loadSpecification(to)
+          );
 
-  console.error('Knowledge base sync complete');
-}
+          return {
+            content: [
+              {
+                type: 'text',
+                text: args.format === 'json' ? JSON.stringify(diff, null, 2) : formatSpecDiff(diff),
+              },
+            ],
+          };
+        }
 
-/**
- * Setup periodic sync
- */
-function setupPeriodicSync(intervalMinutes: number): void {
-  if (syncInterval) {
-    clearInterval(syncInterval);
-  }
+        case 'add_blocklist_entry': {
+          const args = AddBlocklistEntrySchema.parse(request.params.arguments);
+          const embeddedRange = args.serverName ? splitServerSpec(args.serverName).version : undefined;
+          if (embeddedRange && !isValidRange(embeddedRange)) {
+            throw new Error(`Invalid semver range in server name: ${embeddedRange}`);
+          }
 
-  const intervalMs = intervalMinutes * 60 * 1000;
+          await storage.addBlocklistEntry({
+            timestamp: new Date().toISOString(),
+            type: args.type,
+            serverName: args.serverName,
+            version: args.version,
+            pattern: args.pattern,
+            reason: args.reason,
+            allowOverride: false,
+            source: 'user',
+          });
 
-  syncInterval = setInterval(async () => {
-    console.error('Periodic knowledge base update...');
-    try {
-      await syncKnowledgeBase(false);
-    } catch (error) {
-      console.error('Error during periodic sync:', error);
-    }
-  }, intervalMs);
+          let purgeNote = '';
+          if (args.type === 'file_pattern') {
+            // Don't keep the caller waiting for a running sync to finish first
+            const syncRunning = syncCoordinator.getState().running !== null;
+            const purge = syncCoordinator.run('purge', undefined, purgeLiveIndex);
+            if (syncRunning) {
+              purge.catch((error) => console.error('Error purging blocklisted documents:', error));
+              purgeNote = '. Matching documents will be removed from the index once the running sync finishes.';
+            } else {
+              const purged = await purge;
+              purgeNote = purged > 0 ? `. Removed ${purged} matching documents from the index.` : '';
+            }
+          }
 
-  console.error(`Periodic sync enabled: every ${intervalMinutes} minutes`);
-}
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Added ${args.type} blocklist entry: ${args.serverName || args.pattern}${purgeNote}`,
+              },
+            ],
+          };
+        }
 
-/**
- * Main server startup
- */
-async function main() {
-  try {
-    // Initialize storage
-    console.error('Initializing knowledge base storage...');
-    await storage.initialize();
+        case 'check_blocklist': {
+          const args = CheckBlocklistSchema.parse(request.params.arguments);
+          const result = await storage.isBlocked(args.serverName, args.pattern, args.version);
 
-    // Initialize GitHub sync
-    try {
-      const token = await GitHubSync.getToken();
-      githubSync = new GitHubSync(token, storage);
-      console.error('GitHub authentication successful');
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    blocked: result.blocked,
+                    reason: result.reason,
+                    matches: result.matches.map((e) => ({
+                      id: e.hash,
+                      type: e.type,
+                      serverName: e.serverName,
+                      version: e.version,
+                      pattern: e.pattern,
+                      reason: e.reason,
+                      source: e.source,
+                      provenance: e.provenance,
+                    })),
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
 
-      // Initial sync
-      console.error('Performing initial knowledge base sync...');
-      await syncKnowledgeBase(false);
+        case 'list_blocklist': {
+          const args = ListBlocklistSchema.parse(request.params.arguments ?? {});
+          const blocklist = await storage.loadBlocklist();
+          const active = new Set(storage.getActiveEntries(blocklist.entries));
+          const tampered = new Set((await storage.verifyBlocklist()).tampered.map((t) => t.entry.hash));
 
-      // Setup periodic sync
-      const config = await storage.loadConfig();
-      if (config.sync.enabled) {
-        setupPeriodicSync(config.sync.intervalMinutes);
-      }
-    } catch (error) {
-      console.error('GitHub sync disabled:', error instanceof Error ? error.message : error);
-      console.error('Server will run with limited functionality (no GitHub integration)');
-    }
+          const entries = blocklist.entries
+            .filter((e) => !args.type || e.type === args.type)
+            .map((e) => ({
+              id: e.hash,
+              status: isTombstone(e) ? e.action : active.has(e) ? 'active' : 'removed',
+              type: e.type,
+              serverName: e.serverName,
+              version: e.version,
+              pattern: e.pattern,
+              reason: e.reason,
+              source: e.source,
+              allowOverride: e.allowOverride,
+              targetHash: e.targetHash,
+              provenance: e.provenance,
+              timestamp: e.timestamp,
+              tampered: tampered.has(e.hash) || undefined,
+            }))
+            .filter((e) => args.includeRemoved || e.status === 'active');
 
-    // Start MCP server
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ total: entries.length, entries }, null, 2),
+              },
+            ],
+          };
+        }
 
-    console.error('Claude MCP Knowledge Base server running on stdio');
-    console.error(`Storage: ${storage.getConfigPath()}`);
+        case 'remove_blocklist_entry': {
+          const args = RemoveBlocklistEntrySchema.parse(request.params.arguments);
+          const tombstone = await storage.removeBlocklistEntry(args.id, args.reason);
 
-    const stats = searchEngine.getStats();
+          return {
+            content: [
+              {
+                type: 'text',
+                text:
+                  `Removed ${tombstone.type} blocklist entry ${tombstone.targetHash}: ${tombstone.serverName || tombstone.pattern}` +
+                  (tombstone.type === 'file_pattern' ? '. Matching files will be indexed on the next sync.' : ''),
+              },
+            ],
+          };
+        }
+
+        case 'verify_blocklist': {
+          const result = await storage.verifyBlocklist();
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ ok: result.tampered.length === 0, ...result }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'list_mcp_servers': {
+          const args = ListMCPServersSchema.parse(request.params.arguments ?? {});
+          const blockEntries = await loadActiveBlocklistEntries();
+          const query = args.query?.toLowerCase();
+
+          const servers = buildServerCatalog(searchEngine.getAllDocuments())
+            .map((server) => ({ server, matches: findBlocklistMatches(server, blockEntries) }))
+            .filter(({ server, matches }) => {
+              const text = [server.name, ...server.aliases, server.description ?? ''];
+              if (query && !text.some((t) => t.toLowerCase().includes(query))) return false;
+              if (args.transport && server.transport !== args.transport) return false;
+              if (args.repo && !server.sources.some((s) => repoMatches(s.repository, args.repo!))) return false;
+              if (args.blocked !== undefined && (matches.length > 0) !== args.blocked) return false;
+              return true;
+            });
+
+          const listed = servers.slice(0, args.maxResults).map(({ server, matches }) => ({
+            name: server.name,
+            aliases: server.aliases.length > 0 ? server.aliases : undefined,
+            version: server.version,
+            description: server.description,
+            transport: server.transport,
+            env: server.env,
+            tools: server.tools.map((t) => t.name),
+            blocked: matches.length > 0 ? matches[0].reason : undefined,
+            referencedBy: referencingRepos(server),
+          }));
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ total: servers.length, servers: listed }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'get_mcp_server': {
+          const args = GetMCPServerSchema.parse(request.params.arguments);
+          const server = findServer(buildServerCatalog(searchEngine.getAllDocuments()), args.name);
+
+          if (!server) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `No MCP server named ${args.name} in the catalog. Use list_mcp_servers to see catalogued servers.`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          const matches = findBlocklistMatches(server, await loadActiveBlocklistEntries());
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    ...server,
+                    sources: server.sources.map((source) => {
+                      const doc = searchEngine.getDocument(source.documentId);
+                      return { ...source, uri: doc ? documentUri(doc) : undefined };
+                    }),
+                    blocked: matches.length > 0,
+                    blocklist: matches.map((e) => ({
+                      id: e.hash,
+                      serverName: e.serverName,
+                      version: e.version,
+                      reason: e.reason,
+                      source: e.source,
+                    })),
+                    referencedBy: referencingRepos(server),
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case 'list_community_servers': {
+          const args = ListCommunityServersSchema.parse(request.params.arguments ?? {});
+          const catalog = buildCommunityCatalog(searchEngine.getAllDocuments());
+          const blockEntries = await loadActiveBlocklistEntries();
+          const query = args.query?.toLowerCase();
+
+          const servers = catalog.filter(
+            (server) =>
+              (!args.category || server.category.toLowerCase() === args.category.toLowerCase()) &&
+              (!query || `${server.name} ${server.description}`.toLowerCase().includes(query))
+          );
+
+          const categories = new Map<string, number>();
+          for (const server of catalog) {
+            categories.set(server.category, (categories.get(server.category) ?? 0) + 1);
+          }
+
+          const listed = servers.slice(0, args.maxResults).map((server) => {
+            const blocks = communityServerBlocks(server, blockEntries);
+            return {
+              ...server,
+              indexed: searchEngine.getRepoDocuments(server.owner, server.repo).length > 0,
+              blocked: blocks.length > 0 ? blocks[0].reason : undefined,
+            };
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text:
+                  catalog.length === 0
+                    ? 'No community servers catalogued yet. The awesome lists are indexed on sync when sync.includeCommunityRepos is enabled.'
+                    : JSON.stringify(
+                        {
+                          total: servers.length,
+                          categories:
+                            args.category || query ? undefined : Object.fromEntries(categories),
+                          servers: listed,
+                        },
+                        null,
+                        2
+                      ),
+              },
+            ],
+          };
+        }
+
+        case 'audit_mcp_server': {
+          const args = AuditMCPServerSchema.parse(request.params.arguments);
+          const directory = path.resolve(args.path.replace(/^~(?=$|\/)/, os.homedir()));
+          if (remote) {
+            await assertAuditAllowed(directory);
+          }
+          const report = await auditServerProject(directory, {
+            spec: await storage.loadSpecification(),
+            blockEntries: await loadActiveBlocklistEntries(),
+          });
+
+          // One knowledge base document per rule, falling back to the specification
+          const references = new Map<AuditRule, { title: string; section?: string; uri: string }>();
+          for (const rule of new Set(report.findings.map((f) => f.rule))) {
+            const [top] = await searchEngine.search(AUDIT_RULE_TOPICS[rule], { maxResults: 1 });
+            references.set(
+              rule,
+              top
+                ? {
+                    title: `${top.document.repoOwner}/${top.document.repoName}/${top.document.filePath}`,
+                    section: formatBreadcrumb(top.chunk) || undefined,
+                    uri: documentUri(top.document),
+                  }
+                : { title: 'MCP specification', uri: SPEC_RESOURCE_URI }
+            );
+          }
+
+          const summary = { error: 0, warning: 0, info: 0 };
+          for (const finding of report.findings) summary[finding.severity]++;
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    ...report,
+                    summary,
+                    findings: report.findings.map((f) => ({ ...f, reference: references.get(f.rule) })),
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case 'update_knowledge_base': {
+          const args = UpdateKnowledgeBaseSchema.parse(request.params.arguments);
+
+          // Report per-repository progress when the client asked for it
+          const progressToken = request.params._meta?.progressToken;
+          const onProgress =
+            progressToken === undefined
+              ? undefined
+              : ({ completed, total, message }: SyncProgress) => {
+                  if (extra.signal.aborted) return;
+                  extra
+                    .sendNotification({
+                      method: 'notifications/progress',
+                      params: { progressToken, progress: completed, total, message },
+                    })
+                    .catch((error) => console.error('Error sending progress notification:', error));
+                };
+
+          console.error('Updating knowledge base...');
+          // Cancelling the tool call cancels the sync, unless another caller still waits for it
+          const report = await requestSync(args.force, 'manual', { onProgress, signal: extra.signal });
+
+          const stats = searchEngine.getStats();
+          const { added, changed, unchanged, removed } = report.totals;
+          const failed = report.repositories.filter((r) => r.error);
+          const rateLimit = githubSync?.getRateLimit();
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text:
+                  (githubSync
+                    ? ''
+                    : 'GitHub sync not configured (set GITHUB_TOKEN): only local repositories were synced.\n') +
+                  `Knowledge base updated. ${stats.totalDocuments} documents indexed from ${stats.repositories.size} repositories.\n` +
+                  `Files: ${added} added, ${changed} changed, ${unchanged} unchanged, ${removed} removed.\n` +
+                  (failed.length > 0
+                    ? `Errors in ${failed.length} repositories: ${failed.map((r) => r.repository).join(', ')}.\n`
+                    : '') +
+                  (rateLimit
+                    ? `GitHub rate limit: ${rateLimit.remaining}/${rateLimit.limit} remaining, resets ${rateLimit.reset}.\n`
+                    : '') +
+                  '\n' +
+                  JSON.stringify(
+                    report.feeds.length > 0
+                      ? { feeds: report.feeds, repositories: report.repositories }
+                      : report.repositories,
+                    null,
+                    2
+                  ),
+              },
+            ],
+          };
+        }
+
+        case 'get_sync_status': {
+          const args = GetSyncStatusSchema.parse(request.params.arguments);
+          const config = await storage.loadConfig();
+          const { runs } = await storage.loadSyncHistory();
+          const lastRun = runs[runs.length - 1];
+
+          const status = {
+            running: activeSync,
+            queued: syncCoordinator.getState().queued,
+            lastRun: lastRun ? summarizeRun(lastRun) : null,
+            nextRun: config.sync.enabled ? nextSyncAt?.toISOString() ?? null : null,
+            periodicSync: config.sync.enabled
+              ? { enabled: true, intervalMinutes: config.sync.intervalMinutes }
+              : { enabled: false },
+            githubSync: githubSync !== null,
+            rateLimit: githubSync?.getRateLimit() ?? null,
+            failingRepositories: failingRepositories(runs),
+            watchFailures: Array.from(localWatchFailures, ([repository, failure]) => ({ repository, ...failure })),
+            recentRuns: runs.slice(-args.runs).reverse().map(summarizeRun),
+            ...(args.repository && {
+              repositoryHistory: repositoryHistory(runs, (repository) =>
+                repoMatches(repository, args.repository!)
+              ),
+            }),
+          };
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(status, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'get_config': {
+          const config = await storage.loadConfig();
+          const redacted = {
+            ...config,
+            server: { ...config.server, authToken: config.server.authToken && '<redacted>' },
+          };
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  { path: storage.getConfigPath(), cacheDir: storage.getCacheDir(), config: redacted },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        case 'update_config': {
+          const args = UpdateConfigSchema.parse(request.params.arguments);
+          const notes = await editConfig((config) => mergeConfig(config, args));
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: ['Configuration updated.', ...notes].join('\n'),
+              },
+            ],
+          };
+        }
+
+        case 'add_repository': {
+          const args = AddRepositorySchema.parse(request.params.arguments);
+          const key = `${args.owner}/${args.repo}`;
+          if (args.type === 'local' && args.path) {
+            await assertDirectory(args.path);
+          }
+
+          const notes = await editConfig((config) => {
+            if (config.repositories.some((r) => `${r.owner}/${r.repo}` === key)) {
+              throw new Error(`Repository already configured: ${key}. Use update_repository to change it`);
+            }
+            return validateConfig({ ...config, repositories: [...config.repositories, args] });
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: [`Added repository ${key}.`, ...notes].join('\n'),
+              },
+            ],
+          };
+        }
+
+        case 'update_repository': {
+          const { repository, ...changes } = UpdateRepositorySchema.parse(request.params.arguments);
+          if (changes.path) {
+            await assertDirectory(changes.path);
+          }
+
+          let key = repository;
+          const notes = await editConfig((config) => {
+            const index = findRepository(config, repository);
+            const repositories = [...config.repositories];
+            repositories[index] = { ...repositories[index], ...changes };
+            key = `${repositories[index].owner}/${repositories[index].repo}`;
+            return validateConfig({ ...config, repositories });
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: [`Updated repository ${key}.`, ...notes].join('\n'),
+              },
+            ],
+          };
+        }
+
+        case 'remove_repository': {
+          const args = RemoveRepositorySchema.parse(request.params.arguments);
+
+          let key = args.repository;
+          const notes = await editConfig((config) => {
+            const index = findRepository(config, args.repository);
+            key = `${config.repositories[index].owner}/${config.repositories[index].repo}`;
+            return validateConfig({
+              ...config,
+              repositories: config.repositories.filter((_, i) => i !== index),
+            });
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: [`Removed repository ${key}.`, ...notes].join('\n'),
+              },
+            ],
+          };
+        }
+
+        default:
+          throw new Error(`Unknown tool: ${request.params.name}`);
+      }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+
+  return server;
+}
+
+interface SyncTarget {
+  owner: string;
+  repo: string;
+  type: RepositoryType;
+  branch: string;
+  includePatterns: string[];
+  excludePatterns?: string[];
+  /** Directory of a local repository */
+  path?: string;
+  provider?: RepositoryProvider;
+  url?: string;
+  tokenEnv?: string;
+}
+
+type SyncTrigger = SyncRun['trigger'];
+
+interface SyncProgress {
+  /** Repositories synced so far */
+  completed: number;
+  /** Repositories to sync; grows once community catalog targets are known */
+  total: number;
+  message: string;
+}
+
+interface SyncReport {
+  feeds: FeedImportReport[];
+  repositories: RepoSyncRecord[];
+  totals: SyncFileStats;
+}
+
+interface SyncRequest {
+  force: boolean;
+  /** Fetch files evicted for size again */
+  refetchEvicted: boolean;
+  trigger: SyncTrigger;
+  progressListeners: Array<(progress: SyncProgress) => void>;
+}
+
+/**
+ * Queue a knowledge base sync. Syncs run one at a time; a request made while
+ * another sync is waiting joins it (a forced request makes it forced). The
+ * request is cancelled when signal aborts, and the sync itself once no caller
+ * is left waiting for it.
+ */
+function requestSync(
+  force: boolean,
+  trigger: SyncTrigger,
+  options: { onProgress?: (progress: SyncProgress) => void; signal?: AbortSignal; refetchEvicted?: boolean } = {}
+): Promise<SyncReport> {
+  const request: SyncRequest = {
+    force,
+    refetchEvicted: options.refetchEvicted ?? false,
+    trigger,
+    progressListeners: options.onProgress ? [options.onProgress] : [],
+  };
+
+  return syncCoordinator.run(
+    'sync',
+    request,
+    ({ force, refetchEvicted, trigger, progressListeners }, signal) => {
+      const onProgress = (progress: SyncProgress) => progressListeners.forEach((listener) => listener(progress));
+      return syncKnowledgeBase(force, refetchEvicted, trigger, onProgress, signal);
+    },
+    {
+      signal: options.signal,
+      merge: (queued, incoming) => ({
+        force: queued.force || incoming.force,
+        refetchEvicted: queued.refetchEvicted || incoming.refetchEvicted,
+        trigger: queued.trigger,
+        progressListeners: [...queued.progressListeners, ...incoming.progressListeners],
+      }),
+    }
+  );
+}
+
+/**
+ * Sync knowledge base from GitHub and local directories, and record the run in
+ * the sync history. Without a GitHub token only local repositories are synced.
+ * The sync builds a new index generation that replaces the live one only once
+ * complete, so searches never see a partly synced index. Use requestSync
+ * rather than calling this directly, so syncs don't overlap.
+ */
+async function syncKnowledgeBase(
+  force: boolean,
+  refetchEvicted: boolean,
+  trigger: SyncTrigger,
+  onProgress: (progress: SyncProgress) => void,
+  signal: AbortSignal
+): Promise<SyncReport> {
+  const report: SyncReport = {
+    feeds: [],
+    repositories: [],
+    totals: { added: 0, changed: 0, unchanged: 0, removed: 0 },
+  };
+  const startedAt = new Date().toISOString();
+  const current = { trigger, startedAt, completed: 0, total: 0, message: 'Starting sync' };
+  activeSync = current;
+
+  let error: string | undefined;
+  let cancelled = false;
+  try {
+    await runSync(
+      report,
+      force,
+      refetchEvicted,
+      (progress) => {
+        Object.assign(current, progress);
+        onProgress(progress);
+      },
+      signal
+    );
+    return report;
+  } catch (syncError) {
+    error = syncError instanceof Error ? syncError.message : String(syncError);
+    cancelled = syncError instanceof SyncCancelledError;
+    if (cancelled) console.error('Knowledge base sync cancelled, keeping the current index');
+    throw syncError;
+  } finally {
+    if (activeSync === current) activeSync = null;
+
+    const run: SyncRun = {
+      trigger,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      status: cancelled
+        ? 'cancelled'
+        : error
+          ? 'failed'
+          : report.repositories.some((r) => r.error)
+            ? 'partial'
+            : 'success',
+      error,
+      totals: report.totals,
+      repositories: report.repositories,
+    };
+    await storage.appendSyncRun(run).catch((historyError) => {
+      console.error('Error recording sync history:', historyError);
+    });
+  }
+}
+
+/**
+ * Import blocklist feeds, sync every target repository into a copy of the
+ * index and drop the ones no longer targeted, then swap the copy in.
+ * Fills in the report as it goes.
+ */
+async function runSync(
+  report: SyncReport,
+  force: boolean,
+  refetchEvicted: boolean,
+  onProgress: (progress: SyncProgress) => void,
+  signal: AbortSignal
+): Promise<void> {
+  if (!githubSync) {
+    console.error('GitHub sync not available, syncing local repositories only');
+  }
+
+  const config = await storage.loadConfig();
+
+  // Import blocklist feeds first so new entries apply to this sync
+  report.feeds = await importBlocklistFeeds(
+    storage,
+    githubSync ? config.blocklist.feeds : config.blocklist.feeds.filter((feed) => feed.path),
+    githubSync
+  );
+  signal.throwIfAborted();
+
+  const index = searchEngine.clone();
+  if (refetchEvicted) {
+    index.forgetEvictions();
+  }
+
+  // Clear existing index if forcing update; offline, only what can be rebuilt
+  if (force && githubSync) {
+    index.clear();
+  } else if (force) {
+    for (const repo of index.listRepositories().filter((r) => r.type === 'local')) {
+      index.removeDocuments(index.getRepoDocuments(repo.owner, repo.repo).map((doc) => doc.id));
+      index.setRepoState(repo.owner, repo.repo, undefined);
+    }
+  }
+
+  // Collect repos to sync, keyed by owner/repo so each is fetched once
+  const targets = new Map<string, SyncTarget>();
+  let discoveryFailed = false;
+
+  // Fetch from user repos (if auto-discover enabled)
+  if (githubSync && config.sync.autoDiscoverUserRepos) {
+    console.error('Auto-discovering user repositories...');
+    const userRepos = await githubSync.discoverRepos();
+    if (userRepos === null) {
+      discoveryFailed = true;
+    } else {
+      console.error(`Found ${userRepos.length} user repositories with .claude/ directories`);
+    }
+
+    for (const repo of userRepos ?? []) {
+      targets.set(`${repo.owner}/${repo.repo}`, {
+        ...repo,
+        type: 'user',
+        branch: 'main',
+        includePatterns: ['.claude/**/*.md', '**/*.mcp.json'],
+      });
+    }
+  }
+
+  // Fetch from official MCP repos
+  if (githubSync && config.sync.includeOfficialMCPRepos) {
+    for (const repo of githubSync.getOfficialMCPRepos()) {
+      targets.set(`${repo.owner}/${repo.repo}`, {
+        owner: repo.owner,
+        repo: repo.repo,
+        type: 'official',
+        branch: 'main',
+        includePatterns: repo.includePatterns ?? ['**/*.md', '**/package.json'],
+      });
+    }
+  }
+
+  // Fetch from community repos
+  if (githubSync && config.sync.includeCommunityRepos) {
+    for (const repo of await githubSync.getCommunityMCPRepos()) {
+      targets.set(`${repo.owner}/${repo.repo}`, {
+        ...repo,
+        type: 'community',
+        branch: 'main',
+        includePatterns: ['**/*.md'],
+      });
+    }
+  }
+
+  // Explicitly configured repos take precedence over defaults
+  for (const repo of config.repositories) {
+    const key = `${repo.owner}/${repo.repo}`;
+    if (!repo.indexingEnabled || (!githubSync && repo.type !== 'local' && repo.provider === 'github')) {
+      targets.delete(key);
+      continue;
+    }
+
+    targets.set(key, {
+      owner: repo.owner,
+      repo: repo.repo,
+      type: repo.type,
+      branch: repo.branch,
+      includePatterns: repo.includePatterns,
+      excludePatterns: repo.excludePatterns,
+      path: repo.path,
+      provider: repo.provider,
+      url: repo.url,
+      tokenEnv: repo.tokenEnv,
+    });
+  }
+
+  let completed = 0;
+  let total = targets.size;
+  const record = (repoReport: RepoSyncRecord) => {
+    report.repositories.push(repoReport);
+    report.totals.added += repoReport.added;
+    report.totals.changed += repoReport.changed;
+    report.totals.unchanged += repoReport.unchanged;
+    report.totals.removed += repoReport.removed;
+
+    completed++;
+    const outcome = repoReport.error ? 'failed' : repoReport.skipped ? 'unchanged' : 'synced';
+    onProgress({ completed, total, message: `${repoReport.repository} ${outcome}` });
+  };
+
+  onProgress({ completed, total, message: `Syncing ${total} repositories` });
+  for (const target of targets.values()) {
+    signal.throwIfAborted();
+    record(await syncRepository(target, index, signal));
+  }
+
+  // Community servers picked from the awesome lists, now that the lists are up to date
+  if (githubSync && config.sync.includeCommunityRepos) {
+    const communityTargets = await communityCatalogTargets(config, targets, index);
+    total += communityTargets.length;
+    for (const target of communityTargets) {
+      signal.throwIfAborted();
+      targets.set(`${target.owner}/${target.repo}`, target);
+      record(await syncRepository(target, index, signal));
+    }
+  }
+
+  // Drop repos that are no longer sync targets (removed from config, lost .claude/, ...)
+  if (discoveryFailed) {
+    console.error('Skipping removal of dropped repositories: user repo discovery failed');
+  } else {
+    // Offline, GitHub repos can't be told apart from dropped ones, so only local repos are removed
+    const keep = new Set(targets.keys());
+    if (!githubSync) {
+      for (const { owner, repo, type } of index.listRepositories()) {
+        if (type !== 'local') keep.add(`${owner}/${repo}`);
+      }
+      for (const { owner, repo } of await storage.listCachedRepos()) {
+        keep.add(`${owner}/${repo}`);
+      }
+    }
+
+    for (const dropped of await removeDroppedRepositories(keep, index)) {
+      report.repositories.push(dropped);
+      report.totals.removed += dropped.removed;
+    }
+  }
+
+  // Blocklist entries added while this sync ran
+  await purgeBlockedDocuments(index);
+
+  signal.throwIfAborted();
+  await persistIndex(index, config.storage.maxIndexSizeMB);
+  searchEngine = index;
+
+  await updateSpecifications();
+  updateLocalWatchers(config, [...targets.values()]);
+
+  const { added, changed, unchanged, removed } = report.totals;
+  console.error(
+    `Knowledge base sync complete: ${added} added, ${changed} changed, ${unchanged} unchanged, ${removed} removed`
+  );
+}
+
+/**
+ * Store the protocol versions found in the synced specification repo and make
+ * the latest one the default specification
+ */
+async function updateSpecifications(): Promise<void> {
+  const current = await storage.loadSpecification();
+  const specs = extractSpecifications(searchEngine.getAllDocuments(), current);
+  if (specs.length === 0) return;
+
+  // lastUpdated alone changing isn't an update
+  const comparable = (spec: MCPSpecification) => JSON.stringify({ ...spec, lastUpdated: undefined });
+  const updated: string[] = [];
+
+  for (const spec of specs) {
+    const stored = await storage.loadSpecification(spec.version).catch(() => null);
+    if (stored && comparable(stored) === comparable(spec)) continue;
+    await storage.saveSpecificationVersion(spec);
+    updated.push(spec.version);
+  }
+
+  const latest = specs[specs.length - 1];
+  if (comparable(current) !== comparable(latest)) {
+    await storage.saveSpecification(latest);
+  }
+
+  if (updated.length > 0) {
+    console.error(`Updated MCP specification versions: ${updated.join(', ')} (latest ${latest.version})`);
+  }
+}
+
+/**
+ * Sync targets for the community servers selected by sync.communityCatalog.
+ * Repos already targeted or listed in config.repositories are left alone, and
+ * blocklisted servers are skipped.
+ */
+async function communityCatalogTargets(
+  config: KnowledgeBaseConfig,
+  existing: Map<string, SyncTarget>,
+  index: SearchEngine
+): Promise<SyncTarget[]> {
+  const selection = config.sync.communityCatalog;
+  if (selection.categories.length === 0 && selection.allowlist.length === 0) {
+    return [];
+  }
+
+  const configured = new Set(config.repositories.map((r) => `${r.owner}/${r.repo}`.toLowerCase()));
+  const blockEntries = await loadActiveBlocklistEntries();
+  const catalog = buildCommunityCatalog(index.getAllDocuments());
+  const targets: SyncTarget[] = [];
+
+  for (const server of selectCommunityServers(catalog, selection)) {
+    if (targets.length >= selection.maxRepos) break;
+
+    const { owner, repo } = server;
+    const key = `${owner}/${repo}`;
+    if (existing.has(key) || configured.has(key.toLowerCase())) continue;
+
+    const blocks = communityServerBlocks(server, blockEntries);
+    if (blocks.length > 0) {
+      console.error(`Skipping blocklisted community server ${key}: ${blocks[0].reason}`);
+      continue;
+    }
+
+    const branch =
+      index.getRepoState(owner, repo)?.branch ?? (await githubSync!.getDefaultBranch(owner, repo));
+    if (!branch) continue;
+
+    targets.push({
+      owner,
+      repo,
+      type: 'community',
+      branch,
+      includePatterns: selection.includePatterns,
+      excludePatterns: selection.excludePatterns,
+    });
+  }
+
+  return targets;
+}
+
+/**
+ * Incrementally sync one repository into a search index
+ */
+async function syncRepository(
+  target: SyncTarget,
+  index: SearchEngine,
+  signal?: AbortSignal
+): Promise<RepoSyncRecord> {
+  const { owner, repo } = target;
+  const startedAt = new Date().toISOString();
+  const previous = {
+    state: index.getRepoState(owner, repo),
+    documents: index.getRepoDocuments(owner, repo),
+  };
+
+  let result: RepoSyncResult;
+  try {
+    if (target.type === 'local') {
+      result = await localSync.fetchFilesFromDirectory(
+        owner,
+        repo,
+        target.path!,
+        target.includePatterns,
+        target.excludePatterns,
+        previous
+      );
+    } else {
+      result = await fetchFilesFromRepo(
+        sourceProviderFor(target),
+        storage,
+        owner,
+        repo,
+        target.branch,
+        target.includePatterns,
+        target.excludePatterns,
+        previous,
+        signal
+      );
+    }
+  } catch (error) {
+    if (signal?.aborted) throw error;
+
+    // Leave whatever is indexed untouched when the repo can't be read
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error syncing ${owner}/${repo}:`, message);
+    return {
+      repository: `${owner}/${repo}`,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      skipped: true,
+      error: message,
+      added: 0,
+      changed: 0,
+      unchanged: 0,
+      removed: 0,
+    };
+  }
+
+  if (!result.skipped) {
+    index.removeDocuments(result.removedIds);
+    index.addDocuments(result.documents);
+    index.setRepoState(owner, repo, result.state);
+  }
+  index.setSourceType(owner, repo, target.type);
+
+  const { failedFiles } = result;
+  return {
+    repository: `${owner}/${repo}`,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    treeSha: result.state?.treeSha,
+    skipped: result.skipped,
+    ...result.stats,
+    error: failedFiles.length > 0 ? `${failedFiles.length} files failed to sync and will be retried` : undefined,
+    failedFiles: failedFiles.length > 0 ? failedFiles : undefined,
+  };
+}
+
+/**
+ * Provider that fetches a remote sync target. GitLab and Gitea tokens come from
+ * the target's tokenEnv, defaulting to GITLAB_TOKEN / GITEA_TOKEN.
+ */
+function sourceProviderFor(target: SyncTarget): SourceProvider {
+  switch (target.provider ?? 'github') {
+    case 'github':
+      return githubSync!;
+    case 'gitlab':
+      return new GitLabProvider(target.url, process.env[target.tokenEnv ?? 'GITLAB_TOKEN']);
+    case 'gitea':
+      return new GiteaProvider(target.url!, process.env[target.tokenEnv ?? 'GITEA_TOKEN']);
+    case 'git':
+      return new GitCloneProvider(target.url!, storage.getMirrorPath(target.owner, target.repo));
+  }
+}
+
+/**
+ * Watch the local repositories among the sync targets (when sync is enabled)
+ * and stop watching the ones no longer targeted
+ */
+function updateLocalWatchers(config: KnowledgeBaseConfig, targets: SyncTarget[]): void {
+  const local = new Map(
+    config.sync.enabled
+      ? targets.filter((t) => t.type === 'local').map((t) => [`${t.owner}/${t.repo}`, t])
+      : []
+  );
+
+  for (const [key, watcher] of localWatchers) {
+    if (local.get(key)?.path !== watcher.path) {
+      watcher.stop();
+      localWatchers.delete(key);
+    }
+  }
+  for (const key of localWatchFailures.keys()) {
+    if (!local.has(key)) localWatchFailures.delete(key);
+  }
+
+  for (const [key, target] of local) {
+    if (localWatchers.has(key)) continue;
+
+    // Rescans wait for a running sync; changes during the wait are picked up by one rescan
+    const stop = localSync.watch(
+      target.path!,
+      target.excludePatterns ?? [],
+      () => {
+        void syncCoordinator.run(`rescan:${key}`, target, syncLocalRepository);
+      },
+      (error) => {
+        localWatchers.delete(key);
+        localWatchFailures.set(key, {
+          path: target.path!,
+          error: error.message,
+          since: localWatchFailures.get(key)?.since ?? new Date().toISOString(),
+        });
+      }
+    );
+    if (stop) {
+      localWatchers.set(key, { path: target.path!, stop });
+      localWatchFailures.delete(key);
+      console.error(`Watching ${target.path} for changes (${key})`);
+    }
+  }
+}
+
+/**
+ * Rescan a watched local repository and persist the index if anything changed
+ */
+async function syncLocalRepository(target: SyncTarget): Promise<void> {
+  try {
+    // One repository changes at once, so it is updated in place
+    const repoReport = await syncRepository(target, searchEngine);
+    if (repoReport.added + repoReport.changed + repoReport.removed === 0) return;
+
+    const config = await storage.loadConfig();
+    await persistIndex(searchEngine, config.storage.maxIndexSizeMB);
+    console.error(
+      `Reindexed ${repoReport.repository}: ${repoReport.added} added, ${repoReport.changed} changed, ${repoReport.removed} removed`
+    );
+  } catch (error) {
+    console.error(`Error reindexing ${target.owner}/${target.repo}:`, error);
+  }
+}
+
+/**
+ * Remove indexed documents and cached files of repositories not in targetKeys
+ */
+async function removeDroppedRepositories(
+  targetKeys: Set<string>,
+  index: SearchEngine
+): Promise<RepoSyncRecord[]> {
+  const candidates = new Map<string, { owner: string; repo: string }>();
+  for (const { owner, repo } of index.listRepositories()) {
+    candidates.set(`${owner}/${repo}`, { owner, repo });
+  }
+  for (const { owner, repo } of index.getAllRepoStates()) {
+    candidates.set(`${owner}/${repo}`, { owner, repo });
+  }
+  for (const { owner, repo } of await storage.listCachedRepos()) {
+    candidates.set(`${owner}/${repo}`, { owner, repo });
+  }
+
+  const reports: RepoSyncRecord[] = [];
+
+  for (const [key, { owner, repo }] of candidates) {
+    if (targetKeys.has(key)) continue;
+    const startedAt = new Date().toISOString();
+
+    const documents = index.getRepoDocuments(owner, repo);
+    index.removeDocuments(documents.map((doc) => doc.id));
+    index.setRepoState(owner, repo, undefined);
+    await storage.removeRepoCache(owner, repo);
+
+    console.error(`Removed dropped repository ${key} (${documents.length} documents)`);
+    reports.push({
+      repository: key,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      skipped: false,
+      added: 0,
+      changed: 0,
+      unchanged: 0,
+      removed: documents.length,
+    });
+  }
+
+  return reports;
+}
+
+/**
+ * Remove documents and cached files matching the file blocklist from an index (strict mode only).
+ * Returns the number of documents removed.
+ */
+async function purgeBlockedDocuments(index: SearchEngine): Promise<number> {
+  const blocklist = await storage.loadFileBlocklist();
+  if (!blocklist.excludesFromIndex()) return 0;
+
+  const blocked = index
+    .getAllDocuments()
+    .filter((doc) => blocklist.match(doc.repoOwner, doc.repoName, doc.filePath));
+  if (blocked.length === 0) return 0;
+
+  index.removeDocuments(blocked.map((doc) => doc.id));
+  for (const doc of blocked) {
+    await storage.removeCachedFile(doc.repoOwner, doc.repoName, doc.filePath);
+  }
+
+  console.error(`Purged ${blocked.length} blocklisted documents from the index`);
+  return blocked.length;
+}
+
+/**
+ * Purge blocklisted documents from the live index and persist it. Runs through
+ * the sync coordinator, so a sync can't replace the index with a generation
+ * built before the purge.
+ */
+async function purgeLiveIndex(): Promise<number> {
+  const purged = await purgeBlockedDocuments(searchEngine);
+  if (purged > 0) {
+    const config = await storage.loadConfig();
+    await persistIndex(searchEngine, config.storage.maxIndexSizeMB);
+  }
+  return purged;
+}
+
+/**
+ * Match "owner/repo" against a "repo" or "owner/repo" filter
+ */
+function repoMatches(repository: string, filter: string): boolean {
+  return filter.includes('/') ? repository === filter : repository.endsWith(`/${filter}`);
+}
+
+/**
+ * Whether a repository is configured or has been indexed
+ */
+async function isKnownRepo(owner: string, repo: string): Promise<boolean> {
+  if (searchEngine.getRepoState(owner, repo)) {
+    return true;
+  }
+  const config = await storage.loadConfig();
+  return config.repositories.some((r) => r.owner === owner && r.repo === repo);
+}
+
+/**
+ * Blocklist entries currently in effect
+ */
+async function loadActiveBlocklistEntries(): Promise<BlocklistEntry[]> {
+  const blocklist = await storage.loadBlocklist();
+  return storage.getActiveEntries(blocklist.entries);
+}
+
+/**
+ * Enforce the configured index size limit and write an index to disk
+ */
+async function persistIndex(index: SearchEngine, maxIndexSizeMB: number): Promise<void> {
+  const evicted = index.enforceSizeLimit(maxIndexSizeMB * 1024 * 1024);
+  if (evicted > 0) {
+    console.error(
+      `Index exceeded storage.maxIndexSizeMB (${maxIndexSizeMB} MB): evicted ${evicted} oldest documents`
+    );
+  }
+
+  await storage.saveIndex(index.getAllDocuments(), index.getAllRepoStates());
+
+  const embedded = await index.updateEmbeddings();
+  const vectors = index.exportVectors();
+  if (vectors) {
+    if (embedded > 0) {
+      console.error(`Computed embeddings for ${embedded} documents`);
+    }
+    await storage.saveVectorIndex(vectors);
+  }
+}
+
+/**
+ * Load the persisted index so search works before (or without) a GitHub sync
+ */
+async function loadPersistedIndex(): Promise<void> {
+  const index = await storage.loadIndex();
+  if (!index) {
+    console.error('No persisted index found, a full sync is required');
+    return;
+  }
+
+  searchEngine.addDocuments(index.documents);
+  for (const state of index.repositories) {
+    searchEngine.setRepoState(state.owner, state.repo, state);
+  }
+
+  const vectors = await storage.loadVectorIndex();
+  if (vectors) {
+    searchEngine.loadVectors(vectors);
+  }
+  console.error(`Loaded persisted index from ${index.lastUpdated}`);
+}
+
+/**
+ * Setup periodic sync
+ */
+function setupPeriodicSync(intervalMinutes: number): void {
+  if (syncInterval) {
+    clearInterval(syncInterval);
+  }
+
+  const intervalMs = intervalMinutes * 60 * 1000;
+  nextSyncAt = new Date(Date.now() + intervalMs);
+
+  syncInterval = setInterval(async () => {
+    console.error('Periodic knowledge base update...');
+    nextSyncAt = new Date(Date.now() + intervalMs);
+    // Queueing another sync behind a slow one would only repeat it
+    if (syncCoordinator.has('sync')) {
+      console.error('Previous sync still in progress, skipping this periodic sync');
+      return;
+    }
+    try {
+      await requestSync(false, 'periodic');
+    } catch (error) {
+      console.error('Error during periodic sync:', error);
+    }
+  }, intervalMs);
+
+  console.error(`Periodic sync enabled: every ${intervalMinutes} minutes`);
+}
+
+/**
+ * Stop periodic sync
+ */
+function stopPeriodicSync(): void {
+  if (syncInterval) {
+    clearInterval(syncInterval);
+    syncInterval = null;
+  }
+  nextSyncAt = null;
+  console.error('Periodic sync disabled');
+}
+
+/**
+ * Load, change, save and apply the configuration. Edits (and reloads of
+ * config.json) run one at a time so none is lost. Returns notes on how the
+ * change was applied.
+ */
+function editConfig(
+  edit: (config: KnowledgeBaseConfig) => KnowledgeBaseConfig | Promise<KnowledgeBaseConfig>
+): Promise<string[]> {
+  const result = configUpdates.then(async () => {
+    const next = await edit(await storage.loadConfig());
+    await storage.saveConfig(next);
+    return applyConfig(next);
+  });
+  configUpdates = result.catch(() => {});
+  return result;
+}
+
+/**
+ * Apply a new configuration to the running server: reschedule the sync
+ * timer, move the caches and reindex what the change affects.
+ * Server settings only take effect on restart.
+ */
+async function applyConfig(next: KnowledgeBaseConfig): Promise<string[]> {
+  const previous = appliedConfig;
+  appliedConfig = next;
+  if (!previous) return [];
+
+  const changes = diffConfig(previous, next);
+  const notes: string[] = [];
+
+  if (changes.schedule) {
+    if (next.sync.enabled) {
+      setupPeriodicSync(next.sync.intervalMinutes);
+      notes.push(`Periodic sync every ${next.sync.intervalMinutes} minutes, next at ${nextSyncAt!.toISOString()}.`);
+    } else {
+      stopPeriodicSync();
+      updateLocalWatchers(next, []);
+      notes.push('Periodic sync and watching of local repositories stopped.');
+    }
+  }
+
+  if (changes.cacheDir) {
+    const previousDir = storage.getCacheDir();
+    const cacheDir = resolveLocalPath(next.storage.cacheDir);
+    try {
+      await storage.setCacheDir(cacheDir);
+      notes.push(`Index and repository caches are now kept in ${cacheDir} (${previousDir} was left in place).`);
+    } catch (error) {
+      notes.push(
+        `Could not use cache directory ${cacheDir}, still using ${previousDir}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  // Files evicted under the old limit may fit now; the sync below fetches them again
+  const refetchEvicted =
+    next.storage.maxIndexSizeMB > previous.storage.maxIndexSizeMB &&
+    searchEngine.getAllRepoStates().some((state) => state.evicted);
+
+  if (changes.cacheDir || changes.maxIndexSize) {
+    // After a running sync, whose new index generation would otherwise be saved under the old settings
+    syncCoordinator
+      .run('persist', next.storage.maxIndexSizeMB, (maxIndexSizeMB) => persistIndex(searchEngine, maxIndexSizeMB), {
+        merge: (_queued, incoming) => incoming,
+      })
+      .catch((error) => {
+        console.error('Error saving the index after configuration change:', error);
+      });
+  }
+
+  // A sync also starts the watchers on local repositories when sync is turned back on
+  if (changes.sources || refetchEvicted || (changes.schedule && next.sync.enabled && !previous.sync.enabled)) {
+    requestSync(false, 'config', { refetchEvicted }).catch((error) => {
+      console.error('Error during sync after configuration change:', error);
+    });
+    notes.push('Reindexing affected repositories in the background (see get_sync_status).');
+  }
+
+  if (changes.server) {
+    notes.push('Server settings take effect after a restart.');
+  }
+
+  return notes;
+}
+
+/**
+ * Watch config.json and apply changes made by hand. Invalid edits are logged
+ * and ignored, keeping the configuration in effect.
+ */
+function watchConfigFile(): (() => void) | null {
+  const configPath = storage.getConfigPath();
+  let timer: NodeJS.Timeout | null = null;
+
+  const reload = async () => {
+    let config: KnowledgeBaseConfig;
+    try {
+      config = validateConfig(JSON.parse(await fs.readFile(configPath, 'utf-8')));
+    } catch (error) {
+      console.error('Ignoring config.json change:', error instanceof Error ? error.message : error);
+      return;
+    }
+
+    // Our own edits were applied already
+    if (JSON.stringify(config) === JSON.stringify(appliedConfig)) return;
+
+    console.error('config.json changed, applying...');
+    for (const note of await applyConfig(config)) {
+      console.error(note);
+    }
+  };
+
+  try {
+    // The file is replaced on save, so watch its directory
+    const watcher = watch(path.dirname(configPath), (_event, filename) => {
+      if (filename?.toString() !== path.basename(configPath)) return;
+
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        configUpdates = configUpdates.then(reload).catch((error) => {
+          console.error('Error applying config.json change:', error);
+        });
+      }, 500);
+    });
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      watcher.close();
+    };
+  } catch (error) {
+    console.error('Not watching config.json:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Throw unless path (~/ expanded) is an existing directory
+ */
+async function assertDirectory(directory: string): Promise<void> {
+  const resolved = resolveLocalPath(directory);
+  const stats = await fs.stat(resolved).catch(() => null);
+  if (!stats?.isDirectory()) {
+    throw new Error(`Directory not found: ${resolved}`);
+  }
+}
+
+/**
+ * Throw unless directory is inside one of the server.auditPaths, symlinks resolved
+ */
+async function assertAuditAllowed(directory: string): Promise<void> {
+  const allowed = (appliedConfig?.server.auditPaths ?? []).map(resolveLocalPath);
+  if (allowed.length === 0) {
+    throw new Error('audit_mcp_server is not available over HTTP unless server.auditPaths is configured');
+  }
+
+  const real = await fs.realpath(directory).catch(() => directory);
+  for (const root of allowed) {
+    const realRoot = await fs.realpath(root).catch(() => root);
+    const relative = path.relative(realRoot, real);
+    if (relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))) {
+      return;
+    }
+  }
+  throw new Error(`Path not allowed: ${directory} is outside server.auditPaths`);
+}
+
+/**
+ * Main server startup
+ */
+async function main() {
+  try {
+    // Initialize storage
+    console.error('Initializing knowledge base storage...');
+    await storage.initialize();
+    const config = await storage.loadConfig();
+    appliedConfig = config;
+    await storage.setCacheDir(resolveLocalPath(config.storage.cacheDir));
+
+    // Load the index from disk so search works immediately and offline
+    await loadPersistedIndex();
+
+    // Initialize GitHub sync
+    try {
+      const token = await GitHubSync.getToken();
+      githubSync = new GitHubSync(token);
+      console.error('GitHub authentication successful');
+    } catch (error) {
+      console.error('GitHub sync disabled:', error instanceof Error ? error.message : error);
+      console.error('Server will run with limited functionality (no GitHub integration)');
+    }
+
+    // Start MCP server on the selected transport (CLI flags override config)
+    const serverConfig = config.server;
+    const cli = parseCliOptions();
+    const transportMode = cli.transport ?? serverConfig.transport;
+
+    if (transportMode === 'http') {
+      httpServer = await startHttpServer(() => createServer(true), {
+        host: cli.host ?? serverConfig.host,
+        port: cli.port ?? serverConfig.port,
+        authToken: process.env.CLAUDE_KB_AUTH_TOKEN || serverConfig.authToken,
+        allowedHosts: serverConfig.allowedHosts,
+        allowedOrigins: serverConfig.allowedOrigins,
+        sessionIdleMs: serverConfig.sessionIdleMinutes * 60 * 1000,
+      });
+      console.error(`Claude MCP Knowledge Base server running on ${httpServer.url}`);
+    } else {
+      const transport = new StdioServerTransport();
+      await createServer().connect(transport);
+      console.error('Claude MCP Knowledge Base server running on stdio');
+    }
+
+    console.error(`Storage: ${storage.getConfigPath()}`);
+
+    const stats = searchEngine.getStats();
     console.error(
       `Indexed: ${stats.totalDocuments} documents from ${stats.repositories.size} repositories`
     );
+
+    // Initial sync runs in the background; the persisted index serves searches meanwhile.
+    // Without GitHub it still indexes local repositories and imports local blocklist feeds.
+    console.error('Performing initial knowledge base sync...');
+    requestSync(false, 'startup').catch((error) => {
+      console.error('Error during initial sync:', error);
+    });
+
+    // Setup periodic sync
+    if (config.sync.enabled) {
+      setupPeriodicSync(config.sync.intervalMinutes);
+    }
+
+    // Apply hand edits of config.json without a restart
+    stopConfigWatcher = watchConfigFile();
   } catch (error) {
     console.error('Fatal error:', error);
     process.exit(1);
   }
 }
 
-// Handle shutdown
-process.on('SIGINT', () => {
-  console.error('Shutting down...');
-  if (syncInterval) {
-    clearInterval(syncInterval);
+/**
+ * Parse command line options: --http, --transport <stdio|http>, --host, --port
+ */
+function parseCliOptions(): { transport?: 'stdio' | 'http'; host?: string; port?: number } {
+  const { values } = parseArgs({
+    options: {
+      http: { type: 'boolean' },
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+    },
+  });
+
+  let transport: 'stdio' | 'http' | undefined = values.http ? 'http' : undefined;
+  if (values.transport !== undefined) {
+    if (values.transport !== 'stdio' && values.transport !== 'http') {
+      throw new Error(`Invalid --transport "${values.transport}", expected stdio or http`);
+    }
+    transport = values.transport;
   }
-  process.exit(0);
-});
 
-process.on('SIGTERM', () => {
+  let port: number | undefined;
+  if (values.port !== undefined) {
+    port = Number(values.port);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error(`Invalid --port "${values.port}"`);
+    }
+  }
+
+  return { transport, host: values.host, port };
+}
+
+// Handle shutdown
+async function shutdown(): Promise<void> {
   console.error('Shutting down...');
   if (syncInterval) {
     clearInterval(syncInterval);
   }
+  stopConfigWatcher?.();
+  for (const watcher of localWatchers.values()) {
+    watcher.stop();
+  }
+  if (httpServer) {
+    await httpServer.close();
+  }
   process.exit(0);
-});
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 main().catch((error) => {
   console.error('Fatal error:', error);
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { BlocklistEntry, IndexedDocument } from '../schemas/knowledge-base.js';
+import {
+  CommunityServer,
+  buildCommunityCatalog,
+  communityServerBlocks,
+  parseAwesomeList,
+  selectCommunityServers,
+} from './awesome-list.js';
+
+const LIST = 'punkpeye/awesome-mcp-servers';
+
+const README = `# Awesome MCP Servers [![Awesome](https://awesome.re/badge.svg)](https://awesome.re)
+
+- [Contributing](https://github.com/punkpeye/awesome-mcp-servers/blob/main/CONTRIBUTING.md)
+
+## 🗂️ <a name="file-systems"></a>File Systems
+
+- [acme/files-server](https://github.com/acme/files-server) 📇 🏠 - Read and write **local** files
+* [Drive](https://github.com/Other-Org/drive.mcp.git): Google Drive access with [docs](https://example.com)
+- [Topic](https://github.com/topics/mcp) - not a repository
+- [acme/files-server again](https://github.com/acme/files-server/tree/main) - duplicate
+
+\`\`\`markdown
+- [Example](https://github.com/example/in-code-block) - ignored
+\`\`\`
+
+### Databases
+
++ 🐘 [pg](https://www.github.com/db/pg-mcp#readme) — PostgreSQL
+- No link here
+- [Website only](https://example.com/server)
+`;
+
+function readme(owner: string, repo: string, content: string, filePath = 'README.md'): IndexedDocument {
+  return {
+    id: `${owner}/${repo}/main/${filePath}`,
+    repoOwner: owner,
+    repoName: repo,
+    branch: 'main',
+    filePath,
+    content,
+    metadata: { fileType: 'md', lastModified: '2025-01-01T00:00:00.000Z', size: content.length, hash: repo },
+    indexed: '2025-01-01T00:00:00.000Z',
+  };
+}
+
+describe('parseAwesomeList', () => {
+  it('reads the first GitHub repository link of each list item under its heading', () => {
+    expect(parseAwesomeList(README, LIST)).toEqual([
+      {
+        name: 'acme/files-server',
+        owner: 'acme',
+        repo: 'files-server',
+        url: 'https://github.com/acme/files-server',
+        category: 'File Systems',
+        description: 'Read and write local files',
+        listedIn: LIST,
+      },
+      {
+        name: 'Drive',
+        owner: 'Other-Org',
+        repo: 'drive.mcp',
+        url: 'https://github.com/Other-Org/drive.mcp',
+        category: 'File Systems',
+        description: 'Google Drive access with docs',
+        listedIn: LIST,
+      },
+      {
+        name: 'pg',
+        owner: 'db',
+        repo: 'pg-mcp',
+        url: 'https://github.com/db/pg-mcp',
+        category: 'Databases',
+        description: 'PostgreSQL',
+        listedIn: LIST,
+      },
+    ]);
+  });
+
+  it('files items before the first section under Uncategorized', () => {
+    const [server] = parseAwesomeList('- [x](https://github.com/a/b)', 'list');
+    expect(server.category).toBe('Uncategorized');
+  });
+});
+
+describe('buildCommunityCatalog', () => {
+  it('reads only the awesome-list READMEs and keeps the first listing', () => {
+    const catalog = buildCommunityCatalog([
+      readme('punkpeye', 'awesome-mcp-servers', README),
+      readme('wong2', 'awesome-mcp-servers', '- [F](https://github.com/ACME/files-server)\n- [n](https://github.com/n/n)'),
+      readme('wong2', 'awesome-mcp-servers', '- [c](https://github.com/c/c)', 'CONTRIBUTING.md'),
+      readme('someone', 'not-a-list', '- [s](https://github.com/s/s)'),
+    ]);
+
+    expect(catalog.map((s) => `${s.owner}/${s.repo}`)).toEqual([
+      'acme/files-server',
+      'Other-Org/drive.mcp',
+      'db/pg-mcp',
+      'n/n',
+    ]);
+    expect(catalog[0].listedIn).toBe(LIST);
+  });
+});
+
+describe('selectCommunityServers', () => {
+  const catalog = parseAwesomeList(README, LIST);
+
+  it('takes the allowlist first, then the chosen categories', () => {
+    const selected = selectCommunityServers(catalog, { categories: ['file systems'], allowlist: ['DB/pg-mcp'] });
+    expect(selected.map((s) => s.repo)).toEqual(['pg-mcp', 'files-server', 'drive.mcp']);
+  });
+
+  it('selects nothing by default', () => {
+    expect(selectCommunityServers(catalog, { categories: [], allowlist: [] })).toEqual([]);
+  });
+});
+
+describe('communityServerBlocks', () => {
+  const server: CommunityServer = parseAwesomeList(README, LIST)[0];
+  const block = (serverName: string): BlocklistEntry => ({
+    timestamp: '2025-01-01T00:00:00.000Z',
+    type: 'server',
+    serverName,
+    reason: 'test',
+    hash: `sha256:${serverName}`,
+    allowOverride: false,
+    source: 'user',
+  });
+
+  it('matches by listed name, owner/repo or repo name', () => {
+    expect(communityServerBlocks(server, [block('acme/files-server')])).toHaveLength(1);
+    expect(communityServerBlocks(server, [block('files-server')])).toHaveLength(1);
+    expect(communityServerBlocks(server, [block('acme/*')])).toHaveLength(1);
+    expect(communityServerBlocks(server, [block('other/files-server')])).toHaveLength(0);
+  });
+});
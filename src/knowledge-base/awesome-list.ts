@@ -0,0 +1,145 @@
+import { BlocklistEntry, IndexedDocument } from '../schemas/knowledge-base.js';
+import { matchesServerEntry } from './blocklist.js';
+
+/**
+ * Community server catalog
+ * Parses awesome-mcp-servers style READMEs into the servers they link to,
+ * grouped by the section heading they are listed under.
+ */
+
+/**
+ * Awesome lists indexed as community repositories
+ */
+export const AWESOME_MCP_LISTS: ReadonlyArray<{ owner: string; repo: string }> = [
+  { owner: 'punkpeye', repo: 'awesome-mcp-servers' },
+  { owner: 'wong2', repo: 'awesome-mcp-servers' },
+];
+
+export interface CommunityServer {
+  name: string;
+  owner: string;
+  repo: string;
+  url: string;
+  category: string;
+  description: string;
+  /** owner/repo of the awesome list */
+  listedIn: string;
+}
+
+export interface CommunitySelection {
+  categories: string[];
+  allowlist: string[];
+}
+
+// github.com paths that aren't repositories
+const RESERVED_OWNERS = new Set(['topics', 'sponsors', 'orgs', 'marketplace', 'features', 'apps', 'collections', 'search']);
+
+const GITHUB_LINK_RE = /\[([^\]]+)\]\((https?:\/\/(?:www\.)?github\.com\/([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:[/?#][^)\s]*)?)\)/;
+
+/**
+ * Parse one awesome-list README. The first link to a GitHub repository in each
+ * list item is the server; the text after it is its description.
+ */
+export function parseAwesomeList(markdown: string, listedIn: string): CommunityServer[] {
+  const servers: CommunityServer[] = [];
+  const seen = new Set<string>();
+  let category = 'Uncategorized';
+  let inFence = false;
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const heading = /^#{2,4}\s+(.+)$/.exec(line);
+    if (heading) {
+      category = cleanText(heading[1]) || category;
+      continue;
+    }
+
+    const item = /^\s*[-*+]\s+(.+)$/.exec(line);
+    if (!item) continue;
+
+    const link = GITHUB_LINK_RE.exec(item[1]);
+    if (!link) continue;
+
+    const [matched, text, , owner, repo] = link;
+    const key = `${owner}/${repo}`.toLowerCase();
+    // Links back into the list itself (contributing guides, anchors) aren't servers
+    if (RESERVED_OWNERS.has(owner.toLowerCase()) || key === listedIn.toLowerCase() || seen.has(key)) continue;
+    seen.add(key);
+
+    const rest = item[1].slice(item[1].indexOf(matched) + matched.length);
+    servers.push({
+      name: cleanText(text),
+      owner,
+      repo,
+      url: `https://github.com/${owner}/${repo}`,
+      category,
+      description: cleanText(rest).replace(/^[-–—:|]\s*/, ''),
+      listedIn,
+    });
+  }
+
+  return servers;
+}
+
+/**
+ * Catalog from the indexed READMEs of the awesome lists, first listing wins
+ */
+export function buildCommunityCatalog(documents: IndexedDocument[]): CommunityServer[] {
+  const lists = new Set(AWESOME_MCP_LISTS.map((l) => `${l.owner}/${l.repo}`));
+  const catalog = new Map<string, CommunityServer>();
+
+  for (const doc of documents) {
+    const listedIn = `${doc.repoOwner}/${doc.repoName}`;
+    if (!lists.has(listedIn) || doc.filePath.toLowerCase() !== 'readme.md') continue;
+
+    for (const server of parseAwesomeList(doc.content, listedIn)) {
+      const key = `${server.owner}/${server.repo}`.toLowerCase();
+      if (!catalog.has(key)) catalog.set(key, server);
+    }
+  }
+
+  return [...catalog.values()];
+}
+
+/**
+ * Servers picked for indexing: the allowlist first, then the chosen categories
+ * in list order. Both match case-insensitively.
+ */
+export function selectCommunityServers(catalog: CommunityServer[], selection: CommunitySelection): CommunityServer[] {
+  const allowlist = new Set(selection.allowlist.map((r) => r.toLowerCase()));
+  const categories = new Set(selection.categories.map((c) => c.toLowerCase()));
+  const key = (s: CommunityServer) => `${s.owner}/${s.repo}`.toLowerCase();
+
+  return [
+    ...catalog.filter((s) => allowlist.has(key(s))),
+    ...catalog.filter((s) => !allowlist.has(key(s)) && categories.has(s.category.toLowerCase())),
+  ];
+}
+
+/**
+ * Server blocklist entries matching a community server by its listed name,
+ * owner/repo or repo name
+ */
+export function communityServerBlocks(server: CommunityServer, entries: BlocklistEntry[]): BlocklistEntry[] {
+  const names = [server.name, `${server.owner}/${server.repo}`, server.repo];
+  return entries.filter((entry) => names.some((name) => matchesServerEntry(entry, name)));
+}
+
+/**
+ * Strip HTML, images, link targets, emphasis and leading emoji/badges
+ */
+function cleanText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]/g, '')
+    .replace(/^[^\p{L}\p{N}@[(]+/u, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
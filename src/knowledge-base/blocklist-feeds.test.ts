@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BlocklistFeed, BlocklistFeedSource } from '../schemas/knowledge-base.js';
+import { importBlocklistFeeds } from './blocklist-feeds.js';
+import { KnowledgeBaseStorage } from './storage.js';
+
+const EVIL = { type: 'server' as const, serverName: '@evil/server', reason: 'malware', allowOverride: false };
+const SECRETS = { type: 'file_pattern' as const, pattern: '**/*.secret.md', reason: 'secrets', allowOverride: true };
+
+describe('importBlocklistFeeds', () => {
+  let baseDir: string;
+  let feedPath: string;
+  let storage: KnowledgeBaseStorage;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kb-feeds-'));
+    feedPath = path.join(baseDir, 'feed.json');
+    storage = new KnowledgeBaseStorage(path.join(baseDir, 'kb'));
+    await storage.initialize();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Write a feed file and return a source pinned to its hash
+   */
+  async function writeFeed(entries: BlocklistFeed['entries']): Promise<BlocklistFeedSource> {
+    const content = JSON.stringify({ name: 'shared', entries });
+    await fs.writeFile(feedPath, content);
+    return { name: 'shared', path: feedPath, sha256: crypto.createHash('sha256').update(content).digest('hex') };
+  }
+
+  async function activeEntries() {
+    return storage.getActiveEntries((await storage.loadBlocklist()).entries);
+  }
+
+  it('imports feed entries as community entries with provenance', async () => {
+    const source = await writeFeed([EVIL, SECRETS, EVIL]);
+
+    const [report] = await importBlocklistFeeds(storage, [source], null);
+    expect(report).toMatchObject({ feed: 'shared', imported: 2, retracted: 0, duplicates: 0, conflicts: [] });
+
+    const entries = await activeEntries();
+    expect(entries.map((e) => e.serverName ?? e.pattern)).toEqual(['@evil/server', '**/*.secret.md']);
+    expect(entries[0]).toMatchObject({
+      source: 'community',
+      provenance: { feed: 'shared', location: feedPath, feedHash: source.sha256, verifiedBy: 'sha256' },
+    });
+    await expect(storage.verifyBlocklist()).resolves.toMatchObject({ valid: 2 });
+
+    // Importing the same feed again changes nothing
+    const [again] = await importBlocklistFeeds(storage, [source], null);
+    expect(again).toMatchObject({ imported: 0, retracted: 0, duplicates: 0 });
+    expect((await storage.loadBlocklist()).entries).toHaveLength(2);
+  });
+
+  it('retracts entries the feed drops', async () => {
+    await importBlocklistFeeds(storage, [await writeFeed([EVIL, SECRETS])], null);
+
+    const [report] = await importBlocklistFeeds(storage, [await writeFeed([SECRETS])], null);
+    expect(report).toMatchObject({ imported: 0, retracted: 1 });
+    expect((await activeEntries()).map((e) => e.pattern)).toEqual(['**/*.secret.md']);
+  });
+
+  it('skips local duplicates and reports entries the user removed', async () => {
+    await storage.addBlocklistEntry({ timestamp: new Date().toISOString(), ...EVIL, source: 'user' });
+    await storage.addBlocklistEntry({ timestamp: new Date().toISOString(), ...SECRETS, source: 'user' });
+    const removed = (await storage.loadBlocklist()).entries[1];
+    await storage.removeBlocklistEntry(removed.hash, 'we need these files');
+
+    const [report] = await importBlocklistFeeds(storage, [await writeFeed([EVIL, SECRETS])], null);
+    expect(report.imported).toBe(0);
+    expect(report.duplicates).toBe(1);
+    expect(report.conflicts).toEqual([
+      { type: 'file_pattern', target: '**/*.secret.md', reason: 'Removed locally by the user; not re-imported' },
+    ]);
+    expect((await activeEntries()).map((e) => e.source)).toEqual(['user']);
+  });
+
+  it('rejects feeds that fail their hash pin, without importing anything', async () => {
+    const source = await writeFeed([EVIL]);
+    await fs.writeFile(feedPath, JSON.stringify({ entries: [EVIL, SECRETS] }));
+
+    const [report] = await importBlocklistFeeds(storage, [source], null);
+    expect(report.error).toContain('SHA-256 mismatch');
+    expect(report.imported).toBe(0);
+    expect((await storage.loadBlocklist()).entries).toEqual([]);
+  });
+
+  it('verifies detached Ed25519 signatures', async () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    const content = Buffer.from(JSON.stringify({ entries: [EVIL] }));
+    await fs.writeFile(feedPath, content);
+    await fs.writeFile(`${feedPath}.sig`, crypto.sign(null, content, privateKey).toString('base64'));
+    const source: BlocklistFeedSource = {
+      name: 'signed',
+      path: feedPath,
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    };
+
+    const [report] = await importBlocklistFeeds(storage, [source], null);
+    expect(report).toMatchObject({ imported: 1 });
+    expect((await activeEntries())[0].provenance?.verifiedBy).toBe('signature');
+
+    await fs.writeFile(feedPath, JSON.stringify({ entries: [EVIL, SECRETS] }));
+    const [tampered] = await importBlocklistFeeds(storage, [source], null);
+    expect(tampered.error).toBe('Signature verification failed');
+  });
+
+  it('reports malformed feeds and keeps importing the others', async () => {
+    const broken = path.join(baseDir, 'broken.json');
+    const content = JSON.stringify({ entries: [{ type: 'virus' }] });
+    await fs.writeFile(broken, content);
+    const brokenSource = {
+      name: 'broken',
+      path: broken,
+      sha256: crypto.createHash('sha256').update(content).digest('hex'),
+    };
+
+    const reports = await importBlocklistFeeds(storage, [brokenSource, await writeFeed([EVIL])], null);
+    expect(reports[0].error).toBeDefined();
+    expect(reports[1]).toMatchObject({ feed: 'shared', imported: 1 });
+  });
+});
@@ -0,0 +1,264 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  BlocklistEntry,
+  BlocklistFeedSchema,
+  BlocklistFeedSource,
+} from '../schemas/knowledge-base.js';
+import { KnowledgeBaseStorage } from './storage.js';
+import { GitHubSync } from './github-sync.js';
+import { isTombstone } from './blocklist.js';
+
+/**
+ * Community blocklist feeds
+ * Imports shared block entries from verified feed files. Imported entries are
+ * recorded as community entries with their provenance; entries the feed drops
+ * are retracted with a tombstone. A feed never overrides a local user entry:
+ * duplicates of active entries are skipped, and entries the user has removed
+ * are reported as conflicts instead of being re-added.
+ */
+
+export interface FeedImportReport {
+  feed: string;
+  location: string;
+  imported: number;
+  retracted: number;
+  /** Entries already blocked locally or by another feed */
+  duplicates: number;
+  /** Entries not imported because the user removed them locally */
+  conflicts: Array<{ type: string; target: string; reason: string }>;
+  error?: string;
+}
+
+/**
+ * Import every configured feed into the blocklist
+ */
+export async function importBlocklistFeeds(
+  storage: KnowledgeBaseStorage,
+  feeds: BlocklistFeedSource[],
+  githubSync: GitHubSync | null
+): Promise<FeedImportReport[]> {
+  const reports: FeedImportReport[] = [];
+
+  for (const source of feeds) {
+    const location = feedLocation(source);
+    try {
+      reports.push(await importFeed(storage, source, githubSync));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to import blocklist feed ${source.name} (${location}): ${message}`);
+      reports.push({
+        feed: source.name,
+        location,
+        imported: 0,
+        retracted: 0,
+        duplicates: 0,
+        conflicts: [],
+        error: message,
+      });
+    }
+  }
+
+  return reports;
+}
+
+async function importFeed(
+  storage: KnowledgeBaseStorage,
+  source: BlocklistFeedSource,
+  githubSync: GitHubSync | null
+): Promise<FeedImportReport> {
+  const location = feedLocation(source);
+  const content = await readFeedFile(source, githubSync, source.path ?? source.github!.path);
+  const verifiedBy = await verifyFeed(source, content, githubSync);
+  const feed = BlocklistFeedSchema.parse(JSON.parse(content.toString('utf-8')));
+
+  const report: FeedImportReport = {
+    feed: source.name,
+    location,
+    imported: 0,
+    retracted: 0,
+    duplicates: 0,
+    conflicts: [],
+  };
+
+  const blocklist = await storage.loadBlocklist();
+  const active = storage.getActiveEntries(blocklist.entries);
+  const activeKeys = new Set(active.map(entryKey));
+  const removedByUser = userRemovedKeys(blocklist.entries);
+
+  // Entries this feed imported earlier and that are still in effect
+  const fromFeed = new Map(
+    active.filter((e) => e.provenance?.feed === source.name).map((e) => [entryKey(e), e])
+  );
+
+  const now = new Date().toISOString();
+  const provenance = {
+    feed: source.name,
+    location,
+    feedHash: crypto.createHash('sha256').update(content).digest('hex'),
+    verifiedBy,
+    importedAt: now,
+  };
+
+  const additions: Array<Omit<BlocklistEntry, 'hash'>> = [];
+  const seen = new Set<string>();
+
+  for (const item of feed.entries) {
+    const key = entryKey(item);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    if (fromFeed.has(key)) continue;
+
+    if (removedByUser.has(key)) {
+      report.conflicts.push({
+        type: item.type,
+        target: describeTarget(item),
+        reason: 'Removed locally by the user; not re-imported',
+      });
+      continue;
+    }
+
+    if (activeKeys.has(key)) {
+      report.duplicates++;
+      continue;
+    }
+
+    additions.push({
+      timestamp: now,
+      type: item.type,
+      serverName: item.serverName,
+      version: item.version,
+      pattern: item.pattern,
+      reason: item.reason,
+      allowOverride: item.allowOverride,
+      source: 'community',
+      provenance,
+    });
+  }
+
+  // Entries the feed no longer lists are retracted
+  for (const [key, entry] of fromFeed) {
+    if (seen.has(key)) continue;
+    additions.push({
+      timestamp: now,
+      type: entry.type,
+      serverName: entry.serverName,
+      version: entry.version,
+      pattern: entry.pattern,
+      reason: `Retracted by feed ${source.name}`,
+      allowOverride: false,
+      source: 'community',
+      action: 'remove',
+      targetHash: entry.hash,
+      provenance,
+    });
+    report.retracted++;
+  }
+
+  report.imported = additions.length - report.retracted;
+  await storage.appendBlocklistEntries(additions);
+
+  if (additions.length > 0 || report.conflicts.length > 0) {
+    console.error(
+      `Blocklist feed ${source.name}: ${report.imported} imported, ${report.retracted} retracted, ` +
+        `${report.duplicates} duplicates, ${report.conflicts.length} conflicts`
+    );
+  }
+
+  return report;
+}
+
+/**
+ * Check the feed against its pinned hash and/or detached signature
+ */
+async function verifyFeed(
+  source: BlocklistFeedSource,
+  content: Buffer,
+  githubSync: GitHubSync | null
+): Promise<'signature' | 'sha256'> {
+  if (source.sha256) {
+    const actual = crypto.createHash('sha256').update(content).digest('hex');
+    if (actual !== source.sha256.toLowerCase()) {
+      throw new Error(`SHA-256 mismatch: expected ${source.sha256}, got ${actual}`);
+    }
+  }
+
+  if (!source.publicKey) {
+    return 'sha256';
+  }
+
+  const signaturePath = source.signaturePath ?? `${source.path ?? source.github!.path}.sig`;
+  const signatureFile = await readFeedFile(source, githubSync, signaturePath);
+  const signature = Buffer.from(signatureFile.toString('utf-8').trim(), 'base64');
+
+  const key = crypto.createPublicKey(source.publicKey);
+  // Ed25519/Ed448 sign the message directly; RSA and EC keys sign its SHA-256
+  const algorithm =
+    key.asymmetricKeyType === 'ed25519' || key.asymmetricKeyType === 'ed448' ? null : 'sha256';
+
+  if (!crypto.verify(algorithm, content, key, signature)) {
+    throw new Error('Signature verification failed');
+  }
+  return 'signature';
+}
+
+/**
+ * Read a feed-relative file from the feed's local directory or GitHub repository
+ */
+async function readFeedFile(
+  source: BlocklistFeedSource,
+  githubSync: GitHubSync | null,
+  filePath: string
+): Promise<Buffer> {
+  if (source.github) {
+    if (!githubSync) {
+      throw new Error('GitHub sync not configured. Set GITHUB_TOKEN environment variable.');
+    }
+    const { owner, repo, branch } = source.github;
+    return githubSync.fetchFile(owner, repo, filePath, branch);
+  }
+
+  return fs.readFile(expandHome(filePath));
+}
+
+function feedLocation(source: BlocklistFeedSource): string {
+  if (source.github) {
+    const { owner, repo, branch, path: filePath } = source.github;
+    return `${owner}/${repo}/${filePath}${branch ? `@${branch}` : ''}`;
+  }
+  return source.path!;
+}
+
+function expandHome(filePath: string): string {
+  return filePath.startsWith('~/') ? path.join(os.homedir(), filePath.slice(2)) : filePath;
+}
+
+/**
+ * Identity of a block entry, ignoring reason and provenance
+ */
+function entryKey(entry: Pick<BlocklistEntry, 'type' | 'serverName' | 'version' | 'pattern'>): string {
+  return [entry.type, entry.serverName ?? '', entry.version ?? '', entry.pattern ?? ''].join('\0');
+}
+
+/**
+ * Keys of entries lifted by one of the user's own tombstones
+ */
+function userRemovedKeys(entries: BlocklistEntry[]): Set<string> {
+  const byHash = new Map(entries.map((e) => [e.hash, e]));
+  const keys = new Set<string>();
+
+  for (const entry of entries) {
+    if (!isTombstone(entry) || entry.source !== 'user' || !entry.targetHash) continue;
+    const target = byHash.get(entry.targetHash);
+    if (target) keys.add(entryKey(target));
+  }
+  return keys;
+}
+
+function describeTarget(entry: Pick<BlocklistEntry, 'serverName' | 'version' | 'pattern'>): string {
+  if (entry.pattern) return entry.pattern;
+  return entry.version ? `${entry.serverName}@${entry.version}` : entry.serverName ?? '';
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { BlocklistEntry } from '../schemas/knowledge-base.js';
+import { FileBlocklist, findBlocklistEntry, matchesServerEntry, splitServerSpec } from './blocklist.js';
+
+function entry(overrides: Partial<BlocklistEntry>): BlocklistEntry {
+  return {
+    timestamp: '2025-01-01T00:00:00.000Z',
+    type: 'server',
+    reason: 'test',
+    hash: 'sha256:0000000000000000',
+    allowOverride: false,
+    source: 'user',
+    ...overrides,
+  };
+}
+
+describe('FileBlocklist', () => {
+  const entries = [
+    entry({ type: 'file_pattern', pattern: '**/*.secret.md' }),
+    entry({ type: 'file_pattern', pattern: 'acme/private/**' }),
+    entry({ serverName: '@evil/server' }),
+  ];
+
+  it('matches repo paths and repo-qualified paths', () => {
+    const blocklist = new FileBlocklist(entries, { enabled: true, strict: true });
+
+    expect(blocklist.match('acme', 'docs', 'notes/keys.secret.md')?.pattern).toBe('**/*.secret.md');
+    expect(blocklist.match('acme', 'private', 'README.md')?.pattern).toBe('acme/private/**');
+    expect(blocklist.match('acme', 'docs', 'README.md')).toBeUndefined();
+  });
+
+  it('matches nothing when disabled', () => {
+    const blocklist = new FileBlocklist(entries, { enabled: false, strict: true });
+    expect(blocklist.match('acme', 'docs', 'keys.secret.md')).toBeUndefined();
+    expect(blocklist.excludesFromIndex()).toBe(false);
+  });
+
+  it('fingerprints only the patterns that keep files out of the index', () => {
+    const strict = new FileBlocklist(entries, { enabled: true, strict: true });
+    const reordered = new FileBlocklist([...entries].reverse(), { enabled: true, strict: true });
+    const flagged = new FileBlocklist(entries, { enabled: true, strict: false });
+    const empty = new FileBlocklist([], { enabled: true, strict: true });
+
+    expect(strict.fingerprint()).toBe(reordered.fingerprint());
+    expect(strict.fingerprint()).not.toBe(empty.fingerprint());
+    expect(flagged.fingerprint()).toBe(empty.fingerprint());
+  });
+});
+
+describe('findBlocklistEntry', () => {
+  const entries = [entry({ hash: 'sha256:abcdef0123' }), entry({ hash: 'sha256:abcdef4567' })];
+
+  it('finds entries by unambiguous hash prefix', () => {
+    expect(findBlocklistEntry(entries, 'sha256:abcdef01')).toBe(entries[0]);
+    expect(findBlocklistEntry(entries, ' abcdef45 ')).toBe(entries[1]);
+  });
+
+  it('rejects short, unknown and ambiguous ids', () => {
+    expect(() => findBlocklistEntry(entries, 'abc')).toThrow('at least 8 characters');
+    expect(() => findBlocklistEntry(entries, 'ffffffff')).toThrow('No blocklist entry');
+    expect(() => findBlocklistEntry(entries, 'abcdef')).toThrow('at least 8 characters');
+    expect(() => findBlocklistEntry([...entries, entry({ hash: 'sha256:abcdef0199' })], 'abcdef01')).toThrow(
+      'use a longer prefix'
+    );
+  });
+});
+
+describe('server entries', () => {
+  it('splits scoped names from versions', () => {
+    expect(splitServerSpec('@org/server')).toEqual({ name: '@org/server' });
+    expect(splitServerSpec('@org/server@<1.4.2')).toEqual({ name: '@org/server', version: '<1.4.2' });
+    expect(splitServerSpec('server@')).toEqual({ name: 'server' });
+  });
+
+  it('matches names, wildcards and version ranges', () => {
+    const ranged = entry({ serverName: '@org/server@<1.4.2' });
+    expect(matchesServerEntry(ranged, '@org/server', '1.4.1')).toBe(true);
+    expect(matchesServerEntry(ranged, '@org/server', '1.4.2')).toBe(false);
+    expect(matchesServerEntry(ranged, '@org/other', '1.0.0')).toBe(false);
+
+    const wildcard = entry({ serverName: '@untrusted/*' });
+    expect(matchesServerEntry(wildcard, '@untrusted/anything')).toBe(true);
+    expect(matchesServerEntry(wildcard, '@trusted/anything')).toBe(false);
+    expect(matchesServerEntry(entry({ type: 'file_pattern', pattern: '*' }), 'x')).toBe(false);
+  });
+
+  it('fails closed when the version is unknown', () => {
+    const ranged = entry({ serverName: '@org/server', version: '>=2.0.0' });
+    expect(matchesServerEntry(ranged, '@org/server')).toBe(true);
+    expect(matchesServerEntry(ranged, '@org/server', 'latest')).toBe(true);
+    const unparsable = entry({ serverName: '@org/server', version: 'not a range' });
+    expect(matchesServerEntry(unparsable, '@org/server', '1.0.0')).toBe(true);
+  });
+});
@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { BlocklistEntry } from '../schemas/knowledge-base.js';
+import { matchGlob } from './glob.js';
+import { isValidRange, parseVersion, satisfies } from './semver.js';
+
+/**
+ * File pattern blocklist
+ * Matches repository files against file_pattern entries. Patterns are globs
+ * matched against the path inside the repo (e.g. "**\/*.secret.md") or the
+ * repo-qualified path (e.g. "my-org/private-repo/**").
+ *
+ * In strict mode blocked files are never fetched, cached or returned. In
+ * non-strict mode they stay indexed but search results are flagged so the
+ * user can decide.
+ */
+export class FileBlocklist {
+  private entries: BlocklistEntry[];
+  readonly enabled: boolean;
+  readonly strict: boolean;
+
+  constructor(entries: BlocklistEntry[], options: { enabled: boolean; strict: boolean }) {
+    this.entries = entries.filter((e) => e.type === 'file_pattern' && e.pattern);
+    this.enabled = options.enabled;
+    this.strict = options.strict;
+  }
+
+  /**
+   * Find the entry blocking a file, if any. Always undefined when disabled.
+   */
+  match(owner: string, repo: string, filePath: string): BlocklistEntry | undefined {
+    if (!this.enabled) return undefined;
+
+    const qualifiedPath = `${owner}/${repo}/${filePath}`;
+    return this.entries.find(
+      (e) => matchGlob(filePath, e.pattern!) || matchGlob(qualifiedPath, e.pattern!)
+    );
+  }
+
+  /**
+   * Whether blocked files must be kept out of the index entirely
+   */
+  excludesFromIndex(): boolean {
+    return this.enabled && this.strict;
+  }
+
+  /**
+   * Stable hash of the patterns in effect for indexing.
+   * Stored with a repo's sync state so a blocklist change forces a re-scan.
+   */
+  fingerprint(): string {
+    const patterns = this.excludesFromIndex()
+      ? this.entries.map((e) => e.pattern!).sort()
+      : [];
+    return crypto.createHash('sha256').update(patterns.join('\n')).digest('hex').slice(0, 16);
+  }
+}
+
+export interface BlocklistCheck {
+  blocked: boolean;
+  /** Reason of the first matching entry */
+  reason?: string;
+  matches: BlocklistEntry[];
+}
+
+export interface BlocklistVerification {
+  total: number;
+  valid: number;
+  tampered: Array<{ index: number; hash: string; expectedHash: string; entry: BlocklistEntry }>;
+}
+
+/**
+ * Whether an entry lifts an earlier one rather than blocking something
+ */
+export function isTombstone(entry: BlocklistEntry): boolean {
+  return entry.action === 'remove' || entry.action === 'override';
+}
+
+/**
+ * Find an entry by its hash, with or without the "sha256:" prefix.
+ * Unambiguous prefixes of at least 8 hex characters are accepted.
+ */
+export function findBlocklistEntry(entries: BlocklistEntry[], id: string): BlocklistEntry {
+  const needle = id.trim().replace(/^sha256:/, '');
+  if (needle.length < 8) {
+    throw new Error('Entry id must be at least 8 characters of the entry hash');
+  }
+
+  const matches = entries.filter((e) => e.hash.replace(/^sha256:/, '').startsWith(needle));
+  if (matches.length === 0) {
+    throw new Error(`No blocklist entry matches ${id}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`${matches.length} blocklist entries match ${id}; use a longer prefix`);
+  }
+  return matches[0];
+}
+
+/**
+ * Split a server spec like "@org/mcp-server@<1.4.2" into name and version range.
+ * The leading "@" of a scoped package name is not a separator.
+ */
+export function splitServerSpec(spec: string): { name: string; version?: string } {
+  const at = spec.indexOf('@', 1);
+  if (at === -1) return { name: spec };
+  return { name: spec.slice(0, at), version: spec.slice(at + 1) || undefined };
+}
+
+/**
+ * Whether a server entry applies to a server name and optional version.
+ * Names may be globs ("@untrusted/*"). Entries with a version range also match
+ * when the version is unknown (missing, or a tag like "latest") or the range
+ * can't be parsed, so checks fail closed.
+ */
+export function matchesServerEntry(entry: BlocklistEntry, serverName: string, version?: string): boolean {
+  if (entry.type !== 'server' || !entry.serverName) return false;
+
+  const spec = splitServerSpec(entry.serverName);
+  const namePattern = spec.name;
+  const nameMatches = /[*?{]/.test(namePattern)
+    ? matchGlob(serverName, namePattern)
+    : namePattern === serverName;
+  if (!nameMatches) return false;
+
+  const range = entry.version || spec.version;
+  if (!range || !version || !isValidRange(range) || !parseVersion(version)) return true;
+  return satisfies(version, range);
+}
@@ -0,0 +1,138 @@
+import path from 'path';
+import { DocumentChunk, IndexedDocument } from '../schemas/knowledge-base.js';
+
+// Sections longer than this are split further at paragraph boundaries
+const MAX_CHUNK_CHARS = 2000;
+
+/**
+ * Split a document into heading-aware chunks
+ * Markdown files are split at every heading and each chunk carries its section
+ * path (e.g. README > Tools > Error handling). Other files are split into
+ * line-aligned windows.
+ */
+export function chunkDocument(doc: IndexedDocument): DocumentChunk[] {
+  const lines = doc.content.split('\n');
+  const root = path.basename(doc.filePath, path.extname(doc.filePath));
+  const isMarkdown = /\.(md|mdx|markdown)$/i.test(doc.filePath);
+
+  const sections = isMarkdown
+    ? splitByHeadings(lines)
+    : [{ headings: [], startLine: 1, lines }];
+
+  const chunks: DocumentChunk[] = [];
+  for (const section of sections) {
+    for (const part of splitLongSection(section.lines, section.startLine)) {
+      // Trim blank lines so the line range points at actual content
+      let first = 0;
+      let last = part.lines.length - 1;
+      while (first <= last && part.lines[first].trim() === '') first++;
+      while (last >= first && part.lines[last].trim() === '') last--;
+      if (first > last) continue;
+
+      chunks.push({
+        id: `${doc.id}#${chunks.length}`,
+        documentId: doc.id,
+        headings: [root, ...section.headings],
+        startLine: part.startLine + first,
+        endLine: part.startLine + last,
+        content: part.lines.slice(first, last + 1).join('\n'),
+      });
+    }
+  }
+
+  // Always index something, even for empty files
+  if (chunks.length === 0) {
+    chunks.push({
+      id: `${doc.id}#0`,
+      documentId: doc.id,
+      headings: [root],
+      startLine: 1,
+      endLine: Math.max(lines.length, 1),
+      content: doc.content,
+    });
+  }
+
+  return chunks;
+}
+
+/**
+ * Format a chunk's section path for display
+ */
+export function formatBreadcrumb(chunk: DocumentChunk): string {
+  return chunk.headings.join(' > ');
+}
+
+interface Section {
+  headings: string[];
+  startLine: number;
+  lines: string[];
+}
+
+/**
+ * Split Markdown lines into sections at headings, ignoring fenced code blocks
+ */
+function splitByHeadings(lines: string[]): Section[] {
+  const sections: Section[] = [];
+  // heading stack indexed by level - 1
+  const stack: string[] = [];
+  let current: Section = { headings: [], startLine: 1, lines: [] };
+  let inFence = false;
+
+  lines.forEach((line, i) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const heading = inFence ? null : /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      sections.push(current);
+
+      const level = heading[1].length;
+      stack.length = level - 1;
+      stack[level - 1] = heading[2];
+
+      current = {
+        headings: stack.filter((h) => h !== undefined),
+        startLine: i + 1,
+        lines: [],
+      };
+    }
+
+    current.lines.push(line);
+  });
+
+  sections.push(current);
+  return sections;
+}
+
+/**
+ * Split a section that is too long at blank lines (or any line if needed)
+ */
+function splitLongSection(
+  lines: string[],
+  startLine: number
+): Array<{ startLine: number; lines: string[] }> {
+  const parts: Array<{ startLine: number; lines: string[] }> = [];
+  let current: string[] = [];
+  let currentStart = startLine;
+  let size = 0;
+
+  lines.forEach((line, i) => {
+    const atParagraphBreak = line.trim() === '';
+    if (size > 0 && size + line.length > MAX_CHUNK_CHARS && (atParagraphBreak || size > MAX_CHUNK_CHARS * 1.5)) {
+      parts.push({ startLine: currentStart, lines: current });
+      current = [];
+      currentStart = startLine + i;
+      size = 0;
+    }
+
+    current.push(line);
+    size += line.length + 1;
+  });
+
+  if (current.length > 0) {
+    parts.push({ startLine: currentStart, lines: current });
+  }
+
+  return parts;
+}
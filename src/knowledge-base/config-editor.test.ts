@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { KnowledgeBaseConfig } from '../schemas/knowledge-base.js';
+import { ConfigValidationError, diffConfig, findRepository, mergeConfig, validateConfig } from './config-editor.js';
+
+const CONFIG = validateConfig({
+  repositories: [
+    { owner: 'acme', repo: 'docs', branch: 'main', type: 'user' },
+    { owner: 'acme', repo: 'servers', branch: 'main', type: 'user' },
+    { owner: 'other', repo: 'servers', branch: 'main', type: 'community' },
+  ],
+  sync: { intervalMinutes: 60, communityCatalog: { categories: ['Databases'] } },
+  storage: { cacheDir: '~/.claude-kb' },
+  blocklist: { strict: false },
+  server: { transport: 'http', port: 4000 },
+});
+
+describe('validateConfig', () => {
+  it('fills in defaults', () => {
+    expect(CONFIG.version).toBe('1.0.0');
+    expect(CONFIG.sync).toMatchObject({ enabled: true, intervalMinutes: 60, autoDiscoverUserRepos: true });
+    expect(CONFIG.blocklist).toEqual({ enabled: true, strict: false, feeds: [] });
+  });
+
+  it('reports every issue with its path in one error', () => {
+    const raw = { ...CONFIG, sync: { ...CONFIG.sync, intervalMinutes: 1 }, server: { port: 0 } };
+    expect(() => validateConfig(raw)).toThrow(ConfigValidationError);
+    expect(() => validateConfig(raw)).toThrow(
+      /^Invalid configuration: sync\.intervalMinutes: .+; server\.port: .+$/
+    );
+  });
+});
+
+describe('mergeConfig', () => {
+  it('merges nested objects and keeps unrelated keys', () => {
+    const merged = mergeConfig(CONFIG, { sync: { enabled: false, communityCatalog: { maxRepos: 5 } } });
+
+    expect(merged.sync).toEqual({
+      ...CONFIG.sync,
+      enabled: false,
+      communityCatalog: { ...CONFIG.sync.communityCatalog, maxRepos: 5 },
+    });
+    expect(merged.sync.communityCatalog.categories).toEqual(['Databases']);
+    expect(merged.repositories).toEqual(CONFIG.repositories);
+    expect(merged.server).toEqual(CONFIG.server);
+  });
+
+  it('replaces arrays and ignores undefined values', () => {
+    const merged = mergeConfig(CONFIG, {
+      repositories: [CONFIG.repositories[0]],
+      storage: { cacheDir: undefined, maxIndexSizeMB: 200 },
+    });
+    expect(merged.repositories).toEqual([CONFIG.repositories[0]]);
+    expect(merged.storage).toEqual({ cacheDir: '~/.claude-kb', maxIndexSizeMB: 200 });
+  });
+
+  it('validates the merged result and leaves the current config alone', () => {
+    expect(() => mergeConfig(CONFIG, { sync: { intervalMinutes: 'often' } })).toThrow(ConfigValidationError);
+    expect(CONFIG.sync.intervalMinutes).toBe(60);
+  });
+});
+
+describe('findRepository', () => {
+  it('finds a repository by owner/repo or by an unambiguous name', () => {
+    expect(findRepository(CONFIG, 'other/servers')).toBe(2);
+    expect(findRepository(CONFIG, 'docs')).toBe(0);
+  });
+
+  it('rejects unknown and ambiguous names', () => {
+    expect(() => findRepository(CONFIG, 'acme/missing')).toThrow('Repository not configured: acme/missing');
+    expect(() => findRepository(CONFIG, 'servers')).toThrow(
+      '"servers" matches acme/servers, other/servers; use owner/repo'
+    );
+  });
+});
+
+describe('diffConfig', () => {
+  const diff = (patch: Record<string, unknown>) => diffConfig(CONFIG, mergeConfig(CONFIG, patch));
+  const none = { schedule: false, cacheDir: false, maxIndexSize: false, sources: false, server: false };
+
+  it('groups changes by how they are applied', () => {
+    expect(diff({})).toEqual(none);
+    expect(diff({ sync: { intervalMinutes: 15 } })).toEqual({ ...none, schedule: true });
+    expect(diff({ sync: { includeCommunityRepos: false } })).toEqual({ ...none, sources: true });
+    expect(diff({ blocklist: { enabled: false } })).toEqual({ ...none, sources: true });
+    expect(diff({ storage: { maxIndexSizeMB: 10 } })).toEqual({ ...none, maxIndexSize: true });
+    expect(diff({ server: { port: 4001 } })).toEqual({ ...none, server: true });
+  });
+
+  it('compares cache directories by the path they resolve to', () => {
+    const config: KnowledgeBaseConfig = mergeConfig(CONFIG, { storage: { cacheDir: '/tmp/kb' } });
+    expect(diffConfig(config, mergeConfig(config, { storage: { cacheDir: '/tmp/kb/' } })).cacheDir).toBe(false);
+    expect(diff({ storage: { cacheDir: '/tmp/kb' } }).cacheDir).toBe(true);
+  });
+});
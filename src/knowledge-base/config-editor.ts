@@ -0,0 +1,107 @@
+import { ZodIssue } from 'zod';
+import { KnowledgeBaseConfig, KnowledgeBaseConfigSchema } from '../schemas/knowledge-base.js';
+import { resolveLocalPath } from './local-sync.js';
+
+/**
+ * Configuration editing
+ * Changes made through the config tools are merged into the current
+ * configuration and validated as a whole before anything is saved.
+ */
+
+export class ConfigValidationError extends Error {
+  constructor(issues: ZodIssue[]) {
+    super(
+      `Invalid configuration: ${issues
+        .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+        .join('; ')}`
+    );
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/**
+ * Which parts of the configuration differ, grouped by how they are applied
+ */
+export interface ConfigChanges {
+  /** sync.enabled or sync.intervalMinutes */
+  schedule: boolean;
+  cacheDir: boolean;
+  maxIndexSize: boolean;
+  /** Anything that changes what is indexed: repositories, sync sources, blocklist */
+  sources: boolean;
+  /** Only applied on restart */
+  server: boolean;
+}
+
+/**
+ * Validate a whole configuration, with one readable message for all issues
+ */
+export function validateConfig(raw: unknown): KnowledgeBaseConfig {
+  const result = KnowledgeBaseConfigSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ConfigValidationError(result.error.issues);
+  }
+  return result.data;
+}
+
+/**
+ * Apply a partial configuration: objects are merged key by key, arrays and
+ * other values replace the current ones
+ */
+export function mergeConfig(config: KnowledgeBaseConfig, patch: Record<string, unknown>): KnowledgeBaseConfig {
+  return validateConfig(deepMerge(config, patch));
+}
+
+/**
+ * Position of a configured repository, by "owner/repo" or by "repo" when that is unambiguous
+ */
+export function findRepository(config: KnowledgeBaseConfig, repository: string): number {
+  const matches = config.repositories
+    .map((repo, index) => ({ key: `${repo.owner}/${repo.repo}`, name: repo.repo, index }))
+    .filter((repo) => (repository.includes('/') ? repo.key === repository : repo.name === repository));
+
+  if (matches.length === 0) {
+    throw new Error(`Repository not configured: ${repository}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`"${repository}" matches ${matches.map((m) => m.key).join(', ')}; use owner/repo`);
+  }
+  return matches[0].index;
+}
+
+export function diffConfig(previous: KnowledgeBaseConfig, next: KnowledgeBaseConfig): ConfigChanges {
+  const changed = (pick: (config: KnowledgeBaseConfig) => unknown) =>
+    JSON.stringify(pick(previous)) !== JSON.stringify(pick(next));
+
+  return {
+    schedule: changed((c) => [c.sync.enabled, c.sync.intervalMinutes]),
+    cacheDir: changed((c) => resolveLocalPath(c.storage.cacheDir)),
+    maxIndexSize: changed((c) => c.storage.maxIndexSizeMB),
+    sources: changed((c) => [
+      c.repositories,
+      c.sync.autoDiscoverUserRepos,
+      c.sync.includeOfficialMCPRepos,
+      c.sync.includeCommunityRepos,
+      c.sync.communityCatalog,
+      c.blocklist,
+    ]),
+    server: changed((c) => c.server),
+  };
+}
+
+function deepMerge(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(target) || !isPlainObject(patch)) {
+    return patch;
+  }
+
+  const merged: Record<string, unknown> = { ...target };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) continue;
+    merged[key] = deepMerge(target[key], value);
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
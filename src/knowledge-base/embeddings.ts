@@ -0,0 +1,96 @@
+import { tokenize } from './tokenizer.js';
+
+// Relative weight of whole terms, term bigrams and character trigrams
+const FEATURE_WEIGHTS: Record<string, number> = { t: 1, b: 0.5, c: 0.25 };
+
+/**
+ * Embedding provider interface
+ * Implementations turn text into fixed-size vectors for semantic search.
+ * A local ONNX/transformers model can be plugged in by implementing this.
+ */
+export interface EmbeddingProvider {
+  /** Identifier stored with persisted vectors; a change invalidates them */
+  readonly name: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Offline embedding provider based on the hashing trick
+ * Hashes stemmed terms, term bigrams and character trigrams into a signed
+ * vector. Needs no model download or network, at the cost of only capturing
+ * lexical (not true semantic) similarity.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+
+  constructor(dimensions: number = 512) {
+    this.dimensions = dimensions;
+    this.name = `hashing-v1-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    // feature -> occurrence count
+    const features = new Map<string, number>();
+    const addFeature = (feature: string) => {
+      features.set(feature, (features.get(feature) || 0) + 1);
+    };
+
+    const terms = tokenize(text);
+    for (let i = 0; i < terms.length; i++) {
+      addFeature(`t:${terms[i]}`);
+      if (i > 0) {
+        addFeature(`b:${terms[i - 1]} ${terms[i]}`);
+      }
+      // Character trigrams let related word forms land near each other
+      const padded = `^${terms[i]}$`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        addFeature(`c:${padded.slice(j, j + 3)}`);
+      }
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of features) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      // Sublinear term frequency so long documents don't dominate
+      vector[hash % this.dimensions] += sign * FEATURE_WEIGHTS[feature[0]] * (1 + Math.log(count));
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Cosine similarity of two L2-normalized vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (length === 0) return vector;
+  return vector.map((v) => v / length);
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,98 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GitCloneProvider } from './git-provider.js';
+
+describe('GitCloneProvider', () => {
+  let tempDir: string;
+  let remotePath: string;
+  let workPath: string;
+  let mirrorPath: string;
+  let provider: GitCloneProvider;
+
+  function git(cwd: string, ...args: string[]): string {
+    return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd,
+      encoding: 'utf-8',
+    }).trim();
+  }
+
+  async function commit(files: Record<string, string>, date: string): Promise<void> {
+    for (const [filePath, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(workPath, filePath)), { recursive: true });
+      await fs.writeFile(path.join(workPath, filePath), content);
+    }
+    git(workPath, 'add', '-A');
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-qm', 'update'], {
+      cwd: workPath,
+      env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date },
+    });
+    git(workPath, 'push', '-q', 'origin', 'main');
+  }
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kb-git-'));
+    remotePath = path.join(tempDir, 'remote.git');
+    workPath = path.join(tempDir, 'work');
+
+    git(tempDir, 'init', '-q', '--bare', '-b', 'main', remotePath);
+    git(tempDir, 'init', '-q', '-b', 'main', workPath);
+    git(workPath, 'remote', 'add', 'origin', remotePath);
+    await commit({ 'README.md': '# Docs', '.claude/guide.md': 'guide' }, '2025-01-01T00:00:00Z');
+
+    mirrorPath = path.join(tempDir, 'mirrors', 'docs.git');
+    provider = new GitCloneProvider(remotePath, mirrorPath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('mirrors the remote and lists blobs with their sizes', async () => {
+    const treeId = await provider.resolveTree('', '', 'main');
+    expect(treeId).toBe(git(workPath, 'rev-parse', 'main^{tree}'));
+
+    const entries = await provider.listTree('', '', treeId);
+    expect(entries.sort((a, b) => a.path.localeCompare(b.path))).toEqual([
+      { path: '.claude/guide.md', sha: git(workPath, 'rev-parse', 'main:.claude/guide.md'), size: 5 },
+      { path: 'README.md', sha: git(workPath, 'rev-parse', 'main:README.md'), size: 6 },
+    ]);
+
+    const readme = entries.find((entry) => entry.path === 'README.md')!;
+    expect((await provider.fetchBlob('', '', readme.sha)).toString()).toBe('# Docs');
+  });
+
+  it('fetches new commits into an existing mirror', async () => {
+    const before = await provider.resolveTree('', '', 'main');
+    await commit({ 'docs/new.md': 'new' }, '2025-02-01T00:00:00Z');
+
+    const after = await provider.resolveTree('', '', 'main');
+    expect(after).not.toBe(before);
+    expect((await provider.listTree('', '', after)).map((entry) => entry.path)).toContain('docs/new.md');
+  });
+
+  it('reads the last commit date of a file, taking the path literally', async () => {
+    await commit({ 'docs/a*.md': 'star' }, '2025-03-01T12:00:00Z');
+    await commit({ 'docs/ab.md': 'plain' }, '2025-04-01T12:00:00Z');
+    await provider.resolveTree('', '', 'main');
+
+    expect(await provider.lastCommitDate('', '', 'main', 'README.md')).toBe('2025-01-01T00:00:00+00:00');
+    expect(await provider.lastCommitDate('', '', 'main', 'docs/a*.md')).toBe('2025-03-01T12:00:00+00:00');
+    expect(await provider.lastCommitDate('', '', 'main', 'missing.md')).toBeNull();
+    expect(await provider.lastCommitDate('', '', 'main')).toBe('2025-04-01T12:00:00+00:00');
+  });
+
+  it('never reads a remote URL as an option', async () => {
+    await provider.resolveTree('', '', 'main');
+
+    const dashed = new GitCloneProvider('--upload-pack=false', mirrorPath);
+    await expect(dashed.resolveTree('', '', 'main')).rejects.toThrow();
+    expect(git(tempDir, '--git-dir', mirrorPath, 'remote', 'get-url', 'origin')).toBe('--upload-pack=false');
+  });
+
+  it('throws for a branch that does not exist', async () => {
+    await expect(provider.resolveTree('', '', 'nope')).rejects.toThrow();
+  });
+});
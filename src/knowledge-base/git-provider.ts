@@ -0,0 +1,114 @@
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { RemoteTreeEntry, RepoRef, SourceProvider } from './source-provider.js';
+
+const execFileAsync = promisify(execFile);
+
+// Clones and fetches of large repositories can take a while
+const NETWORK_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_BLOB_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Plain git source provider
+ * Keeps a bare mirror of one remote (any URL git understands: https, ssh,
+ * file:// or a local path) and reads trees and blobs from it with the git CLI.
+ * Authentication is whatever git is configured with (credential helpers, SSH keys).
+ */
+export class GitCloneProvider implements SourceProvider {
+  readonly name = 'git';
+  private remoteUrl: string;
+  private mirrorPath: string;
+
+  constructor(remoteUrl: string, mirrorPath: string) {
+    this.remoteUrl = remoteUrl;
+    this.mirrorPath = mirrorPath;
+  }
+
+  /**
+   * A bare remote can't be listed, so there is nothing to discover
+   */
+  async discoverRepos(): Promise<RepoRef[] | null> {
+    return [];
+  }
+
+  /**
+   * Update the mirror and resolve the branch to its root tree SHA
+   */
+  async resolveTree(_owner: string, _repo: string, branch: string, signal?: AbortSignal): Promise<string> {
+    await this.updateMirror(signal);
+    const { stdout } = await this.git(['rev-parse', '--verify', `refs/heads/${branch}^{tree}`], signal);
+    return stdout.trim();
+  }
+
+  async listTree(_owner: string, _repo: string, treeId: string, signal?: AbortSignal): Promise<RemoteTreeEntry[]> {
+    const { stdout } = await this.git(['ls-tree', '-r', '-l', '-z', treeId], signal);
+    const entries: RemoteTreeEntry[] = [];
+
+    // <mode> SP <type> SP <sha> SP+ <size> TAB <path> NUL
+    for (const record of stdout.split('\0')) {
+      const match = /^\d+ (\w+) ([0-9a-f]+) +(\d+|-)\t(.+)$/s.exec(record);
+      if (!match || match[1] !== 'blob') continue;
+      entries.push({ path: match[4], sha: match[2], size: Number(match[3]) });
+    }
+
+    return entries;
+  }
+
+  async fetchBlob(_owner: string, _repo: string, sha: string, signal?: AbortSignal): Promise<Buffer> {
+    const { stdout } = await execFileAsync('git', ['--git-dir', this.mirrorPath, 'cat-file', 'blob', sha], {
+      encoding: 'buffer',
+      maxBuffer: MAX_BLOB_BYTES,
+      signal,
+    });
+    return stdout;
+  }
+
+  async lastCommitDate(
+    _owner: string,
+    _repo: string,
+    branch: string,
+    filePath?: string,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    const { stdout } = await this.git(
+      ['log', '-1', '--format=%cI', `refs/heads/${branch}`, '--', ...(filePath ? [`:(literal)${filePath}`] : [])],
+      signal
+    );
+    return stdout.trim() || null;
+  }
+
+  /**
+   * Clone the mirror on first use, fetch into it afterwards
+   */
+  private async updateMirror(signal?: AbortSignal): Promise<void> {
+    const exists = await fs
+      .stat(path.join(this.mirrorPath, 'HEAD'))
+      .then(() => true)
+      .catch(() => false);
+
+    if (!exists) {
+      await fs.mkdir(path.dirname(this.mirrorPath), { recursive: true });
+      await execFileAsync('git', ['clone', '--mirror', '--quiet', '--', this.remoteUrl, this.mirrorPath], {
+        timeout: NETWORK_TIMEOUT_MS,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+        signal,
+      });
+      return;
+    }
+
+    // The configured URL may have changed since the mirror was cloned
+    await this.git(['remote', 'set-url', '--', 'origin', this.remoteUrl], signal);
+    await this.git(['fetch', '--prune', '--quiet', 'origin'], signal, NETWORK_TIMEOUT_MS);
+  }
+
+  private git(args: string[], signal?: AbortSignal, timeout: number = 60 * 1000): Promise<{ stdout: string }> {
+    return execFileAsync('git', ['--git-dir', this.mirrorPath, ...args], {
+      timeout,
+      signal,
+      maxBuffer: MAX_BLOB_BYTES,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+    });
+  }
+}
@@ -0,0 +1,232 @@
+import fs from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GiteaProvider } from './gitea-provider.js';
+import { fetchFilesFromRepo } from './source-provider.js';
+import { KnowledgeBaseStorage } from './storage.js';
+
+type Route = (url: URL) => { status?: number; body: unknown } | undefined;
+
+describe('GiteaProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let route: Route;
+  let requests: Array<{ path: string; authorization?: string }>;
+
+  beforeEach(async () => {
+    requests = [];
+    route = () => undefined;
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url!, 'http://localhost');
+      requests.push({ path: url.pathname, authorization: req.headers.authorization });
+      const response = route(url);
+      if (!response) {
+        res.writeHead(404).end('{"message":"not found"}');
+        return;
+      }
+      res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response.body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('resolves a branch to its head commit with the token', async () => {
+    route = (url) =>
+      url.pathname === '/api/v1/repos/acme/docs/branches/release%2F1.0'
+        ? { body: { commit: { id: 'c0ffee' } } }
+        : undefined;
+
+    const provider = new GiteaProvider(baseUrl, 'secret');
+    await expect(provider.resolveTree('acme', 'docs', 'release/1.0')).resolves.toBe('c0ffee');
+    expect(requests[0].authorization).toBe('token secret');
+  });
+
+  it('lists blobs across truncated tree pages', async () => {
+    route = (url) => {
+      if (url.pathname !== '/api/v1/repos/acme/docs/git/trees/c0ffee') return undefined;
+      switch (url.searchParams.get('page')) {
+        case '1':
+          return {
+            body: {
+              tree: [
+                { path: 'docs', type: 'tree', sha: 't1' },
+                { path: 'docs/a.md', type: 'blob', sha: 'b1', size: 5 },
+              ],
+              truncated: true,
+            },
+          };
+        case '2':
+          return { body: { tree: [{ path: 'README.md', type: 'blob', sha: 'b2', size: 7 }], truncated: false } };
+        default:
+          return undefined;
+      }
+    };
+
+    const provider = new GiteaProvider(baseUrl);
+    await expect(provider.listTree('acme', 'docs', 'c0ffee')).resolves.toEqual([
+      { path: 'docs/a.md', sha: 'b1', size: 5 },
+      { path: 'README.md', sha: 'b2', size: 7 },
+    ]);
+  });
+
+  it('decodes base64 blobs', async () => {
+    route = (url) =>
+      url.pathname.endsWith('/git/blobs/b1')
+        ? { body: { content: Buffer.from('# Title').toString('base64'), encoding: 'base64' } }
+        : undefined;
+
+    const provider = new GiteaProvider(baseUrl);
+    expect((await provider.fetchBlob('acme', 'docs', 'b1')).toString()).toBe('# Title');
+  });
+
+  it('discovers repositories with a .claude directory across pages', async () => {
+    route = (url) => {
+      if (url.pathname === '/api/v1/users/alice/repos') {
+        return url.searchParams.get('page') === '1'
+          ? { body: [{ name: 'one', owner: { login: 'alice' } }, { name: 'two', owner: { login: 'alice' } }] }
+          : { body: [] };
+      }
+      if (url.pathname === '/api/v1/repos/alice/two/contents/.claude') return { body: [] };
+      return undefined;
+    };
+
+    const provider = new GiteaProvider(baseUrl);
+    await expect(provider.discoverRepos('alice')).resolves.toEqual([{ owner: 'alice', repo: 'two' }]);
+  });
+
+  describe('with fetchFilesFromRepo', () => {
+    let baseDir: string;
+
+    beforeEach(async () => {
+      baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kb-gitea-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(baseDir, { recursive: true, force: true });
+    });
+
+    it('fetches matching files, then skips an unchanged tree', async () => {
+      const storage = new KnowledgeBaseStorage(baseDir);
+      await storage.initialize();
+
+      route = (url) => {
+        if (url.pathname.endsWith('/branches/main')) return { body: { commit: { id: 'c0ffee' } } };
+        if (url.pathname.endsWith('/git/trees/c0ffee')) {
+          return {
+            body: {
+              tree: [
+                { path: '.claude/guide.md', type: 'blob', sha: 'b1', size: 7 },
+                { path: 'src/index.ts', type: 'blob', sha: 'b2', size: 10 },
+              ],
+              truncated: false,
+            },
+          };
+        }
+        if (url.pathname.endsWith('/git/blobs/b1')) {
+          return { body: { content: Buffer.from('# Guide').toString('base64'), encoding: 'base64' } };
+        }
+        if (url.pathname.endsWith('/commits')) {
+          return { body: [{ commit: { committer: { date: '2025-02-03T04:05:06Z' } } }] };
+        }
+        return undefined;
+      };
+
+      const provider = new GiteaProvider(baseUrl);
+      const first = await fetchFilesFromRepo(provider, storage, 'acme', 'docs', 'main', ['.claude/**/*.md']);
+
+      expect(first.stats).toEqual({ added: 1, changed: 0, unchanged: 0, removed: 0 });
+      expect(first.documents).toHaveLength(1);
+      expect(first.documents[0]).toMatchObject({
+        id: 'acme/docs/main/.claude/guide.md',
+        content: '# Guide',
+        metadata: { hash: 'b1', lastModified: '2025-02-03T04:05:06.000Z' },
+      });
+      expect(await storage.readCachedFile('acme', 'docs', '.claude/guide.md')).toBe('# Guide');
+
+      requests = [];
+      const second = await fetchFilesFromRepo(
+        provider,
+        storage,
+        'acme',
+        'docs',
+        'main',
+        ['.claude/**/*.md'],
+        undefined,
+        { state: first.state, documents: first.documents }
+      );
+
+      expect(second.skipped).toBe(true);
+      expect(requests.map((r) => r.path)).toEqual(['/api/v1/repos/acme/docs/branches/main']);
+    });
+
+    it('dates a large sync by the head commit instead of file by file', async () => {
+      const storage = new KnowledgeBaseStorage(path.join(baseDir, 'kb'));
+      await storage.initialize();
+
+      const tree = Array.from({ length: 51 }, (_, i) => ({ path: `docs/${i}.md`, type: 'blob', sha: 'b1', size: 4 }));
+      route = (url) => {
+        if (url.pathname.endsWith('/branches/main')) return { body: { commit: { id: 'c0ffee' } } };
+        if (url.pathname.endsWith('/git/trees/c0ffee')) return { body: { tree, truncated: false } };
+        if (url.pathname.endsWith('/git/blobs/b1')) {
+          return { body: { content: Buffer.from('text').toString('base64'), encoding: 'base64' } };
+        }
+        if (url.pathname.endsWith('/commits')) {
+          expect(url.searchParams.has('path')).toBe(false);
+          return { body: [{ commit: { committer: { date: '2025-02-03T04:05:06Z' } } }] };
+        }
+        return undefined;
+      };
+
+      const provider = new GiteaProvider(baseUrl);
+      const result = await fetchFilesFromRepo(provider, storage, 'acme', 'docs', 'main', ['**/*.md']);
+
+      expect(result.stats.added).toBe(51);
+      expect(new Set(result.documents.map((d) => d.metadata.lastModified))).toEqual(
+        new Set(['2025-02-03T04:05:06.000Z'])
+      );
+      expect(requests.filter((r) => r.path.endsWith('/commits'))).toHaveLength(1);
+    });
+
+    it('skips and reports tree entries that escape the repository', async () => {
+      const storage = new KnowledgeBaseStorage(path.join(baseDir, 'kb'));
+      await storage.initialize();
+
+      route = (url) => {
+        if (url.pathname.endsWith('/branches/main')) return { body: { commit: { id: 'c0ffee' } } };
+        if (url.pathname.endsWith('/git/trees/c0ffee')) {
+          return {
+            body: {
+              tree: [
+                { path: '../../escaped.md', type: 'blob', sha: 'b1', size: 4 },
+                { path: '.claude/../../../../escaped.md', type: 'blob', sha: 'b1', size: 4 },
+                { path: 'ok.md', type: 'blob', sha: 'b1', size: 4 },
+              ],
+              truncated: false,
+            },
+          };
+        }
+        if (url.pathname.endsWith('/git/blobs/b1')) {
+          return { body: { content: Buffer.from('evil').toString('base64'), encoding: 'base64' } };
+        }
+        return undefined;
+      };
+
+      const provider = new GiteaProvider(baseUrl);
+      const result = await fetchFilesFromRepo(provider, storage, 'acme', 'docs', 'main', ['**/*.md']);
+
+      expect(result.documents.map((d) => d.filePath)).toEqual(['ok.md']);
+      expect(result.failedFiles.map((f) => f.path)).toEqual(['../../escaped.md', '.claude/../../../../escaped.md']);
+      await expect(fs.readdir(baseDir)).resolves.toEqual(['kb']);
+    });
+  });
+});
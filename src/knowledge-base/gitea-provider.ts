@@ -0,0 +1,121 @@
+import { RemoteTreeEntry, RepoRef, SourceProvider, SourceRequestError, sourceRequest } from './source-provider.js';
+
+/**
+ * Gitea source provider
+ * Reads repositories through the Gitea REST API (v1). Also works with Forgejo,
+ * which serves the same API.
+ */
+export class GiteaProvider implements SourceProvider {
+  readonly name = 'gitea';
+  private apiUrl: string;
+  private headers: Record<string, string>;
+
+  constructor(baseUrl: string, token?: string) {
+    this.apiUrl = `${baseUrl.replace(/\/+$/, '')}/api/v1`;
+    this.headers = token ? { Authorization: `token ${token}` } : {};
+  }
+
+  async discoverRepos(username?: string): Promise<RepoRef[] | null> {
+    try {
+      const listPath = username ? `/users/${encodeURIComponent(username)}/repos` : '/user/repos';
+      const reposWithClaude: RepoRef[] = [];
+
+      for (let page = 1; ; page++) {
+        const repos = await this.getJSON<Array<{ name: string; owner: { login: string } }>>(
+          `${listPath}?limit=50&page=${page}`
+        );
+        if (repos.length === 0) break;
+
+        for (const repo of repos) {
+          const ref = { owner: repo.owner.login, repo: repo.name };
+          if (await this.hasClaudeDirectory(ref.owner, ref.repo)) {
+            reposWithClaude.push(ref);
+          }
+        }
+      }
+
+      return reposWithClaude;
+    } catch (error) {
+      console.error('Error discovering Gitea repos:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The branch's head commit; Gitea resolves it to its tree when listing
+   */
+  async resolveTree(owner: string, repo: string, branch: string, signal?: AbortSignal): Promise<string> {
+    const branchData = await this.getJSON<{ commit: { id: string } }>(
+      `${this.repoPath(owner, repo)}/branches/${encodeURIComponent(branch)}`,
+      signal
+    );
+    return branchData.commit.id;
+  }
+
+  async listTree(owner: string, repo: string, treeId: string, signal?: AbortSignal): Promise<RemoteTreeEntry[]> {
+    const entries: RemoteTreeEntry[] = [];
+
+    // Large trees come back in pages with truncated set
+    for (let page = 1; ; page++) {
+      const data = await this.getJSON<{
+        tree: Array<{ path: string; type: string; sha: string; size?: number }> | null;
+        truncated: boolean;
+      }>(`${this.repoPath(owner, repo)}/git/trees/${treeId}?recursive=true&per_page=1000&page=${page}`, signal);
+
+      for (const item of data.tree ?? []) {
+        if (item.type === 'blob') entries.push({ path: item.path, sha: item.sha, size: item.size });
+      }
+      if (!data.truncated || !data.tree?.length) break;
+    }
+
+    return entries;
+  }
+
+  async fetchBlob(owner: string, repo: string, sha: string, signal?: AbortSignal): Promise<Buffer> {
+    const blob = await this.getJSON<{ content: string; encoding: string }>(
+      `${this.repoPath(owner, repo)}/git/blobs/${sha}`,
+      signal
+    );
+    return Buffer.from(blob.content, blob.encoding === 'base64' ? 'base64' : 'utf-8');
+  }
+
+  async lastCommitDate(
+    owner: string,
+    repo: string,
+    branch: string,
+    filePath?: string,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    const commits = await this.getJSON<Array<{ commit: { committer: { date: string } } }>>(
+      `${this.repoPath(owner, repo)}/commits?sha=${encodeURIComponent(branch)}` +
+        `${filePath ? `&path=${encodeURIComponent(filePath)}` : ''}&limit=1&stat=false&files=false`,
+      signal
+    );
+    return commits[0]?.commit.committer.date ?? null;
+  }
+
+  /**
+   * Check if a repository has a .claude directory
+   */
+  private async hasClaudeDirectory(owner: string, repo: string): Promise<boolean> {
+    try {
+      await this.getJSON(`${this.repoPath(owner, repo)}/contents/.claude`);
+      return true;
+    } catch (error) {
+      // Only a 404 means "no .claude/"; anything else should fail discovery
+      if (error instanceof SourceRequestError && error.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private repoPath(owner: string, repo: string): string {
+    return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+
+  private async getJSON<T>(apiPath: string, signal?: AbortSignal): Promise<T> {
+    const response = await sourceRequest(`${this.apiUrl}${apiPath}`, this.headers, signal);
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,193 @@
+import { Octokit } from '@octokit/rest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimitError, RequestPolicyOptions, installRequestPolicy } from './github-requests.js';
+
+interface StubResponse {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Octokit whose fetch answers from a queue of responses and records each request
+ */
+function stubOctokit(responses: StubResponse[], options: RequestPolicyOptions = {}) {
+  const requests: Array<{ url: string; headers: Record<string, string> }> = [];
+  const sleeps: number[] = [];
+
+  const fetch = async (url: string, init: { headers: Record<string, string> }) => {
+    requests.push({ url, headers: init.headers });
+    const next = responses.shift();
+    if (!next) throw new Error(`Unexpected request to ${url}`);
+
+    const status = next.status ?? 200;
+    return new Response(status === 304 ? null : JSON.stringify(next.body ?? {}), {
+      status,
+      headers: { 'content-type': 'application/json', ...next.headers },
+    });
+  };
+
+  const octokit = new Octokit({ request: { fetch } });
+  const rateLimit = installRequestPolicy(octokit, {
+    sleep: async (ms) => {
+      sleeps.push(ms);
+    },
+    random: () => 0.5,
+    ...options,
+  });
+
+  return { octokit, rateLimit, requests, sleeps };
+}
+
+const getRepo = (octokit: Octokit, repo = 'docs') => octokit.rest.repos.get({ owner: 'acme', repo });
+
+describe('installRequestPolicy', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries server errors with jittered exponential backoff', async () => {
+    const { octokit, requests, sleeps } = stubOctokit(
+      [{ status: 502 }, { status: 503 }, { body: { name: 'docs' } }],
+      { baseDelayMs: 1000 }
+    );
+
+    const { data } = await getRepo(octokit);
+    expect(data.name).toBe('docs');
+    expect(requests).toHaveLength(3);
+    expect(sleeps).toEqual([500, 1000]);
+  });
+
+  it('gives up after maxRetries and never retries client errors', async () => {
+    const failing = stubOctokit([{ status: 500 }, { status: 500 }, { status: 500 }], { maxRetries: 2 });
+    await expect(getRepo(failing.octokit)).rejects.toMatchObject({ status: 500 });
+    expect(failing.requests).toHaveLength(3);
+
+    const missing = stubOctokit([{ status: 404, body: { message: 'Not Found' } }]);
+    await expect(getRepo(missing.octokit)).rejects.toMatchObject({ status: 404 });
+    expect(missing.requests).toHaveLength(1);
+    expect(missing.sleeps).toEqual([]);
+  });
+
+  it('waits the advised time on secondary rate limits', async () => {
+    const { octokit, sleeps } = stubOctokit([
+      { status: 429, headers: { 'retry-after': '7' } },
+      { status: 403, body: { message: 'You have exceeded a secondary rate limit' } },
+      { body: { name: 'docs' } },
+    ]);
+
+    await getRepo(octokit);
+    expect(sleeps).toEqual([7000, 60 * 1000]);
+  });
+
+  it('waits for the reset once the primary rate limit is used up', async () => {
+    const resetSeconds = Math.floor(Date.now() / 1000) + 30;
+    const exhausted = {
+      'x-ratelimit-limit': '5000',
+      'x-ratelimit-remaining': '0',
+      'x-ratelimit-reset': String(resetSeconds),
+      'x-ratelimit-resource': 'core',
+    };
+    const { octokit, rateLimit, requests, sleeps } = stubOctokit([
+      { body: { name: 'docs' }, headers: exhausted },
+      { body: { name: 'other' } },
+    ]);
+
+    await getRepo(octokit);
+    expect(rateLimit()).toEqual({ limit: 5000, remaining: 0, reset: new Date(resetSeconds * 1000).toISOString() });
+
+    // The next request waits before it is sent
+    await getRepo(octokit, 'other');
+    expect(requests).toHaveLength(2);
+    expect(sleeps).toHaveLength(1);
+    expect(sleeps[0]).toBeGreaterThan(25 * 1000);
+    expect(sleeps[0]).toBeLessThanOrEqual(31 * 1000);
+  });
+
+  it('fails instead of waiting past maxRateLimitWaitMs', async () => {
+    const { octokit, sleeps } = stubOctokit(
+      [
+        {
+          status: 403,
+          body: { message: 'API rate limit exceeded' },
+          headers: {
+            'x-ratelimit-remaining': '0',
+            'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + 3600),
+          },
+        },
+      ],
+      { maxRateLimitWaitMs: 60 * 1000 }
+    );
+
+    await expect(getRepo(octokit)).rejects.toBeInstanceOf(RateLimitError);
+    expect(sleeps).toEqual([]);
+  });
+
+  it('revalidates GET responses with their ETag and reuses them on 304', async () => {
+    const { octokit, requests } = stubOctokit([
+      { body: { name: 'docs' }, headers: { etag: '"v1"' } },
+      { status: 304 },
+    ]);
+
+    await getRepo(octokit);
+    const { data, status } = await getRepo(octokit);
+
+    expect(status).toBe(200);
+    expect(data.name).toBe('docs');
+    expect(requests[0].headers['if-none-match']).toBeUndefined();
+    expect(requests[1].headers['if-none-match']).toBe('"v1"');
+  });
+
+  it('does not cache immutable blobs', async () => {
+    const blob = { content: '', encoding: 'base64' };
+    const { octokit, requests } = stubOctokit([
+      { body: blob, headers: { etag: '"b1"' } },
+      { body: blob, headers: { etag: '"b1"' } },
+    ]);
+
+    await octokit.rest.git.getBlob({ owner: 'acme', repo: 'docs', file_sha: 'abc' });
+    await octokit.rest.git.getBlob({ owner: 'acme', repo: 'docs', file_sha: 'abc' });
+    expect(requests[1].headers['if-none-match']).toBeUndefined();
+  });
+
+  it('drops the least recently used response beyond maxCachedResponses', async () => {
+    const ok = (name: string) => ({ body: { name }, headers: { etag: `"${name}"` } });
+    const { octokit, requests } = stubOctokit(
+      [ok('a'), ok('b'), { status: 304 }, ok('c'), { status: 304 }, ok('b')],
+      { maxCachedResponses: 2 }
+    );
+
+    await getRepo(octokit, 'a');
+    await getRepo(octokit, 'b');
+    await getRepo(octokit, 'a'); // a is now more recent than b
+    await getRepo(octokit, 'c'); // evicts b
+    await getRepo(octokit, 'a');
+    await getRepo(octokit, 'b');
+
+    expect(requests.map((r) => r.headers['if-none-match'])).toEqual([
+      undefined,
+      undefined,
+      '"a"',
+      undefined,
+      '"a"',
+      undefined,
+    ]);
+  });
+
+  it('stops waiting when the request signal aborts', async () => {
+    // The real sleep, so the wait has to be cut short
+    const { octokit } = stubOctokit([{ status: 429, headers: { 'retry-after': '600' } }], { sleep: undefined });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error('cancelled')), 20);
+
+    const started = Date.now();
+    await expect(
+      octokit.rest.repos.get({ owner: 'acme', repo: 'docs', request: { signal: controller.signal } })
+    ).rejects.toThrow('cancelled');
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+});
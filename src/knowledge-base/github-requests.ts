@@ -0,0 +1,188 @@
+import { Octokit } from '@octokit/rest';
+
+/**
+ * GitHub request policy
+ * Wraps every Octokit request with rate-limit awareness, retries and ETag
+ * conditional requests:
+ * - the primary rate limit is read from the x-ratelimit-* headers; once it is
+ *   used up, requests wait for the reset instead of failing
+ * - secondary rate limits (403/429 with retry-after) wait the advised time
+ * - server errors and network failures are retried with jittered exponential backoff
+ * - GET responses are remembered with their ETag and revalidated with
+ *   If-None-Match; a 304 doesn't count against the rate limit
+ * Waits end early when the request's signal (request.signal) aborts.
+ */
+
+export interface RequestPolicyOptions {
+  /** Retries after the first attempt */
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Longest wait for a rate limit reset before giving up on a request */
+  maxRateLimitWaitMs?: number;
+  /** Responses kept for ETag revalidation, least recently used dropped first */
+  maxCachedResponses?: number;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  random?: () => number;
+}
+
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  /** When the current window resets */
+  reset: string;
+}
+
+type RequestResult = Awaited<ReturnType<Octokit['request']>>;
+
+interface HttpError extends Error {
+  status?: number;
+  response?: { headers: Record<string, string | number | undefined> };
+}
+
+// Blobs and trees are addressed by SHA and never change; they are also the largest responses
+const IMMUTABLE_URL_RE = /\/git\/(?:blobs|trees)\//;
+
+export class RateLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Install the policy on an Octokit instance. Returns a function reporting the
+ * last seen core rate limit.
+ */
+export function installRequestPolicy(
+  octokit: Octokit,
+  options: RequestPolicyOptions = {}
+): () => RateLimitStatus | undefined {
+  const maxRetries = options.maxRetries ?? 4;
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 60 * 1000;
+  const maxRateLimitWaitMs = options.maxRateLimitWaitMs ?? 15 * 60 * 1000;
+  const maxCachedResponses = options.maxCachedResponses ?? 500;
+  const sleep = options.sleep ?? abortableSleep;
+  const random = options.random ?? Math.random;
+
+  let rateLimit: { limit: number; remaining: number; resetMs: number } | undefined;
+  // In least recently used order
+  const etagCache = new Map<string, { etag: string; response: RequestResult }>();
+
+  const recordRateLimit = (headers: Record<string, string | number | undefined> | undefined) => {
+    if (!headers || headers['x-ratelimit-remaining'] === undefined) return;
+    // Search and GraphQL have their own budgets
+    const resource = headers['x-ratelimit-resource'];
+    if (resource !== undefined && resource !== 'core') return;
+
+    rateLimit = {
+      limit: Number(headers['x-ratelimit-limit']),
+      remaining: Number(headers['x-ratelimit-remaining']),
+      resetMs: Number(headers['x-ratelimit-reset']) * 1000,
+    };
+  };
+
+  const waitForReset = async (resetMs: number, reason: string, signal?: AbortSignal) => {
+    const waitMs = Math.max(0, resetMs - Date.now()) + 1000;
+    if (waitMs > maxRateLimitWaitMs) {
+      throw new RateLimitError(`GitHub ${reason}; resets at ${new Date(resetMs).toISOString()}`);
+    }
+    console.error(`GitHub ${reason}, waiting ${Math.ceil(waitMs / 1000)}s for the reset`);
+    await sleep(waitMs, signal);
+    // That window is over; the next response reports the new one
+    rateLimit = undefined;
+  };
+
+  octokit.hook.wrap('request', async (request, requestOptions) => {
+    const { method, url } = octokit.request.endpoint.parse(requestOptions);
+    const cacheKey = method === 'GET' && !IMMUTABLE_URL_RE.test(url) ? url : undefined;
+    const cached = cacheKey ? etagCache.get(cacheKey) : undefined;
+    if (cached) {
+      etagCache.delete(cacheKey!);
+      etagCache.set(cacheKey!, cached);
+      requestOptions.headers = { ...requestOptions.headers, 'if-none-match': cached.etag };
+    }
+    const signal = (requestOptions.request as { signal?: AbortSignal } | undefined)?.signal;
+
+    for (let attempt = 0; ; attempt++) {
+      signal?.throwIfAborted();
+      // Don't spend a request that is bound to be rejected
+      if (rateLimit && rateLimit.remaining <= 0 && rateLimit.resetMs > Date.now()) {
+        await waitForReset(rateLimit.resetMs, 'rate limit exhausted', signal);
+      }
+
+      try {
+        const response = await request(requestOptions);
+        recordRateLimit(response.headers);
+
+        const etag = response.headers.etag;
+        if (cacheKey && etag) {
+          etagCache.delete(cacheKey);
+          etagCache.set(cacheKey, { etag, response });
+          if (etagCache.size > maxCachedResponses) {
+            etagCache.delete(etagCache.keys().next().value!);
+          }
+        }
+        return response;
+      } catch (error) {
+        const { status, response } = error as HttpError;
+        recordRateLimit(response?.headers);
+
+        if (status === 304 && cached) {
+          return cached.response;
+        }
+        if (attempt >= maxRetries || signal?.aborted) throw error;
+
+        const headers = response?.headers ?? {};
+        if ((status === 403 || status === 429) && headers['retry-after'] !== undefined) {
+          // Secondary rate limit: GitHub says how long to back off
+          await sleep(Number(headers['retry-after']) * 1000, signal);
+        } else if (status === 403 && /secondary rate limit/i.test((error as Error).message)) {
+          // Secondary rate limit without advice: GitHub recommends at least a minute
+          await sleep(60 * 1000, signal);
+        } else if ((status === 403 || status === 429) && Number(headers['x-ratelimit-remaining']) === 0) {
+          await waitForReset(Number(headers['x-ratelimit-reset']) * 1000, 'rate limit exhausted', signal);
+        } else if (status === undefined || status >= 500) {
+          // Server error or no response at all: full jitter backoff
+          const delayMs = random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+          console.error(
+            `GitHub ${method} ${url} failed (${status ?? (error as Error).message}), retrying in ${Math.round(delayMs)}ms`
+          );
+          await sleep(delayMs, signal);
+        } else {
+          throw error;
+        }
+      }
+    }
+  });
+
+  return () =>
+    rateLimit && {
+      limit: rateLimit.limit,
+      remaining: rateLimit.remaining,
+      reset: new Date(rateLimit.resetMs).toISOString(),
+    };
+}
+
+/**
+ * Resolve after ms, or reject with the signal's reason as soon as it aborts
+ */
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
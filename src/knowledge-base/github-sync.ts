@@ -1,26 +1,39 @@
 import { Octokit } from '@octokit/rest';
 import fs from 'fs/promises';
 import path from 'path';
-import { KnowledgeBaseStorage } from './storage.js';
-import { IndexedDocument } from '../schemas/knowledge-base.js';
+import { AWESOME_MCP_LISTS } from './awesome-list.js';
+import { SPEC_INCLUDE_PATTERNS } from './spec-extractor.js';
+import { RemoteTreeEntry, RepoRef, SourceProvider } from './source-provider.js';
+import { RateLimitStatus, RequestPolicyOptions, installRequestPolicy } from './github-requests.js';
 
 /**
  * GitHub Sync Manager
- * Handles fetching and caching content from GitHub repositories
+ * Source provider for GitHub, plus the GitHub-only pieces of a sync: the
+ * official and community repo lists, blocklist feed files and token lookup
  */
-export class GitHubSync {
+export class GitHubSync implements SourceProvider {
+  readonly name = 'github';
   private octokit: Octokit;
-  private storage: KnowledgeBaseStorage;
+  private rateLimit: () => RateLimitStatus | undefined;
 
-  constructor(githubToken: string, storage: KnowledgeBaseStorage) {
+  constructor(githubToken: string, requestPolicy?: RequestPolicyOptions) {
     this.octokit = new Octokit({ auth: githubToken });
-    this.storage = storage;
+    // Rate limits, retries and ETags are handled below every API call
+    this.rateLimit = installRequestPolicy(this.octokit, requestPolicy);
   }
 
   /**
-   * Discover all user repositories with .claude/ directories
+   * Core API rate limit as of the last response, if any request was made yet
    */
-  async discoverUserRepos(username?: string): Promise<Array<{ owner: string; repo: string }>> {
+  getRateLimit(): RateLimitStatus | undefined {
+    return this.rateLimit();
+  }
+
+  /**
+   * Discover all user repositories with .claude/ directories.
+   * Returns null if discovery failed, so callers can tell that apart from "no repos".
+   */
+  async discoverRepos(username?: string): Promise<RepoRef[] | null> {
     try {
       const { data: user } = username
         ? await this.octokit.users.getByUsername({ username })
@@ -32,7 +45,7 @@ export class GitHubSync {
         type: 'owner',
       });
 
-      const reposWithClaude: Array<{ owner: string; repo: string }> = [];
+      const reposWithClaude: RepoRef[] = [];
 
       for (const repo of repos) {
         if (await this.hasCludeDirectory(repo.owner.login, repo.name)) {
@@ -46,7 +59,7 @@ export class GitHubSync {
       return reposWithClaude;
     } catch (error) {
       console.error('Error discovering user repos:', error);
-      return [];
+      return null;
     }
   }
 
@@ -61,140 +74,130 @@ export class GitHubSync {
         path: '.claude',
       });
       return true;
-    } catch {
-      return false;
+    } catch (error) {
+      // Only a 404 means "no .claude/"; anything else should fail discovery
+      if ((error as { status?: number }).status === 404) {
+        return false;
+      }
+      throw error;
     }
   }
 
   /**
-   * Fetch files matching patterns from a repository
+   * Resolve a branch to its root tree SHA
    */
-  async fetchFilesFromRepo(
-    owner: string,
-    repo: string,
-    branch: string = 'main',
-    includePatterns: string[] = ['.claude/**/*.md'],
-    excludePatterns: string[] = ['**/node_modules/**']
-  ): Promise<IndexedDocument[]> {
-    console.error(`Fetching files from ${owner}/${repo}...`);
-
-    try {
-      const repoPath = this.storage.getRepoPath(owner, repo);
-      await this.storage.ensureRepoDir(owner, repo);
-      const documents: IndexedDocument[] = [];
-
-      // Get repository tree
-      const { data: tree } = await this.octokit.git.getTree({
-        owner,
-        repo,
-        tree_sha: branch,
-        recursive: 'true',
-      });
-
-      // Filter files by patterns
-      const matchingFiles = tree.tree.filter((item) => {
-        if (item.type !== 'blob') return false;
-        if (!item.path) return false;
-
-        // Check if matches include patterns
-        const includeMatch = includePatterns.some((pattern) =>
-          this.matchPattern(item.path!, pattern)
-        );
-        if (!includeMatch) return false;
+  async resolveTree(owner: string, repo: string, branch: string, signal?: AbortSignal): Promise<string> {
+    const { data } = await this.octokit.repos.getBranch({ owner, repo, branch, request: { signal } });
+    return data.commit.commit.tree.sha;
+  }
 
-        // Check if matches exclude patterns
-        const excludeMatch = excludePatterns.some((pattern) =>
-          this.matchPattern(item.path!, pattern)
-        );
-        if (excludeMatch) return false;
+  async listTree(owner: string, repo: string, treeId: string, signal?: AbortSignal): Promise<RemoteTreeEntry[]> {
+    return this.listSubtree(owner, repo, treeId, '', signal);
+  }
 
-        return true;
-      });
+  /**
+   * Blobs under a tree, paths prefixed with its location. GitHub truncates
+   * large recursive listings; those are listed one level at a time instead,
+   * since files missing from a partial listing would be pruned from the index.
+   */
+  private async listSubtree(
+    owner: string,
+    repo: string,
+    treeId: string,
+    prefix: string,
+    signal?: AbortSignal
+  ): Promise<RemoteTreeEntry[]> {
+    const { data } = await this.octokit.git.getTree({
+      owner,
+      repo,
+      tree_sha: treeId,
+      recursive: 'true',
+      request: { signal },
+    });
+    if (!data.truncated) {
+      return toBlobEntries(data.tree, prefix);
+    }
 
-      console.error(`Found ${matchingFiles.length} matching files`);
+    console.error(`Tree of ${owner}/${repo}/${prefix} was truncated by GitHub, listing it directory by directory`);
+    const { data: level } = await this.octokit.git.getTree({ owner, repo, tree_sha: treeId, request: { signal } });
+    if (level.truncated) {
+      throw new Error(`Directory ${owner}/${repo}/${prefix} has too many entries to list`);
+    }
 
-      // Fetch content for each file
-      for (const file of matchingFiles) {
-        if (!file.path || !file.sha) continue;
+    const entries = toBlobEntries(level.tree, prefix);
+    for (const item of level.tree) {
+      if (item.type === 'tree' && item.path && item.sha) {
+        entries.push(...(await this.listSubtree(owner, repo, item.sha, `${prefix}${item.path}/`, signal)));
+      }
+    }
+    return entries;
+  }
 
-        try {
-          const { data: blob } = await this.octokit.git.getBlob({
-            owner,
-            repo,
-            file_sha: file.sha,
-          });
+  async fetchBlob(owner: string, repo: string, sha: string, signal?: AbortSignal): Promise<Buffer> {
+    const { data } = await this.octokit.git.getBlob({ owner, repo, file_sha: sha, request: { signal } });
+    return Buffer.from(data.content, 'base64');
+  }
 
-          const content = Buffer.from(blob.content, 'base64').toString('utf-8');
-
-          const document: IndexedDocument = {
-            id: `${owner}/${repo}/${branch}/${file.path}`,
-            repoOwner: owner,
-            repoName: repo,
-            branch,
-            filePath: file.path,
-            content,
-            metadata: {
-              fileType: path.extname(file.path).slice(1) || 'unknown',
-              lastModified: new Date().toISOString(), // GitHub doesn't provide this in tree
-              size: file.size || 0,
-              hash: file.sha,
-            },
-            indexed: new Date().toISOString(),
-          };
-
-          documents.push(document);
-
-          // Cache locally
-          const localPath = path.join(repoPath, file.path);
-          await fs.mkdir(path.dirname(localPath), { recursive: true });
-          await fs.writeFile(localPath, content, 'utf-8');
-        } catch (error) {
-          console.error(`Error fetching file ${file.path}:`, error);
-        }
-      }
+  async lastCommitDate(
+    owner: string,
+    repo: string,
+    branch: string,
+    filePath?: string,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    const { data } = await this.octokit.repos.listCommits({
+      owner,
+      repo,
+      sha: branch,
+      path: filePath,
+      per_page: 1,
+      request: { signal },
+    });
+    return data[0]?.commit.committer?.date ?? null;
+  }
 
-      return documents;
-    } catch (error) {
-      console.error(`Error fetching repo ${owner}/${repo}:`, error);
-      return [];
+  /**
+   * Fetch a single file's raw contents, e.g. a blocklist feed
+   */
+  async fetchFile(owner: string, repo: string, filePath: string, ref?: string): Promise<Buffer> {
+    const { data } = await this.octokit.repos.getContent({ owner, repo, path: filePath, ref });
+    if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+      throw new Error(`${owner}/${repo}/${filePath} is not a file`);
     }
+    return Buffer.from(data.content, 'base64');
   }
 
   /**
    * Get list of official MCP repositories
    */
-  getOfficialMCPRepos(): Array<{ owner: string; repo: string }> {
+  getOfficialMCPRepos(): Array<{ owner: string; repo: string; includePatterns?: string[] }> {
     return [
       { owner: 'modelcontextprotocol', repo: 'servers' },
       { owner: 'modelcontextprotocol', repo: 'typescript-sdk' },
-      { owner: 'modelcontextprotocol', repo: 'specification' },
+      // Spec docs are MDX; the per-version JSON schemas feed get_mcp_specification
+      { owner: 'modelcontextprotocol', repo: 'specification', includePatterns: SPEC_INCLUDE_PATTERNS },
     ];
   }
 
   /**
-   * Get list of community MCP repositories from awesome lists
+   * Get the awesome lists of community MCP servers.
+   * The servers they link to are picked via sync.communityCatalog.
    */
   async getCommunityMCPRepos(): Promise<Array<{ owner: string; repo: string }>> {
-    // Hard-coded for now, could fetch from awesome-mcp-servers later
-    return [
-      { owner: 'punkpeye', repo: 'awesome-mcp-servers' },
-      { owner: 'wong2', repo: 'awesome-mcp-servers' },
-    ];
+    return AWESOME_MCP_LISTS.map((list) => ({ ...list }));
   }
 
   /**
-   * Simple glob-like pattern matching
+   * Default branch of a repository, or null if it can't be read
    */
-  private matchPattern(filePath: string, pattern: string): boolean {
-    // Convert glob to regex
-    const regexPattern = pattern
-      .replace(/\./g, '\\.')
-      .replace(/\*\*/g, '.*')
-      .replace(/\*/g, '[^/]*')
-      .replace(/\?/g, '.');
-
-    const regex = new RegExp(`^${regexPattern}$`);
-    return regex.test(filePath);
+  async getDefaultBranch(owner: string, repo: string): Promise<string | null> {
+    try {
+      const { data } = await this.octokit.repos.get({ owner, repo });
+      return data.default_branch;
+    } catch (error) {
+      console.error(`Failed to read ${owner}/${repo}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
   }
 
   /**
@@ -237,3 +240,12 @@ export class GitHubSync {
     );
   }
 }
+
+function toBlobEntries(
+  tree: Array<{ type?: string; path?: string; sha?: string; size?: number }>,
+  prefix: string
+): RemoteTreeEntry[] {
+  return tree
+    .filter((item) => item.type === 'blob' && item.path && item.sha)
+    .map((item) => ({ path: `${prefix}${item.path!}`, sha: item.sha!, size: item.size }));
+}
@@ -0,0 +1,132 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GitLabProvider } from './gitlab-provider.js';
+import { SourceRequestError } from './source-provider.js';
+
+type Route = (url: URL) => { status?: number; body: unknown; headers?: Record<string, string> } | undefined;
+
+describe('GitLabProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let route: Route;
+  let requests: Array<{ url: string; token?: string }>;
+
+  beforeEach(async () => {
+    requests = [];
+    route = () => undefined;
+    server = http.createServer((req, res) => {
+      requests.push({ url: req.url!, token: req.headers['private-token'] as string | undefined });
+      const response = route(new URL(req.url!, 'http://localhost'));
+      if (!response) {
+        res.writeHead(404).end('{"message":"404 Not Found"}');
+        return;
+      }
+      res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json', ...response.headers });
+      res.end(typeof response.body === 'string' ? response.body : JSON.stringify(response.body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('resolves a branch to its head commit with the token', async () => {
+    route = (url) =>
+      url.pathname === '/api/v4/projects/group%2Fsub%2Fproject/repository/branches/main'
+        ? { body: { commit: { id: 'abc123' } } }
+        : undefined;
+
+    const provider = new GitLabProvider(`${baseUrl}/`, 'secret');
+    await expect(provider.resolveTree('group/sub', 'project', 'main')).resolves.toBe('abc123');
+    expect(requests[0].token).toBe('secret');
+  });
+
+  it('lists blobs across all tree pages', async () => {
+    route = (url) => {
+      if (!url.pathname.endsWith('/repository/tree')) return undefined;
+      expect(url.searchParams.get('recursive')).toBe('true');
+      expect(url.searchParams.get('ref')).toBe('abc123');
+
+      return url.searchParams.get('page') === '1'
+        ? {
+            body: [
+              { id: 'd1', path: 'docs', type: 'tree' },
+              { id: 'b1', path: 'docs/a.md', type: 'blob' },
+            ],
+            headers: { 'X-Next-Page': '2' },
+          }
+        : { body: [{ id: 'b2', path: 'README.md', type: 'blob' }], headers: { 'X-Next-Page': '' } };
+    };
+
+    const provider = new GitLabProvider(baseUrl);
+    await expect(provider.listTree('group', 'project', 'abc123')).resolves.toEqual([
+      { path: 'docs/a.md', sha: 'b1' },
+      { path: 'README.md', sha: 'b2' },
+    ]);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('fetches raw blobs and commit dates', async () => {
+    route = (url) => {
+      if (url.pathname.endsWith('/repository/blobs/b1/raw')) return { body: '# Hello' };
+      if (url.pathname.endsWith('/repository/commits')) {
+        expect(url.searchParams.get('path')).toBe('docs/a.md');
+        expect(url.searchParams.get('ref_name')).toBe('main');
+        return { body: [{ committed_date: '2025-03-01T10:00:00.000+01:00' }] };
+      }
+      return undefined;
+    };
+
+    const provider = new GitLabProvider(baseUrl);
+    expect((await provider.fetchBlob('group', 'project', 'b1')).toString()).toBe('# Hello');
+    await expect(provider.lastCommitDate('group', 'project', 'main', 'docs/a.md')).resolves.toBe(
+      '2025-03-01T10:00:00.000+01:00'
+    );
+  });
+
+  it('discovers owned projects that have a .claude directory', async () => {
+    route = (url) => {
+      if (url.pathname === '/api/v4/users/alice/projects') {
+        return {
+          body: [
+            { path: 'with-claude', namespace: { full_path: 'alice' } },
+            { path: 'empty', namespace: { full_path: 'alice' } },
+            { path: 'missing', namespace: { full_path: 'alice' } },
+          ],
+        };
+      }
+      if (url.pathname.endsWith('with-claude/repository/tree')) return { body: [{ id: 'x', path: '.claude/a.md' }] };
+      if (url.pathname.endsWith('empty/repository/tree')) return { body: [] };
+      return undefined;
+    };
+
+    const provider = new GitLabProvider(baseUrl);
+    await expect(provider.discoverRepos('alice')).resolves.toEqual([{ owner: 'alice', repo: 'with-claude' }]);
+  });
+
+  it('reports failed discovery as null and other failures as SourceRequestError', async () => {
+    route = () => ({ status: 500, body: { message: 'boom' } });
+
+    const provider = new GitLabProvider(baseUrl);
+    await expect(provider.discoverRepos()).resolves.toBeNull();
+
+    const error = await provider.resolveTree('group', 'project', 'main').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SourceRequestError);
+    expect((error as SourceRequestError).status).toBe(500);
+  });
+
+  it('stops when the signal aborts', async () => {
+    route = () => ({ body: { commit: { id: 'abc123' } } });
+    const controller = new AbortController();
+    controller.abort();
+
+    const provider = new GitLabProvider(baseUrl);
+    await expect(provider.resolveTree('group', 'project', 'main', controller.signal)).rejects.toThrow();
+    expect(requests).toHaveLength(0);
+  });
+});
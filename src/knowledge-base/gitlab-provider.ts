@@ -0,0 +1,130 @@
+import { RemoteTreeEntry, RepoRef, SourceProvider, SourceRequestError, sourceRequest } from './source-provider.js';
+
+/**
+ * GitLab source provider
+ * Reads projects through the GitLab REST API (v4) of gitlab.com or a
+ * self-hosted instance. owner is the project's namespace path, which may
+ * contain subgroups ("group/subgroup").
+ */
+export class GitLabProvider implements SourceProvider {
+  readonly name = 'gitlab';
+  private apiUrl: string;
+  private headers: Record<string, string>;
+
+  constructor(baseUrl: string = 'https://gitlab.com', token?: string) {
+    this.apiUrl = `${baseUrl.replace(/\/+$/, '')}/api/v4`;
+    this.headers = token ? { 'PRIVATE-TOKEN': token } : {};
+  }
+
+  async discoverRepos(username?: string): Promise<RepoRef[] | null> {
+    try {
+      const listPath = username
+        ? `/users/${encodeURIComponent(username)}/projects?owned=true`
+        : '/projects?membership=true&owned=true';
+      const projects = await this.getAllPages<{ path: string; namespace: { full_path: string } }>(listPath);
+
+      const reposWithClaude: RepoRef[] = [];
+      for (const project of projects) {
+        const ref = { owner: project.namespace.full_path, repo: project.path };
+        if (await this.hasClaudeDirectory(ref.owner, ref.repo)) {
+          reposWithClaude.push(ref);
+        }
+      }
+      return reposWithClaude;
+    } catch (error) {
+      console.error('Error discovering GitLab repos:', error);
+      return null;
+    }
+  }
+
+  /**
+   * GitLab's API doesn't expose tree SHAs, so the head commit stands in
+   */
+  async resolveTree(owner: string, repo: string, branch: string, signal?: AbortSignal): Promise<string> {
+    const branchData = await this.getJSON<{ commit: { id: string } }>(
+      `${this.projectPath(owner, repo)}/repository/branches/${encodeURIComponent(branch)}`,
+      signal
+    );
+    return branchData.commit.id;
+  }
+
+  async listTree(owner: string, repo: string, treeId: string, signal?: AbortSignal): Promise<RemoteTreeEntry[]> {
+    const items = await this.getAllPages<{ id: string; path: string; type: string }>(
+      `${this.projectPath(owner, repo)}/repository/tree?recursive=true&ref=${encodeURIComponent(treeId)}`,
+      signal
+    );
+    return items.filter((item) => item.type === 'blob').map((item) => ({ path: item.path, sha: item.id }));
+  }
+
+  async fetchBlob(owner: string, repo: string, sha: string, signal?: AbortSignal): Promise<Buffer> {
+    const response = await sourceRequest(
+      `${this.apiUrl}${this.projectPath(owner, repo)}/repository/blobs/${sha}/raw`,
+      this.headers,
+      signal
+    );
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async lastCommitDate(
+    owner: string,
+    repo: string,
+    branch: string,
+    filePath?: string,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    const commits = await this.getJSON<Array<{ committed_date: string }>>(
+      `${this.projectPath(owner, repo)}/repository/commits?ref_name=${encodeURIComponent(branch)}` +
+        `${filePath ? `&path=${encodeURIComponent(filePath)}` : ''}&per_page=1`,
+      signal
+    );
+    return commits[0]?.committed_date ?? null;
+  }
+
+  /**
+   * Check if a project has a .claude directory
+   */
+  private async hasClaudeDirectory(owner: string, repo: string): Promise<boolean> {
+    try {
+      const items = await this.getJSON<unknown[]>(
+        `${this.projectPath(owner, repo)}/repository/tree?path=.claude&per_page=1`
+      );
+      return items.length > 0;
+    } catch (error) {
+      // Only a 404 means "no .claude/"; anything else should fail discovery
+      if (error instanceof SourceRequestError && error.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private projectPath(owner: string, repo: string): string {
+    return `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+  }
+
+  private async getJSON<T>(apiPath: string, signal?: AbortSignal): Promise<T> {
+    const response = await sourceRequest(`${this.apiUrl}${apiPath}`, this.headers, signal);
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Follow GitLab's offset pagination (X-Next-Page) to the end
+   */
+  private async getAllPages<T>(apiPath: string, signal?: AbortSignal): Promise<T[]> {
+    const items: T[] = [];
+    const separator = apiPath.includes('?') ? '&' : '?';
+    let page: string | null = '1';
+
+    while (page) {
+      const response = await sourceRequest(
+        `${this.apiUrl}${apiPath}${separator}per_page=100&page=${page}`,
+        this.headers,
+        signal
+      );
+      items.push(...((await response.json()) as T[]));
+      page = response.headers.get('x-next-page') || null;
+    }
+
+    return items;
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { matchGlob } from './glob.js';
+
+describe('matchGlob', () => {
+  it('matches * within one path segment', () => {
+    expect(matchGlob('README.md', '*.md')).toBe(true);
+    expect(matchGlob('docs/README.md', '*.md')).toBe(false);
+    expect(matchGlob('docs/README.md', 'docs/*.md')).toBe(true);
+  });
+
+  it('matches **/ as zero or more directories', () => {
+    expect(matchGlob('README.md', '**/*.md')).toBe(true);
+    expect(matchGlob('a/b/c/README.md', '**/*.md')).toBe(true);
+    expect(matchGlob('.claude/commands/deploy.md', '.claude/**/*.md')).toBe(true);
+    expect(matchGlob('.claude/settings.md', '.claude/**/*.md')).toBe(true);
+    expect(matchGlob('src/.claude/x.md', '.claude/**/*.md')).toBe(false);
+  });
+
+  it('matches a trailing ** across directories', () => {
+    expect(matchGlob('node_modules/pkg/index.js', '**/node_modules/**')).toBe(true);
+    expect(matchGlob('packages/a/node_modules/pkg/README.md', '**/node_modules/**')).toBe(true);
+    expect(matchGlob('src/node_modules.md', '**/node_modules/**')).toBe(false);
+  });
+
+  it('matches ? as one character other than /', () => {
+    expect(matchGlob('v1.json', 'v?.json')).toBe(true);
+    expect(matchGlob('v10.json', 'v?.json')).toBe(false);
+    expect(matchGlob('a/b', 'a?b')).toBe(false);
+  });
+
+  it('expands {a,b} alternation', () => {
+    expect(matchGlob('docs/guide.mdx', 'docs/*.{md,mdx}')).toBe(true);
+    expect(matchGlob('docs/guide.txt', 'docs/*.{md,mdx}')).toBe(false);
+  });
+
+  it('treats regex characters literally', () => {
+    expect(matchGlob('schema/2025-03-26/schema.json', 'schema/*/schema.json')).toBe(true);
+    expect(matchGlob('a+b(1).md', 'a+b(1).md')).toBe(true);
+    expect(matchGlob('axb.md', 'a.b.md')).toBe(false);
+    expect(matchGlob('{x.md', '{x.md')).toBe(true);
+  });
+});
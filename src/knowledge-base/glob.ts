@@ -0,0 +1,64 @@
+/**
+ * Glob pattern matching for repository file paths
+ * Supports ** (any number of directories), * (within one path segment),
+ * ? (one character) and {a,b} alternation.
+ */
+
+const regexCache: Map<string, RegExp> = new Map();
+
+/**
+ * Check whether a slash-separated path matches a glob pattern
+ */
+export function matchGlob(filePath: string, pattern: string): boolean {
+  let regex = regexCache.get(pattern);
+  if (!regex) {
+    regex = globToRegExp(pattern);
+    regexCache.set(pattern, regex);
+  }
+  return regex.test(filePath);
+}
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" anything
+        if (pattern[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        regex += '\\{';
+      } else {
+        const options = pattern.slice(i + 1, end).split(',').map(escapeRegExp);
+        regex += `(?:${options.join('|')})`;
+        i = end;
+      }
+    } else {
+      regex += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,152 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocalSync, resolveLocalPath } from './local-sync.js';
+import { PreviousRepoState, RepoSyncResult } from './source-provider.js';
+import { KnowledgeBaseStorage } from './storage.js';
+
+describe('LocalSync', () => {
+  let baseDir: string;
+  let root: string;
+  let sync: LocalSync;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kb-local-'));
+    root = path.join(baseDir, 'project');
+    const storage = new KnowledgeBaseStorage(path.join(baseDir, 'kb'));
+    await storage.initialize();
+    sync = new LocalSync(storage);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  async function write(file: string, content: string, mtime = new Date('2025-01-01T00:00:00Z')): Promise<void> {
+    const fullPath = path.join(root, file);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content);
+    await fs.utimes(fullPath, mtime, mtime);
+  }
+
+  function scan(previous?: PreviousRepoState): Promise<RepoSyncResult> {
+    const exclude = ['**/node_modules/**', 'drafts/**'];
+    return sync.fetchFilesFromDirectory('local', 'project', root, ['**/*.md'], exclude, previous);
+  }
+
+  function filesRead(readFile: { mock: { calls: unknown[][] } }): string[] {
+    return readFile.mock.calls
+      .map(([file]) => String(file))
+      .filter((file) => file.startsWith(root))
+      .map((file) => path.relative(root, file));
+  }
+
+  function asPrevious(result: RepoSyncResult, before?: PreviousRepoState): PreviousRepoState {
+    const removed = new Set(result.removedIds);
+    const changed = new Set(result.documents.map((doc) => doc.id));
+    const kept = (before?.documents ?? []).filter((doc) => !removed.has(doc.id) && !changed.has(doc.id));
+    return { state: result.state, documents: [...kept, ...result.documents] };
+  }
+
+  it('indexes matching files on the checked-out branch and respects exclude patterns', async () => {
+    await write('.git/HEAD', 'ref: refs/heads/main\n');
+    await write('README.md', '# Project');
+    await write('docs/guide.md', '# Guide');
+    await write('docs/notes.txt', 'not included');
+    await write('drafts/wip.md', '# Draft');
+    await write('node_modules/dep/README.md', '# Dependency');
+
+    const result = await scan();
+
+    expect(result.branch).toBe('main');
+    expect(result.documents.map((doc) => doc.id)).toEqual([
+      'local/project/main/docs/guide.md',
+      'local/project/main/README.md',
+    ]);
+    expect(result.documents[0]).toMatchObject({
+      content: '# Guide',
+      metadata: {
+        fileType: 'md',
+        lastModified: '2025-01-01T00:00:00.000Z',
+        size: 7,
+        // git hash-object of the same content
+        hash: 'b5aaad7d6dda27ea24335cdd4722c8129113f4cd',
+      },
+    });
+    expect(result.stats).toEqual({ added: 2, changed: 0, unchanged: 0, removed: 0 });
+    expect(result.failedFiles).toEqual([]);
+  });
+
+  it('skips unchanged directories and only reads files that changed', async () => {
+    await write('a.md', 'A');
+    await write('b.md', 'B');
+    const first = await scan();
+    expect(first.branch).toBe('local');
+
+    const previous = asPrevious(first);
+    const unchanged = await scan(previous);
+    expect(unchanged.skipped).toBe(true);
+    expect(unchanged.stats.unchanged).toBe(2);
+
+    // A touched file with the same content is recognised by its hash
+    await write('a.md', 'A', new Date('2025-02-01T00:00:00Z'));
+    await write('b.md', 'B changed', new Date('2025-02-01T00:00:00Z'));
+    await write('c.md', 'C');
+    const readFile = vi.spyOn(fs, 'readFile');
+    const changed = await scan(previous);
+
+    expect(changed.skipped).toBe(false);
+    expect(changed.documents.map((doc) => doc.filePath)).toEqual(['b.md', 'c.md']);
+    expect(changed.stats).toEqual({ added: 1, changed: 1, unchanged: 1, removed: 0 });
+    expect(filesRead(readFile)).toEqual(['a.md', 'b.md', 'c.md']);
+
+    await fs.rm(path.join(root, 'b.md'));
+    const removed = await scan(asPrevious(changed, previous));
+
+    expect(removed.removedIds).toEqual(['local/project/local/b.md']);
+    expect(removed.documents).toEqual([]);
+    expect(removed.stats).toEqual({ added: 0, changed: 0, unchanged: 2, removed: 1 });
+  });
+
+  it('throws when the directory cannot be read', async () => {
+    await expect(scan()).rejects.toThrow();
+  });
+
+  it('reports changes once they settle, ignoring excluded directories', async () => {
+    await write('docs/guide.md', '# Guide');
+    await write('node_modules/dep/README.md', '# Dependency');
+    const onChange = vi.fn();
+    const stop = sync.watch(root, ['**/node_modules/**'], onChange, undefined, 20)!;
+
+    try {
+      // Give the initial directory walk time to attach its watchers
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      await write('node_modules/dep/README.md', '# Updated dependency');
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(onChange).not.toHaveBeenCalled();
+
+      await write('docs/guide.md', '# Updated guide');
+      await write('docs/other.md', '# Other');
+      await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1));
+    } finally {
+      stop();
+    }
+  });
+
+  it('reports directories that cannot be watched', () => {
+    const onError = vi.fn();
+    expect(sync.watch(path.join(baseDir, 'missing'), [], () => {}, onError)).toBeNull();
+    expect(onError).toHaveBeenCalledOnce();
+  });
+});
+
+describe('resolveLocalPath', () => {
+  it('expands the home directory and resolves relative paths', () => {
+    expect(resolveLocalPath('~')).toBe(os.homedir());
+    expect(resolveLocalPath('~/docs')).toBe(path.join(os.homedir(), 'docs'));
+    expect(resolveLocalPath('docs')).toBe(path.resolve('docs'));
+  });
+});
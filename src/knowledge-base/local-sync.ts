@@ -0,0 +1,349 @@
+import { createHash } from 'crypto';
+import { Dirent, FSWatcher, watch } from 'fs';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { KnowledgeBaseStorage } from './storage.js';
+import { matchGlob } from './glob.js';
+import { PreviousRepoState, RepoSyncResult, isSameTree, keepEvicted } from './source-provider.js';
+import { IndexedDocument } from '../schemas/knowledge-base.js';
+
+/**
+ * Local Sync Manager
+ * Indexes directories on disk (git checkouts or plain folders) without GitHub.
+ * Files are matched with the same include/exclude patterns as remote repos and
+ * keyed by their git blob SHA, so a rescan only reads files whose size or
+ * modification time changed.
+ */
+export class LocalSync {
+  private storage: KnowledgeBaseStorage;
+
+  constructor(storage: KnowledgeBaseStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Scan a directory into documents under owner/repo.
+   * Throws if the directory could not be read; unreadable files are listed in failedFiles.
+   */
+  async fetchFilesFromDirectory(
+    owner: string,
+    repo: string,
+    directory: string,
+    includePatterns: string[],
+    excludePatterns: string[] = ['**/node_modules/**', '**/.git/**'],
+    previous?: PreviousRepoState
+  ): Promise<RepoSyncResult> {
+    const root = resolveLocalPath(directory);
+    console.error(`Scanning ${root} as ${owner}/${repo}...`);
+
+    const branch = await readCheckoutBranch(root);
+    const blocklist = await this.storage.loadFileBlocklist();
+
+    const files = (await listFiles(root, excludePatterns)).filter(
+      (file) =>
+        includePatterns.some((pattern) => matchGlob(file.path, pattern)) &&
+        !excludePatterns.some((pattern) => matchGlob(file.path, pattern)) &&
+        !(blocklist.excludesFromIndex() && blocklist.match(owner, repo, file.path))
+    );
+
+    // Stands in for a tree SHA: changes whenever a matching file is added, removed or touched
+    const listing = createHash('sha256');
+    for (const file of files) {
+      listing.update(`${file.path}\0${file.size}\0${file.mtime}\n`);
+    }
+    const treeSha = listing.digest('hex');
+
+    const previousDocs = previous?.documents ?? [];
+    const result: RepoSyncResult = {
+      owner,
+      repo,
+      branch,
+      skipped: false,
+      state: {
+        owner,
+        repo,
+        branch,
+        treeSha,
+        includePatterns,
+        excludePatterns,
+        blocklistFingerprint: blocklist.fingerprint(),
+        lastSynced: new Date().toISOString(),
+      },
+      documents: [],
+      removedIds: [],
+      stats: { added: 0, changed: 0, unchanged: 0, removed: 0 },
+      failedFiles: [],
+    };
+
+    if (previous?.state && isSameTree(previous.state, result.state!)) {
+      result.skipped = true;
+      result.state!.evicted = previous.state.evicted;
+      result.stats.unchanged = previousDocs.length;
+      return result;
+    }
+    const evicted = keepEvicted(previous?.state, branch);
+
+    const previousByPath = new Map(
+      previousDocs.filter((doc) => doc.branch === branch).map((doc) => [doc.filePath, doc])
+    );
+
+    for (const file of files) {
+      const existing = previousByPath.get(file.path);
+      if (existing && existing.metadata.size === file.size && existing.metadata.lastModified === file.mtime) {
+        result.stats.unchanged++;
+        continue;
+      }
+
+      try {
+        const buffer = await fs.readFile(path.join(root, file.path));
+        const hash = gitBlobSha(buffer);
+        if (existing && existing.metadata.hash === hash) {
+          result.stats.unchanged++;
+          continue;
+        }
+        if (evicted.keep(file.path, hash)) continue;
+
+        const document: IndexedDocument = {
+          id: `${owner}/${repo}/${branch}/${file.path}`,
+          repoOwner: owner,
+          repoName: repo,
+          branch,
+          filePath: file.path,
+          content: buffer.toString('utf-8'),
+          metadata: {
+            fileType: path.extname(file.path).slice(1) || 'unknown',
+            lastModified: file.mtime,
+            size: file.size,
+            hash,
+          },
+          indexed: new Date().toISOString(),
+        };
+
+        result.documents.push(document);
+        if (existing) {
+          result.stats.changed++;
+        } else {
+          result.stats.added++;
+        }
+      } catch (error) {
+        // Deleted or unreadable between listing and reading; retry on the next scan
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Error reading ${file.path}:`, message);
+        result.failedFiles.push({ path: file.path, error: message });
+        result.state = undefined;
+      }
+    }
+
+    if (result.state) {
+      result.state.evicted = evicted.records;
+    }
+
+    const currentPaths = new Set(files.map((file) => file.path));
+    for (const doc of previousDocs) {
+      if (doc.branch !== branch || !currentPaths.has(doc.filePath)) {
+        result.removedIds.push(doc.id);
+        result.stats.removed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Call onChange once file events in a directory settle. Excluded directories
+   * (node_modules, .git, ...) are not watched at all: every other directory
+   * gets its own watcher, since recursive watching needs Node 20 on Linux and
+   * would include them. If watching fails later on (e.g. the system's watcher
+   * limit is reached), watching stops and onError is called.
+   * Returns a function that stops watching, or null (after onError) if the
+   * directory can't be watched.
+   */
+  watch(
+    directory: string,
+    excludePatterns: string[],
+    onChange: () => void,
+    onError: (error: Error) => void = () => {},
+    debounceMs: number = 1000
+  ): (() => void) | null {
+    const root = resolveLocalPath(directory);
+    // Watchers by slash-separated directory path relative to root
+    const watchers = new Map<string, FSWatcher>();
+    let timer: NodeJS.Timeout | null = null;
+    let stopped = false;
+
+    const stop = () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      for (const watcher of watchers.values()) {
+        watcher.close();
+      }
+      watchers.clear();
+    };
+
+    const fail = (error: Error) => {
+      if (stopped) return;
+      console.error(`Stopped watching ${root}:`, error.message);
+      stop();
+      onError(error);
+    };
+
+    const scheduleChange = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        onChange();
+      }, debounceMs);
+    };
+
+    const watchDirectory = (dir: string) => {
+      const watcher = watch(path.join(root, dir), (_event, filename) => {
+        if (!filename) {
+          scheduleChange();
+          return;
+        }
+
+        const relative = dir ? `${dir}/${filename.toString()}` : filename.toString();
+        if (isExcluded(relative, excludePatterns) || isExcluded(`${relative}/`, excludePatterns)) {
+          return;
+        }
+        scheduleChange();
+        void updateDirectory(relative);
+      });
+      watcher.on('error', fail);
+      watchers.set(dir, watcher);
+    };
+
+    // Watch a directory and everything below it that isn't excluded
+    const watchTree = async (dir: string): Promise<void> => {
+      if (stopped) return;
+      if (!watchers.has(dir)) {
+        try {
+          watchDirectory(dir);
+        } catch (error) {
+          // Removed before we got to it
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') fail(error as Error);
+          return;
+        }
+      }
+
+      const entries = await fs.readdir(path.join(root, dir), { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const relative = dir ? `${dir}/${entry.name}` : entry.name;
+        if (entry.isDirectory() && !isExcluded(`${relative}/`, excludePatterns)) {
+          await watchTree(relative);
+        }
+      }
+    };
+
+    // Start watching new directories, stop watching removed ones
+    const updateDirectory = async (relative: string): Promise<void> => {
+      const stat = await fs.lstat(path.join(root, relative)).catch(() => null);
+      if (stat?.isDirectory()) {
+        if (!watchers.has(relative)) await watchTree(relative);
+        return;
+      }
+      for (const [dir, watcher] of watchers) {
+        if (dir === relative || dir.startsWith(`${relative}/`)) {
+          watcher.close();
+          watchers.delete(dir);
+        }
+      }
+    };
+
+    try {
+      watchDirectory('');
+    } catch (error) {
+      console.error(`Cannot watch ${root}:`, error instanceof Error ? error.message : error);
+      onError(error instanceof Error ? error : new Error(String(error)));
+      return null;
+    }
+    void watchTree('');
+
+    return stop;
+  }
+}
+
+/**
+ * Expand ~/ and resolve a configured local repository path
+ */
+export function resolveLocalPath(directory: string): string {
+  const expanded = directory === '~' || directory.startsWith('~/')
+    ? path.join(os.homedir(), directory.slice(1))
+    : directory;
+  return path.resolve(expanded);
+}
+
+interface LocalFile {
+  /** Slash-separated path relative to the root */
+  path: string;
+  size: number;
+  mtime: string;
+}
+
+/**
+ * Regular files under root. Symlinks aren't followed, and directories that an
+ * exclude pattern covers entirely are not descended into.
+ */
+async function listFiles(root: string, excludePatterns: string[]): Promise<LocalFile[]> {
+  const files: LocalFile[] = [];
+  const pending = [''];
+
+  while (pending.length > 0) {
+    const dir = pending.pop()!;
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(path.join(root, dir), { withFileTypes: true });
+    } catch (error) {
+      // The root itself must be readable; subdirectories may vanish mid-scan
+      if (dir === '') throw error;
+      continue;
+    }
+
+    for (const entry of entries) {
+      const relative = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!isExcluded(`${relative}/`, excludePatterns)) pending.push(relative);
+      } else if (entry.isFile()) {
+        const stat = await fs.stat(path.join(root, relative)).catch(() => null);
+        if (stat) {
+          files.push({ path: relative, size: stat.size, mtime: stat.mtime.toISOString() });
+        }
+      }
+    }
+  }
+
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function isExcluded(relativePath: string, excludePatterns: string[]): boolean {
+  return excludePatterns.some((pattern) => matchGlob(relativePath, pattern));
+}
+
+/**
+ * Checked-out branch of a git working tree, or "local" for plain directories
+ * and detached HEADs
+ */
+async function readCheckoutBranch(root: string): Promise<string> {
+  try {
+    let gitDir = path.join(root, '.git');
+    if ((await fs.stat(gitDir)).isFile()) {
+      // Worktrees and submodules point at their git dir
+      const pointer = /^gitdir:\s*(.+)$/m.exec(await fs.readFile(gitDir, 'utf-8'));
+      if (!pointer) return 'local';
+      gitDir = path.resolve(root, pointer[1].trim());
+    }
+
+    const head = await fs.readFile(path.join(gitDir, 'HEAD'), 'utf-8');
+    return /^ref:\s*refs\/heads\/(.+)$/m.exec(head)?.[1].trim() ?? 'local';
+  } catch {
+    return 'local';
+  }
+}
+
+/**
+ * SHA-1 of a file as git stores it, so local and GitHub hashes agree
+ */
+function gitBlobSha(content: Buffer): string {
+  return createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex');
+}
@@ -0,0 +1,89 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { IndexedDocument } from '../schemas/knowledge-base.js';
+import { documentUri, parseResourceUri } from './resources.js';
+import { KnowledgeBaseStorage } from './storage.js';
+
+describe('parseResourceUri', () => {
+  it('parses the spec and document URIs', () => {
+    expect(parseResourceUri('kb://spec')).toEqual({ kind: 'spec' });
+    expect(parseResourceUri('kb://acme/docs/main/.claude/guide.md')).toEqual({
+      kind: 'document',
+      owner: 'acme',
+      repo: 'docs',
+      branch: 'main',
+      filePath: '.claude/guide.md',
+    });
+    expect(parseResourceUri('https://example.com')).toBeNull();
+  });
+
+  it('round-trips nested owners and branches with slashes', () => {
+    const doc = {
+      repoOwner: 'group/sub',
+      repoName: 'project',
+      branch: 'release/1.0',
+      filePath: 'docs/a b.md',
+    } as IndexedDocument;
+
+    expect(parseResourceUri(documentUri(doc))).toEqual({
+      kind: 'document',
+      owner: 'group/sub',
+      repo: 'project',
+      branch: 'release/1.0',
+      filePath: 'docs/a b.md',
+    });
+  });
+
+  it.each([
+    'kb://../../main/secret.txt',
+    'kb://../../x/.ssh/id_rsa',
+    'kb://%2E%2E/repo/main/file.md',
+    'kb://owner/./main/file.md',
+    'kb://owner/a%2F..%2F..%2Fb/main/file.md',
+    'kb://owner/repo%5C..%5C../main/file.md',
+    'kb://group%2F..%2F../repo/main/file.md',
+    'kb://owner/repo/feature%2F..%2F/file.md',
+    'kb://%E0%A4%A/repo/main/file.md',
+  ])('rejects %s', (uri) => {
+    expect(parseResourceUri(uri)).toBeNull();
+  });
+});
+
+describe('KnowledgeBaseStorage repository paths', () => {
+  let baseDir: string;
+  let storage: KnowledgeBaseStorage;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kb-resources-'));
+    storage = new KnowledgeBaseStorage(path.join(baseDir, 'kb'));
+    await storage.initialize();
+    await fs.mkdir(path.join(baseDir, 'main'), { recursive: true });
+    await fs.writeFile(path.join(baseDir, 'main', 'secret.txt'), 'secret');
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('refuses repository names that resolve outside the cache', async () => {
+    expect(() => storage.getRepoPath('..', '..')).toThrow('Invalid repository name');
+    expect(() => storage.getRepoPath('owner', '../other')).toThrow('Invalid repository name');
+    expect(() => storage.getMirrorPath('owner', '../../x')).toThrow('Invalid repository name');
+    expect(storage.getRepoPath('group/sub', 'project')).toBe(
+      path.resolve(baseDir, 'kb', 'repos', 'group%2Fsub', 'project')
+    );
+
+    await expect(storage.readCachedFile('..', '..', 'main/secret.txt')).resolves.toBeNull();
+    await expect(storage.readCachedFile('..', '..', '../../../main/secret.txt')).resolves.toBeNull();
+  });
+
+  it('reads cached files only from inside the repository directory', async () => {
+    const repoPath = await storage.ensureRepoDir('acme', 'docs');
+    await fs.writeFile(path.join(repoPath, 'README.md'), '# Docs');
+
+    await expect(storage.readCachedFile('acme', 'docs', 'README.md')).resolves.toBe('# Docs');
+    await expect(storage.readCachedFile('acme', 'docs', '../../../../main/secret.txt')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import path from 'path';
+import { IndexedDocument } from '../schemas/knowledge-base.js';
+
+/**
+ * MCP resource URIs for knowledge base content
+ * Documents are addressed as kb://{owner}/{repo}/{branch}/{path} and the
+ * stored MCP specification as kb://spec.
+ */
+
+export const SPEC_RESOURCE_URI = 'kb://spec';
+export const DOCUMENT_URI_TEMPLATE = 'kb://{owner}/{repo}/{branch}/{path}';
+
+export type ParsedResourceUri =
+  | { kind: 'spec' }
+  | { kind: 'document'; owner: string; repo: string; branch: string; filePath: string };
+
+/**
+ * Build the resource URI of an indexed document
+ */
+export function documentUri(doc: IndexedDocument): string {
+  const filePath = doc.filePath.split('/').map(encodeURIComponent).join('/');
+  return `kb://${encodeURIComponent(doc.repoOwner)}/${encodeURIComponent(doc.repoName)}/${encodeURIComponent(doc.branch)}/${filePath}`;
+}
+
+/**
+ * Parse a kb:// URI. Returns null if it isn't a knowledge base URI.
+ */
+export function parseResourceUri(uri: string): ParsedResourceUri | null {
+  if (uri === SPEC_RESOURCE_URI) {
+    return { kind: 'spec' };
+  }
+
+  const match = /^kb:\/\/([^/]+)\/([^/]+)\/([^/]+)\/(.+)$/.exec(uri);
+  if (!match) {
+    return null;
+  }
+
+  let parsed: Extract<ParsedResourceUri, { kind: 'document' }>;
+  try {
+    parsed = {
+      kind: 'document',
+      owner: decodeURIComponent(match[1]),
+      repo: decodeURIComponent(match[2]),
+      branch: decodeURIComponent(match[3]),
+      filePath: match[4].split('/').map(decodeURIComponent).join('/'),
+    };
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+
+  // Owners (nested GitLab groups) and branches may contain slashes, repos may not
+  const { owner, repo, branch } = parsed;
+  if (!isSafeName(owner, true) || !isSafeName(repo, false) || !isSafeName(branch, true)) {
+    return null;
+  }
+
+  return parsed;
+}
+
+/**
+ * Reject names that could walk out of a cache directory: empty, `.` or `..`
+ * segments and backslashes
+ */
+function isSafeName(name: string, allowSlash: boolean): boolean {
+  if (name.includes('\\') || (!allowSlash && name.includes('/'))) {
+    return false;
+  }
+  return name.split('/').every((segment) => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+/**
+ * Guess a MIME type from a file path
+ */
+export function mimeTypeFor(filePath: string): string {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.md':
+    case '.mdx':
+      return 'text/markdown';
+    case '.json':
+      return 'application/json';
+    case '.ts':
+    case '.tsx':
+      return 'text/x-typescript';
+    case '.js':
+    case '.mjs':
+      return 'text/javascript';
+    case '.yaml':
+    case '.yml':
+      return 'application/yaml';
+    default:
+      return 'text/plain';
+  }
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it, vi } from 'vitest';
+import { IndexedDocument } from '../schemas/knowledge-base.js';
+import { HashingEmbeddingProvider } from './embeddings.js';
+import { SearchEngine } from './search.js';
+
+function doc(filePath: string, content: string, overrides: Partial<IndexedDocument> = {}): IndexedDocument {
+  return {
+    id: `acme/docs/main/${filePath}`,
+    repoOwner: 'acme',
+    repoName: 'docs',
+    branch: 'main',
+    filePath,
+    content,
+    metadata: {
+      fileType: filePath.split('.').pop()!,
+      lastModified: '2025-01-01T00:00:00.000Z',
+      size: content.length,
+      hash: `hash-${filePath}`,
+    },
+    indexed: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+async function rank(engine: SearchEngine, query: string): Promise<string[]> {
+  return (await engine.search(query)).map((result) => result.document.filePath);
+}
+
+describe('SearchEngine keyword ranking', () => {
+  it('ranks documents with more occurrences of a term higher', async () => {
+    const engine = new SearchEngine();
+    engine.addDocuments([
+      doc('a.md', 'Transports carry messages. The stdio transport is the default transport.'),
+      doc('b.md', 'Servers expose tools. One transport is mentioned here.'),
+      doc('c.md', 'Prompts and resources, nothing else.'),
+    ]);
+
+    expect(await rank(engine, 'transport')).toEqual(['a.md', 'b.md']);
+  });
+
+  it('weights rare terms above common ones', async () => {
+    const engine = new SearchEngine();
+    engine.addDocuments([
+      doc('common.md', 'server server server setup'),
+      doc('rare.md', 'server sampling'),
+      doc('other-1.md', 'server notes'),
+      doc('other-2.md', 'server guide'),
+    ]);
+
+    const [top] = await engine.search('server sampling');
+    expect(top.document.filePath).toBe('rare.md');
+    expect(top.score).toBe(1);
+  });
+
+  it('normalizes term frequency by chunk length', async () => {
+    const engine = new SearchEngine();
+    const filler = Array.from({ length: 200 }, (_, i) => `filler${i}`).join(' ');
+    engine.addDocuments([doc('long.md', `elicitation ${filler}`), doc('short.md', 'elicitation request')]);
+
+    expect(await rank(engine, 'elicitation')).toEqual(['short.md', 'long.md']);
+  });
+
+  it('boosts matches in file paths and headings', async () => {
+    const engine = new SearchEngine();
+    engine.addDocuments([
+      doc('notes.md', 'Some text about lifecycle and other things.'),
+      doc('lifecycle.md', 'Some text about other things and the lifecycle.'),
+    ]);
+
+    expect(await rank(engine, 'lifecycle')).toEqual(['lifecycle.md', 'notes.md']);
+  });
+
+  it('returns the best matching chunk of each document once', async () => {
+    const engine = new SearchEngine();
+    engine.addDocuments([
+      doc('guide.md', '# Guide\n\n## Tools\n\nRegister tools with a schema.\n\n## Errors\n\nReturn isError results.'),
+    ]);
+
+    const results = await engine.search('isError results');
+    expect(results).toHaveLength(1);
+    expect(results[0].chunk.headings).toContain('Errors');
+  });
+
+  it('stems query and document terms', async () => {
+    const engine = new SearchEngine();
+    engine.addDocuments([doc('tools.md', 'Implementing tools for a server')]);
+
+    expect(await rank(engine, 'implement tool')).toEqual(['tools.md']);
+  });
+
+  it('drops removed documents from the index', async () => {
+    const engine = new SearchEngine();
+    engine.addDocuments([doc('a.md', 'roots capability'), doc('b.md', 'roots listing')]);
+    engine.removeDocuments(['acme/docs/main/a.md']);
+
+    expect(await rank(engine, 'roots')).toEqual(['b.md']);
+    expect(await rank(engine, 'capability')).toEqual([]);
+  });
+
+  it('applies filters before ranking', async () => {
+    const engine = new SearchEngine();
+    engine.addDocuments([doc('a.md', 'pagination cursor'), doc('b.json', '{"pagination": "cursor"}')]);
+
+    const results = await engine.search('pagination', { filters: { fileType: ['json'] } });
+    expect(results.map((r) => r.document.filePath)).toEqual(['b.json']);
+  });
+});
+
+describe('SearchEngine.enforceSizeLimit', () => {
+  it('evicts the oldest documents and records them in the repository state', () => {
+    const engine = new SearchEngine();
+    engine.addDocuments([
+      doc('old.md', 'x'.repeat(100), { indexed: '2025-01-01T00:00:00.000Z' }),
+      doc('new.md', 'y'.repeat(100), { indexed: '2025-02-01T00:00:00.000Z' }),
+    ]);
+    engine.setRepoState('acme', 'docs', {
+      owner: 'acme',
+      repo: 'docs',
+      branch: 'main',
+      treeSha: 'tree',
+      includePatterns: ['**/*.md'],
+      excludePatterns: [],
+      lastSynced: '2025-02-01T00:00:00.000Z',
+    });
+
+    expect(engine.enforceSizeLimit(150)).toBe(1);
+    expect(engine.getAllDocuments().map((d) => d.filePath)).toEqual(['new.md']);
+    expect(engine.getRepoState('acme', 'docs')?.evicted).toEqual({ 'old.md': 'hash-old.md' });
+
+    engine.forgetEvictions();
+    expect(engine.getRepoState('acme', 'docs')).toBeUndefined();
+  });
+});
+
+describe('SearchEngine embeddings', () => {
+  it('embeds only chunks indexed since the last update', async () => {
+    const provider = new HashingEmbeddingProvider(64);
+    const embed = vi.spyOn(provider, 'embed');
+    const engine = new SearchEngine(provider);
+    engine.addDocuments([doc('a.md', 'roots capability'), doc('b.md', 'sampling requests')]);
+
+    expect(await rank(engine, 'roots')).toEqual(['a.md']);
+    expect(await engine.search('roots', { mode: 'semantic' })).toHaveLength(1);
+    await engine.search('sampling', { mode: 'hybrid' });
+    // Two chunks once, then only the query of each search
+    expect(embed.mock.calls.map(([texts]) => texts.length)).toEqual([2, 1, 1]);
+
+    embed.mockClear();
+    const next = engine.clone();
+    next.addDocuments([doc('c.md', 'elicitation')]);
+    next.removeDocuments(['acme/docs/main/a.md']);
+    expect(await next.updateEmbeddings()).toBe(1);
+    expect(await engine.updateEmbeddings()).toBe(0);
+
+    const results = await next.search('roots elicitation', { mode: 'semantic' });
+    expect(results[0].document.filePath).toBe('c.md');
+    expect(results.map((r) => r.document.filePath)).not.toContain('a.md');
+  });
+
+  it('restores persisted vectors of indexed chunks only', async () => {
+    const provider = new HashingEmbeddingProvider(64);
+    const source = new SearchEngine(provider);
+    source.addDocuments([doc('a.md', 'roots capability'), doc('b.md', 'sampling requests')]);
+    await source.updateEmbeddings();
+
+    const engine = new SearchEngine(provider);
+    engine.addDocuments([doc('a.md', 'roots capability')]);
+    engine.loadVectors(source.exportVectors()!);
+    expect(engine.exportVectors()!.vectors.map((v) => v.id)).toEqual(
+      source.exportVectors()!.vectors.map((v) => v.id).filter((id) => id.includes('a.md'))
+    );
+    expect(await engine.updateEmbeddings()).toBe(0);
+  });
+});
@@ -1,56 +1,404 @@
-import { IndexedDocument, SearchResult } from '../schemas/knowledge-base.js';
+import {
+  DocumentChunk,
+  IndexedDocument,
+  PersistedVectorIndex,
+  RepoSyncState,
+  RepositoryType,
+  SearchFilters,
+  SearchMode,
+  SearchResult,
+} from '../schemas/knowledge-base.js';
+import { chunkDocument } from './chunker.js';
+import { EmbeddingProvider } from './embeddings.js';
+import { matchGlob } from './glob.js';
+import { tokenize, tokenizeWithOffsets } from './tokenizer.js';
+import { VectorIndex } from './vector-index.js';
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Extra term frequency weight for matches in file paths and section headings
+const PATH_BOOST = 3;
+const HEADING_BOOST = 2;
+
+// Reciprocal rank fusion constant for hybrid search
+const RRF_K = 60;
+
+export interface SearchOptions {
+  maxResults?: number;
+  mode?: SearchMode;
+  filters?: SearchFilters;
+  /** Additional predicate for documents that must never be returned */
+  exclude?: (doc: IndexedDocument) => boolean;
+}
 
 /**
- * Simple keyword-based search engine
- * MVP implementation - can be upgraded to vector search (txtai/FAISS) later
+ * Search engine with BM25 keyword ranking over an inverted index and
+ * optional embedding-based semantic ranking.
+ * Documents are indexed as heading-delimited chunks; each result points at
+ * the best matching chunk of a document.
  */
 export class SearchEngine {
   private documents: Map<string, IndexedDocument> = new Map();
+  private repoStates: Map<string, RepoSyncState> = new Map();
+
+  private chunks: Map<string, DocumentChunk> = new Map();
+  // document ID -> IDs of its chunks
+  private documentChunks: Map<string, string[]> = new Map();
+
+  // term -> (chunk ID -> weighted term frequency)
+  private postings: Map<string, Map<string, number>> = new Map();
+  // chunk ID -> number of indexed terms
+  private chunkLengths: Map<string, number> = new Map();
+  private totalLength = 0;
+
+  private vectorIndex: VectorIndex | null;
+  // IDs of chunks indexed since embeddings were last updated
+  private unembedded: Set<string> = new Set();
+
+  constructor(embeddingProvider?: EmbeddingProvider) {
+    this.vectorIndex = embeddingProvider ? new VectorIndex(embeddingProvider) : null;
+  }
 
   /**
    * Add documents to the index
    */
   addDocuments(documents: IndexedDocument[]): void {
     for (const doc of documents) {
+      this.unindexDocument(doc.id);
       this.documents.set(doc.id, doc);
+      this.indexDocument(doc);
     }
     console.error(`Indexed ${documents.length} documents. Total: ${this.documents.size}`);
   }
 
   /**
-   * Search documents by keyword
+   * Remove documents from the index by ID
    */
-  search(query: string, maxResults: number = 10): SearchResult[] {
-    const queryLower = query.toLowerCase();
-    const results: SearchResult[] = [];
+  removeDocuments(ids: string[]): void {
+    for (const id of ids) {
+      this.unindexDocument(id);
+      this.documents.delete(id);
+    }
+  }
 
-    for (const doc of this.documents.values()) {
-      const contentLower = doc.content.toLowerCase();
-
-      // Simple keyword match
-      if (contentLower.includes(queryLower)) {
-        // Calculate simple relevance score based on term frequency
-        const matches = contentLower.split(queryLower).length - 1;
-        const score = Math.min(matches / 10, 1.0); // Normalize to 0-1
-
-        // Extract snippet around first match
-        const firstMatchIndex = contentLower.indexOf(queryLower);
-        const snippetStart = Math.max(0, firstMatchIndex - 100);
-        const snippetEnd = Math.min(doc.content.length, firstMatchIndex + 200);
-        const snippet = doc.content.slice(snippetStart, snippetEnd);
-
-        results.push({
-          document: doc,
-          score,
-          snippet: `...${snippet}...`,
-        });
+  /**
+   * Compute embeddings for chunks added or changed since the last call.
+   * Returns the number of chunks embedded.
+   */
+  async updateEmbeddings(): Promise<number> {
+    if (!this.vectorIndex || this.unembedded.size === 0) return 0;
+
+    const chunks = Array.from(this.unembedded, (id) => this.chunks.get(id)!);
+    this.unembedded.clear();
+    try {
+      return await this.vectorIndex.update(
+        chunks.map((chunk) => ({
+          id: chunk.id,
+          hash: this.documents.get(chunk.documentId)!.metadata.hash,
+          text: `${chunk.headings.join(' ')}\n${chunk.content}`,
+        }))
+      );
+    } catch (error) {
+      // Retry the chunks that are still indexed next time
+      for (const chunk of chunks) {
+        if (this.chunks.get(chunk.id) === chunk) this.unembedded.add(chunk.id);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Restore persisted embeddings of the indexed chunks
+   */
+  loadVectors(index: PersistedVectorIndex): void {
+    this.vectorIndex?.load({ ...index, vectors: index.vectors.filter((v) => this.chunks.has(v.id)) });
+  }
+
+  /**
+   * Export embeddings for persistence, or null if semantic search is disabled
+   */
+  exportVectors(): PersistedVectorIndex | null {
+    return this.vectorIndex ? this.vectorIndex.toJSON() : null;
+  }
+
+  /**
+   * Record the source category of every document in a repository
+   */
+  setSourceType(owner: string, repo: string, sourceType: RepositoryType): void {
+    for (const doc of this.getRepoDocuments(owner, repo)) {
+      // Replaced rather than changed, as documents may be shared with a clone
+      this.documents.set(doc.id, { ...doc, sourceType });
+    }
+  }
+
+  /**
+   * Get all indexed documents belonging to a repository
+   */
+  getRepoDocuments(owner: string, repo: string): IndexedDocument[] {
+    return this.getAllDocuments().filter(
+      (doc) => doc.repoOwner === owner && doc.repoName === repo
+    );
+  }
+
+  /**
+   * Get the recorded sync state (tree SHA) for a repository
+   */
+  getRepoState(owner: string, repo: string): RepoSyncState | undefined {
+    return this.repoStates.get(`${owner}/${repo}`);
+  }
+
+  /**
+   * Record or reset the sync state for a repository
+   */
+  setRepoState(owner: string, repo: string, state: RepoSyncState | undefined): void {
+    const key = `${owner}/${repo}`;
+    if (state) {
+      this.repoStates.set(key, state);
+    } else {
+      this.repoStates.delete(key);
+    }
+  }
+
+  /**
+   * Forget which files were evicted for size, and the sync state of their
+   * repositories so the next sync fetches them again (e.g. after the limit grew)
+   */
+  forgetEvictions(): void {
+    for (const [key, state] of this.repoStates) {
+      if (state.evicted) {
+        this.repoStates.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Get sync states for all repositories (used to persist the index)
+   */
+  getAllRepoStates(): RepoSyncState[] {
+    return Array.from(this.repoStates.values());
+  }
+
+  /**
+   * Search documents.
+   * keyword mode ranks with BM25, semantic mode by embedding similarity, and
+   * hybrid mode fuses both ranked lists with reciprocal rank fusion.
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const maxResults = options.maxResults ?? 10;
+    const mode = options.mode ?? 'keyword';
+
+    if (mode !== 'keyword' && !this.vectorIndex) {
+      throw new Error(`Search mode "${mode}" requires an embedding provider`);
+    }
+
+    // Chunks of documents excluded by the filters are never ranked
+    const { filters, exclude } = options;
+    const allowed = filters || exclude
+      ? (chunkId: string) => {
+          const chunk = this.chunks.get(chunkId);
+          if (!chunk) return false;
+
+          const doc = this.documents.get(chunk.documentId)!;
+          return (!filters || matchesFilters(doc, filters)) && !exclude?.(doc);
+        }
+      : () => true;
+
+    // Rank chunks, fetching extra candidates since several may share a document
+    const depth = Math.max(maxResults * 5, 50);
+    let ranked: Array<[string, number]>;
+    if (mode === 'keyword') {
+      ranked = this.rankKeyword(query, allowed);
+    } else {
+      // Only chunks indexed since the last update are embedded
+      await this.updateEmbeddings();
+      const semantic = await this.vectorIndex!.search(query, depth, allowed);
+
+      ranked = mode === 'semantic'
+        ? semantic
+        : fuseRankings([this.rankKeyword(query, allowed).slice(0, depth), semantic]);
+    }
+
+    // Keep only the best chunk of each document
+    const best: Array<[DocumentChunk, number]> = [];
+    const seenDocuments = new Set<string>();
+    for (const [chunkId, score] of ranked) {
+      const chunk = this.chunks.get(chunkId);
+      if (!chunk || seenDocuments.has(chunk.documentId)) continue;
+
+      seenDocuments.add(chunk.documentId);
+      best.push([chunk, score]);
+      if (best.length >= maxResults) break;
+    }
+
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const topScore = best[0]?.[1] || 1;
+
+    return best.map(([chunk, score]) => ({
+      document: this.documents.get(chunk.documentId)!,
+      chunk,
+      score: Math.round((score / topScore) * 1000) / 1000, // Normalize to 0-1
+      snippet: this.buildSnippet(chunk.content, queryTerms),
+    }));
+  }
+
+  /**
+   * Rank chunks containing any query term with BM25
+   */
+  private rankKeyword(query: string, allowed: (chunkId: string) => boolean): Array<[string, number]> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.chunks.size === 0) {
+      return [];
+    }
+
+    const chunkCount = this.chunks.size;
+    const avgLength = this.totalLength / chunkCount || 1;
+    const scores = new Map<string, number>();
+
+    // Only chunks containing at least one query term are scored
+    for (const term of queryTerms) {
+      const termPostings = this.postings.get(term);
+      if (!termPostings) continue;
+
+      const idf = Math.log(1 + (chunkCount - termPostings.size + 0.5) / (termPostings.size + 0.5));
+
+      for (const [chunkId, tf] of termPostings) {
+        if (!allowed(chunkId)) continue;
+
+        const length = this.chunkLengths.get(chunkId) || 0;
+        const norm = tf * (BM25_K1 + 1) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * (length / avgLength)));
+        scores.set(chunkId, (scores.get(chunkId) || 0) + idf * norm);
+      }
+    }
+
+    return Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+  }
+
+  /**
+   * Split a document into chunks and add their terms to the inverted index
+   */
+  private indexDocument(doc: IndexedDocument): void {
+    const pathTerms = tokenize(doc.filePath);
+    const chunkIds: string[] = [];
+
+    for (const chunk of chunkDocument(doc)) {
+      const termFrequencies = new Map<string, number>();
+      const addTerms = (terms: string[], weight: number) => {
+        for (const term of terms) {
+          termFrequencies.set(term, (termFrequencies.get(term) || 0) + weight);
+        }
+      };
+
+      const contentTerms = tokenize(chunk.content);
+      addTerms(contentTerms, 1);
+      addTerms(pathTerms, PATH_BOOST);
+      // Section path, minus the file name already covered by the path
+      addTerms(tokenize(chunk.headings.slice(1).join('\n')), HEADING_BOOST);
+
+      for (const [term, tf] of termFrequencies) {
+        let termPostings = this.postings.get(term);
+        if (!termPostings) {
+          termPostings = new Map();
+          this.postings.set(term, termPostings);
+        }
+        termPostings.set(chunk.id, tf);
       }
+
+      this.chunks.set(chunk.id, chunk);
+      if (this.vectorIndex) this.unembedded.add(chunk.id);
+      this.chunkLengths.set(chunk.id, contentTerms.length);
+      this.totalLength += contentTerms.length;
+      chunkIds.push(chunk.id);
+    }
+
+    this.documentChunks.set(doc.id, chunkIds);
+  }
+
+  /**
+   * Remove a document's chunks from the inverted index
+   */
+  private unindexDocument(id: string): void {
+    const doc = this.documents.get(id);
+    const chunkIds = this.documentChunks.get(id);
+    if (!doc || !chunkIds) return;
+
+    const pathTerms = tokenize(doc.filePath);
+
+    for (const chunkId of chunkIds) {
+      const chunk = this.chunks.get(chunkId)!;
+      const terms = new Set([
+        ...tokenize(chunk.content),
+        ...tokenize(chunk.headings.slice(1).join('\n')),
+        ...pathTerms,
+      ]);
+      for (const term of terms) {
+        const termPostings = this.postings.get(term);
+        if (!termPostings) continue;
+
+        termPostings.delete(chunkId);
+        if (termPostings.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+
+      this.totalLength -= this.chunkLengths.get(chunkId) || 0;
+      this.chunkLengths.delete(chunkId);
+      this.chunks.delete(chunkId);
+      this.unembedded.delete(chunkId);
     }
 
-    // Sort by score (descending) and limit results
-    return results
-      .sort((a, b) => b.score - a.score)
-      .slice(0, maxResults);
+    this.vectorIndex?.remove(chunkIds);
+    this.documentChunks.delete(id);
+  }
+
+  /**
+   * Extract a snippet around the densest cluster of query term matches
+   */
+  private buildSnippet(content: string, queryTerms: string[]): string {
+    const wanted = new Set(queryTerms);
+    const matches = tokenizeWithOffsets(content).filter((token) => wanted.has(token.term));
+    if (matches.length === 0) {
+      return `${content.slice(0, 300)}${content.length > 300 ? '...' : ''}`;
+    }
+
+    // Slide a 200-char window over the matches, keeping the one with the most distinct terms
+    let best = matches[0];
+    let bestCount = 0;
+    const windowCounts = new Map<string, number>();
+    let end = 0;
+    for (let start = 0; start < matches.length; start++) {
+      while (end < matches.length && matches[end].start < matches[start].start + 200) {
+        windowCounts.set(matches[end].term, (windowCounts.get(matches[end].term) || 0) + 1);
+        end++;
+      }
+      if (windowCounts.size > bestCount) {
+        best = matches[start];
+        bestCount = windowCounts.size;
+      }
+
+      const count = windowCounts.get(matches[start].term)! - 1;
+      if (count === 0) {
+        windowCounts.delete(matches[start].term);
+      } else {
+        windowCounts.set(matches[start].term, count);
+      }
+    }
+
+    // Snap the window to line boundaries so snippets don't start or end mid-line
+    let snippetStart = Math.max(0, best.start - 100);
+    let snippetEnd = Math.min(content.length, best.start + 200);
+    const lineStart = content.lastIndexOf('\n', best.start);
+    if (lineStart + 1 >= snippetStart - 100) {
+      snippetStart = Math.max(lineStart + 1, 0);
+    }
+    const lineEnd = content.indexOf('\n', snippetEnd);
+    if (lineEnd === -1 || lineEnd - snippetEnd <= 100) {
+      snippetEnd = lineEnd === -1 ? content.length : lineEnd;
+    }
+    const snippet = content.slice(snippetStart, snippetEnd).trim();
+
+    return `${snippetStart > 0 ? '...' : ''}${snippet}${snippetEnd < content.length ? '...' : ''}`;
   }
 
   /**
@@ -81,20 +429,83 @@ export class SearchEngine {
   /**
    * List all indexed repositories
    */
-  listRepositories(): Array<{ owner: string; repo: string; fileCount: number }> {
-    const repoMap = new Map<string, number>();
+  listRepositories(): Array<{
+    owner: string;
+    repo: string;
+    type?: RepositoryType;
+    fileCount: number;
+  }> {
+    const repoMap = new Map<string, { type?: RepositoryType; count: number }>();
 
     for (const doc of this.documents.values()) {
       const key = `${doc.repoOwner}/${doc.repoName}`;
-      repoMap.set(key, (repoMap.get(key) || 0) + 1);
+      const entry = repoMap.get(key) || { type: doc.sourceType, count: 0 };
+      entry.count++;
+      repoMap.set(key, entry);
     }
 
-    return Array.from(repoMap.entries()).map(([repo, count]) => {
+    return Array.from(repoMap.entries()).map(([repo, { type, count }]) => {
       const [owner, name] = repo.split('/');
-      return { owner, repo: name, fileCount: count };
+      return { owner, repo: name, type, fileCount: count };
     });
   }
 
+  /**
+   * Get all indexed documents (used to persist the index)
+   */
+  getAllDocuments(): IndexedDocument[] {
+    return Array.from(this.documents.values());
+  }
+
+  /**
+   * Approximate size of the index in bytes, based on document content
+   */
+  getIndexSizeBytes(): number {
+    let total = 0;
+    for (const doc of this.documents.values()) {
+      total += Buffer.byteLength(doc.content, 'utf-8');
+    }
+    return total;
+  }
+
+  /**
+   * Evict least recently indexed documents until the index fits in maxBytes.
+   * Evicted files are recorded in their repository's sync state.
+   * Returns the number of documents removed.
+   */
+  enforceSizeLimit(maxBytes: number): number {
+    let size = this.getIndexSizeBytes();
+    if (size <= maxBytes) return 0;
+
+    const byAge = this.getAllDocuments().sort((a, b) => a.indexed.localeCompare(b.indexed));
+    const evicted = new Map<string, IndexedDocument[]>();
+    let removed = 0;
+
+    for (const doc of byAge) {
+      if (size <= maxBytes) break;
+      size -= Buffer.byteLength(doc.content, 'utf-8');
+      this.removeDocuments([doc.id]);
+      const key = `${doc.repoOwner}/${doc.repoName}`;
+      evicted.set(key, [...(evicted.get(key) ?? []), doc]);
+      removed++;
+    }
+
+    // Record the evictions in the repo states: an unchanged tree is skipped by
+    // the next sync, and a changed one must not fetch these files straight back
+    for (const [key, docs] of evicted) {
+      const state = this.repoStates.get(key);
+      if (!state) continue;
+
+      const paths = { ...state.evicted };
+      for (const doc of docs.filter((d) => d.branch === state.branch)) {
+        paths[doc.filePath] = doc.metadata.hash;
+      }
+      this.repoStates.set(key, { ...state, evicted: paths });
+    }
+
+    return removed;
+  }
+
   /**
    * Get a specific document by ID
    */
@@ -102,10 +513,86 @@ export class SearchEngine {
     return this.documents.get(id);
   }
 
+  /**
+   * Copy of the index that can be updated without affecting this one, e.g. to
+   * build the next index generation while this one keeps serving searches.
+   * Documents and chunks are shared: they are replaced, never changed in place.
+   */
+  clone(): SearchEngine {
+    const copy = new SearchEngine();
+    copy.documents = new Map(this.documents);
+    copy.repoStates = new Map(this.repoStates);
+    copy.chunks = new Map(this.chunks);
+    copy.documentChunks = new Map(this.documentChunks);
+    copy.postings = new Map(
+      Array.from(this.postings, ([term, termPostings]) => [term, new Map(termPostings)])
+    );
+    copy.chunkLengths = new Map(this.chunkLengths);
+    copy.totalLength = this.totalLength;
+    copy.vectorIndex = this.vectorIndex?.clone() ?? null;
+    copy.unembedded = new Set(this.unembedded);
+    return copy;
+  }
+
   /**
    * Clear all indexed documents
    */
   clear(): void {
     this.documents.clear();
+    this.repoStates.clear();
+    this.chunks.clear();
+    this.documentChunks.clear();
+    this.postings.clear();
+    this.chunkLengths.clear();
+    this.totalLength = 0;
+    this.vectorIndex?.clear();
+    this.unembedded.clear();
+  }
+}
+
+/**
+ * Check a document against search filters
+ */
+function matchesFilters(doc: IndexedDocument, filters: SearchFilters): boolean {
+  if (filters.owner && doc.repoOwner !== filters.owner) return false;
+
+  if (filters.repo) {
+    const repoName = filters.repo.includes('/')
+      ? `${doc.repoOwner}/${doc.repoName}`
+      : doc.repoName;
+    if (repoName !== filters.repo) return false;
+  }
+
+  if (filters.repoType && !filters.repoType.includes(doc.sourceType ?? 'user')) return false;
+
+  if (filters.fileType) {
+    const fileTypes = filters.fileType.map((type) => type.replace(/^\./, '').toLowerCase());
+    if (!fileTypes.includes(doc.metadata.fileType.toLowerCase())) return false;
+  }
+
+  if (filters.pathGlob && !matchGlob(doc.filePath, filters.pathGlob)) return false;
+
+  const inRange = (value: string, after?: string, before?: string) => {
+    const time = Date.parse(value);
+    if (after && time < Date.parse(after)) return false;
+    if (before && time > Date.parse(before)) return false;
+    return true;
+  };
+  if (!inRange(doc.indexed, filters.indexedAfter, filters.indexedBefore)) return false;
+  if (!inRange(doc.metadata.lastModified, filters.modifiedAfter, filters.modifiedBefore)) return false;
+
+  return true;
+}
+
+/**
+ * Combine ranked lists with reciprocal rank fusion
+ */
+function fuseRankings(rankings: Array<Array<[string, number]>>): Array<[string, number]> {
+  const fused = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach(([id], rank) => {
+      fused.set(id, (fused.get(id) || 0) + 1 / (RRF_K + rank + 1));
+    });
   }
+  return Array.from(fused.entries()).sort((a, b) => b[1] - a[1]);
 }
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { compareVersions, isValidRange, parseVersion, satisfies } from './semver.js';
+
+describe('parseVersion', () => {
+  it('parses release and prerelease versions', () => {
+    expect(parseVersion('1.4.2')).toEqual({ major: 1, minor: 4, patch: 2, prerelease: [] });
+    expect(parseVersion('v2.0.0-beta.1+build.5')).toEqual({
+      major: 2,
+      minor: 0,
+      patch: 0,
+      prerelease: ['beta', '1'],
+    });
+  });
+
+  it('rejects partial and malformed versions', () => {
+    expect(parseVersion('1.2')).toBeNull();
+    expect(parseVersion('latest')).toBeNull();
+  });
+});
+
+describe('compareVersions', () => {
+  const compare = (a: string, b: string) => compareVersions(parseVersion(a)!, parseVersion(b)!);
+
+  it('orders by major, minor and patch', () => {
+    expect(compare('1.2.3', '1.2.4')).toBe(-1);
+    expect(compare('1.10.0', '1.9.9')).toBe(1);
+    expect(compare('2.0.0', '2.0.0')).toBe(0);
+  });
+
+  it('sorts prereleases before their release', () => {
+    expect(compare('1.0.0-alpha', '1.0.0')).toBe(-1);
+    expect(compare('1.0.0-alpha', '1.0.0-alpha.1')).toBe(-1);
+    expect(compare('1.0.0-alpha.2', '1.0.0-alpha.10')).toBe(-1);
+    expect(compare('1.0.0-1', '1.0.0-alpha')).toBe(-1);
+  });
+});
+
+describe('satisfies', () => {
+  it.each([
+    ['1.2.3', '1.2.3', true],
+    ['1.2.4', '=1.2.3', false],
+    ['1.5.0', '^1.2.3', true],
+    ['2.0.0', '^1.2.3', false],
+    ['0.2.5', '^0.2.3', true],
+    ['0.3.0', '^0.2.3', false],
+    ['0.0.4', '^0.0.3', false],
+    ['1.2.9', '~1.2.3', true],
+    ['1.3.0', '~1.2.3', false],
+    ['1.9.0', '1.x', true],
+    ['2.0.0', '1.x', false],
+    ['1.2.7', '1.2.*', true],
+    ['5.0.0', '*', true],
+    ['1.1.0', '1.0.0 - 1.2.0', true],
+    ['1.2.1', '1.0.0 - 1.2.0', false],
+    ['1.4.0', '>=1.2.0 <1.5.0', true],
+    ['1.5.0', '>= 1.2.0 < 1.5.0', false],
+    ['3.1.0', '<1.0.0 || >=3.0.0', true],
+    ['2.0.0', '<1.0.0 || >=3.0.0', false],
+    ['1.9.9', '<=1.x', true],
+    ['1.3.0', '>1.2', true],
+    ['1.2.9', '>1.2', false],
+  ])('%s in %s is %s', (version, range, expected) => {
+    expect(satisfies(version, range)).toBe(expected);
+  });
+
+  it('only matches prereleases against prerelease bounds in order', () => {
+    expect(satisfies('2.0.0-beta.1', '<2.0.0')).toBe(true);
+    expect(satisfies('2.0.0-beta.1', '^1.0.0')).toBe(false);
+  });
+
+  it('never matches invalid versions or ranges', () => {
+    expect(satisfies('not-a-version', '*')).toBe(false);
+    expect(satisfies('1.0.0', '>=banana')).toBe(false);
+    expect(isValidRange('>=banana')).toBe(false);
+    expect(isValidRange('^1.2 || 3.x')).toBe(true);
+  });
+});
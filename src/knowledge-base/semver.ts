@@ -0,0 +1,202 @@
+/**
+ * Minimal semver parsing and range matching for server blocklist entries
+ * Supports comparators (<, <=, >, >=, =), caret (^1.2.3), tilde (~1.2.3),
+ * x-ranges (1.x, 1.2.*, *), hyphen ranges (1.0.0 - 1.2.0), whitespace for
+ * AND and || for OR.
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+interface Comparator {
+  operator: Operator;
+  version: SemVer;
+}
+
+// Each inner array is an AND-set; the range matches if any set does
+type Range = Comparator[][];
+
+const VERSION_RE = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_RE = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a full version like "1.4.2" or "2.0.0-beta.1". Returns null if invalid.
+ */
+export function parseVersion(text: string): SemVer | null {
+  const match = VERSION_RE.exec(text.trim());
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+export function compareVersions(a: SemVer, b: SemVer): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) return Math.sign(core);
+
+  // A release sorts after its prereleases
+  if (a.prerelease.length === 0 && b.prerelease.length === 0) return 0;
+  if (a.prerelease.length === 0) return 1;
+  if (b.prerelease.length === 0) return -1;
+
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const x = a.prerelease[i];
+    const y = b.prerelease[i];
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    if (x === y) continue;
+
+    const xNum = /^\d+$/.test(x);
+    const yNum = /^\d+$/.test(y);
+    if (xNum && yNum) return Math.sign(Number(x) - Number(y));
+    if (xNum) return -1;
+    if (yNum) return 1;
+    return x < y ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Whether a range string can be parsed
+ */
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Check a version against a range. Invalid input never satisfies.
+ */
+export function satisfies(version: string | SemVer, range: string): boolean {
+  const parsed = typeof version === 'string' ? parseVersion(version) : version;
+  const sets = parseRange(range);
+  if (!parsed || !sets) return false;
+
+  return sets.some((set) => set.every((c) => test(parsed, c)));
+}
+
+function test(version: SemVer, comparator: Comparator): boolean {
+  const cmp = compareVersions(version, comparator.version);
+  switch (comparator.operator) {
+    case '<':
+      return cmp < 0;
+    case '<=':
+      return cmp <= 0;
+    case '>':
+      return cmp > 0;
+    case '>=':
+      return cmp >= 0;
+    case '=':
+      return cmp === 0;
+  }
+}
+
+function parseRange(range: string): Range | null {
+  const sets: Range = [];
+
+  for (const part of range.split('||')) {
+    const set = parseComparatorSet(part.trim());
+    if (!set) return null;
+    sets.push(set);
+  }
+  return sets;
+}
+
+function parseComparatorSet(text: string): Comparator[] | null {
+  if (text === '' || text === '*' || text.toLowerCase() === 'x') return [];
+
+  const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(text);
+  if (hyphen) {
+    const from = expand('>=', hyphen[1]);
+    const to = expand('<=', hyphen[2]);
+    return from && to ? [...from, ...to] : null;
+  }
+
+  const comparators: Comparator[] = [];
+  // Allow "< 1.2.3" as well as "<1.2.3"
+  const tokens = text.replace(/(<=|>=|<|>|=|\^|~)\s+/g, '$1').split(/\s+/);
+  for (const token of tokens) {
+    const match = /^(<=|>=|<|>|=|\^|~)?(.+)$/.exec(token);
+    if (!match) return null;
+    const expanded = expand((match[1] || '=') as Operator | '^' | '~', match[2]);
+    if (!expanded) return null;
+    comparators.push(...expanded);
+  }
+  return comparators;
+}
+
+/**
+ * Turn one operator plus a possibly partial version into plain comparators
+ */
+function expand(operator: Operator | '^' | '~', text: string): Comparator[] | null {
+  const match = PARTIAL_RE.exec(text);
+  if (!match) return null;
+
+  const wild = (part?: string) => part === undefined || /^[xX*]$/.test(part);
+  const major = wild(match[1]) ? null : Number(match[1]);
+  const minor = major === null || wild(match[2]) ? null : Number(match[2]);
+  const patch = minor === null || wild(match[3]) ? null : Number(match[3]);
+  const prerelease = patch !== null && match[4] ? match[4].split('.') : [];
+
+  const v = (maj: number, min = 0, pat = 0, pre: string[] = []): SemVer => ({
+    major: maj,
+    minor: min,
+    patch: pat,
+    prerelease: pre,
+  });
+
+  if (major === null) {
+    // "*" style: anything, except that "<*" matches nothing
+    return operator === '<' || operator === '>' ? [{ operator: '<', version: v(0, 0, 0, ['0']) }] : [];
+  }
+
+  const lower = v(major, minor ?? 0, patch ?? 0, prerelease);
+  // Exclusive upper bound of a partial version, e.g. 1.2 -> 1.3.0-0
+  const partialUpper =
+    minor === null ? v(major + 1, 0, 0, ['0']) : patch === null ? v(major, minor + 1, 0, ['0']) : null;
+
+  switch (operator) {
+    case '^': {
+      const upper =
+        major > 0 || minor === null
+          ? v(major + 1, 0, 0, ['0'])
+          : minor > 0 || patch === null
+            ? v(0, minor + 1, 0, ['0'])
+            : v(0, 0, patch + 1, ['0']);
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upper },
+      ];
+    }
+    case '~': {
+      const upper = minor === null ? v(major + 1, 0, 0, ['0']) : v(major, minor + 1, 0, ['0']);
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upper },
+      ];
+    }
+    case '=':
+      return partialUpper
+        ? [
+            { operator: '>=', version: lower },
+            { operator: '<', version: partialUpper },
+          ]
+        : [{ operator: '=', version: lower }];
+    case '<':
+      return [{ operator: '<', version: partialUpper ? v(lower.major, lower.minor, 0, ['0']) : lower }];
+    case '<=':
+      return [partialUpper ? { operator: '<', version: partialUpper } : { operator: '<=', version: lower }];
+    case '>':
+      return [partialUpper ? { operator: '>=', version: partialUpper } : { operator: '>', version: lower }];
+    case '>=':
+      return [{ operator: '>=', version: lower }];
+  }
+}
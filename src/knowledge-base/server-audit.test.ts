@@ -0,0 +1,136 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BlocklistEntry, MCPSpecification } from '../schemas/knowledge-base.js';
+import { AuditContext, auditServerProject } from './server-audit.js';
+
+const SPEC: MCPSpecification = {
+  version: '2025-03-26',
+  lastUpdated: '2025-03-26T00:00:00.000Z',
+  capabilities: {},
+  transports: [
+    { name: 'stdio', status: 'current', useCases: [] },
+    { name: 'streamable-http', status: 'current', useCases: [] },
+    { name: 'http+sse', status: 'deprecated', useCases: [] },
+  ],
+  lifecycle: { initialization: '', shutdown: '' },
+  bestPractices: [],
+  commonPatterns: [],
+};
+
+const EVIL: BlocklistEntry = {
+  timestamp: '2025-01-01T00:00:00.000Z',
+  type: 'server',
+  serverName: '@evil/pkg',
+  reason: 'exfiltrates tokens',
+  hash: 'sha256:evil',
+  allowOverride: false,
+  source: 'user',
+};
+
+const CONTEXT: AuditContext = { spec: SPEC, blockEntries: [EVIL] };
+
+describe('auditServerProject', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kb-audit-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function write(files: Record<string, string>): Promise<void> {
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+      await fs.writeFile(path.join(dir, file), content);
+    }
+  }
+
+  it('reports a clean project without findings', async () => {
+    await write({
+      'package.json': JSON.stringify({ dependencies: { '@modelcontextprotocol/sdk': '^1.10.0', zod: '^3.0.0' } }),
+      'src/index.ts': [
+        "import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';",
+        "server.tool('echo', 'Echo text', { text: z.string() }, async ({ text }) => {",
+        "  if (!text) return { isError: true, content: [] };",
+        "  return { content: [{ type: 'text', text }] };",
+        '});',
+      ].join('\n'),
+    });
+
+    const report = await auditServerProject(dir, CONTEXT);
+    expect(report).toEqual({ directory: dir, filesScanned: 2, transports: ['streamable-http'], findings: [] });
+  });
+
+  it('flags stdout logging, missing schemas, deprecated transports and blocklisted servers', async () => {
+    await write({
+      'package.json': JSON.stringify(
+        { dependencies: { '@modelcontextprotocol/sdk': '^1.0.0', '@evil/pkg': '^1.0.0' } },
+        null,
+        2
+      ),
+      '.mcp.json': JSON.stringify({ mcpServers: { evil: { command: 'npx', args: ['-y', '@evil/pkg'] } } }),
+      'src/index.ts': [
+        "import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';",
+        "import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';",
+        '',
+        "server.tool('echo', async () => ({ content: [] }));",
+        "// console.log('commented out');",
+        "console.log('started');",
+      ].join('\n'),
+      'src/types.d.ts': "console.log('declarations are skipped');",
+      'node_modules/dep/index.js': "console.log('dependencies are skipped');",
+    });
+
+    const report = await auditServerProject(dir, CONTEXT);
+
+    expect(report.filesScanned).toBe(3);
+    expect(report.transports).toEqual(['stdio', 'http+sse']);
+    expect(report.findings.map((f) => [f.severity, f.rule, f.file, f.line])).toEqual([
+      ['error', 'blocklisted-dependency', '.mcp.json', 1],
+      ['error', 'blocklisted-dependency', 'package.json', 4],
+      ['error', 'tool-input-schema', 'src/index.ts', 4],
+      ['error', 'stdout-logging', 'src/index.ts', 6],
+      ['warning', 'deprecated-transport', 'src/index.ts', 2],
+      ['warning', 'runtime-validation', 'src/index.ts', 4],
+      ['warning', 'tool-error-result', 'src/index.ts', 4],
+    ]);
+    expect(report.findings[1].message).toBe('Dependency @evil/pkg@^1.0.0 is blocklisted: exfiltrates tokens');
+    expect(report.findings[4].message).toContain('Use stdio or streamable-http');
+  });
+
+  it('checks tools listed by a low-level server for an inputSchema', async () => {
+    await write({
+      'package.json': JSON.stringify({ dependencies: { ajv: '^8.0.0' } }),
+      'server.js': [
+        'server.setRequestHandler(ListToolsRequestSchema, async () => ({',
+        '  tools: [',
+        "    { name: 'search', description: 'Search', inputSchema: { type: 'object' } },",
+        "    { name: 'delete', description: 'Delete everything' },",
+        '  ],',
+        '}));',
+        "const prompt = { name: 'summary', description: 'Summarize', arguments: [] };",
+        'server.setRequestHandler(CallToolRequestSchema, async () => ({ isError: true, content: [] }));',
+      ].join('\n'),
+    });
+
+    const { findings } = await auditServerProject(dir, CONTEXT);
+    expect(findings).toEqual([
+      {
+        rule: 'tool-input-schema',
+        severity: 'error',
+        message: 'Tool "delete" has no inputSchema. Every tool must declare a JSON Schema for its arguments.',
+        file: 'server.js',
+        line: 4,
+      },
+    ]);
+  });
+
+  it('rejects paths that are not directories', async () => {
+    await write({ 'file.txt': '' });
+    await expect(auditServerProject(path.join(dir, 'file.txt'), CONTEXT)).rejects.toThrow('Not a directory');
+  });
+});
@@ -0,0 +1,414 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { BlocklistEntry, IndexedDocument, MCPSpecification } from '../schemas/knowledge-base.js';
+import { matchesServerEntry } from './blocklist.js';
+import { buildServerCatalog, findBlocklistMatches } from './server-catalog.js';
+
+/**
+ * MCP server project audit
+ * Static checks of a local server project against the knowledge base's best
+ * practices, the current specification and the blocklist. The checks are
+ * pattern based: they read source text, they don't type-check or run it.
+ */
+
+export type AuditRule =
+  | 'stdout-logging'
+  | 'tool-input-schema'
+  | 'runtime-validation'
+  | 'tool-error-result'
+  | 'deprecated-transport'
+  | 'blocklisted-dependency';
+
+export interface AuditFinding {
+  rule: AuditRule;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  /** Path relative to the audited directory */
+  file: string;
+  line: number;
+}
+
+export interface AuditReport {
+  directory: string;
+  filesScanned: number;
+  transports: string[];
+  findings: AuditFinding[];
+}
+
+export interface AuditContext {
+  spec: MCPSpecification;
+  blockEntries: BlocklistEntry[];
+}
+
+/**
+ * Search queries used to link each rule to a knowledge base document
+ */
+export const AUDIT_RULE_TOPICS: Record<AuditRule, string> = {
+  'stdout-logging': 'stdio transport logging stderr stdout',
+  'tool-input-schema': 'tool inputSchema JSON schema',
+  'runtime-validation': 'validate tool arguments zod',
+  'tool-error-result': 'tool errors isError result',
+  'deprecated-transport': 'transports streamable HTTP backwards compatibility SSE',
+  'blocklisted-dependency': 'MCP server security',
+};
+
+const SOURCE_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']);
+const SKIP_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build', 'coverage', '.next', 'out']);
+const MAX_FILES = 2000;
+const MAX_FILE_BYTES = 1024 * 1024;
+
+// How each transport shows up in source and manifests, keyed by spec transport name
+const TRANSPORT_PATTERNS: Record<string, RegExp> = {
+  stdio: /StdioServerTransport|sdk\/server\/stdio|"type"\s*:\s*"stdio"/,
+  'streamable-http': /StreamableHTTPServerTransport|sdk\/server\/streamableHttp|"type"\s*:\s*"(?:http|streamable-http)"/,
+  'http+sse': /SSEServerTransport|sdk\/server\/sse(?:\.js)?['"]|"type"\s*:\s*"sse"/,
+};
+
+const VALIDATION_LIBRARIES = ['zod', 'ajv', 'valibot', 'yup', 'joi', '@sinclair/typebox', 'arktype'];
+
+interface ProjectFile {
+  relativePath: string;
+  content: string;
+}
+
+/**
+ * Audit the project in a directory
+ */
+export async function auditServerProject(directory: string, context: AuditContext): Promise<AuditReport> {
+  const stat = await fs.stat(directory).catch(() => null);
+  if (!stat?.isDirectory()) {
+    throw new Error(`Not a directory: ${directory}`);
+  }
+
+  const files = await collectFiles(directory);
+  const sources = files.filter((f) => SOURCE_EXTENSIONS.has(path.extname(f.relativePath)));
+  const packages = files.filter((f) => path.basename(f.relativePath) === 'package.json');
+  const manifests = files.filter((f) => f.relativePath.endsWith('.mcp.json'));
+
+  const transports = Object.entries(TRANSPORT_PATTERNS)
+    .filter(([, pattern]) => [...sources, ...manifests].some((f) => pattern.test(f.content)))
+    .map(([name]) => name);
+
+  const findings: AuditFinding[] = [];
+
+  if (transports.includes('stdio')) {
+    findings.push(...checkStdoutLogging(sources));
+  }
+  findings.push(...checkToolSchemas(sources));
+  findings.push(...checkToolHandlers(sources, packages));
+  findings.push(...checkDeprecatedTransports(sources, manifests, context.spec));
+  findings.push(...checkDependencies(packages, manifests, context.blockEntries));
+
+  const severityOrder = { error: 0, warning: 1, info: 2 };
+  findings.sort(
+    (a, b) =>
+      severityOrder[a.severity] - severityOrder[b.severity] ||
+      a.file.localeCompare(b.file) ||
+      a.line - b.line
+  );
+
+  return { directory, filesScanned: files.length, transports, findings };
+}
+
+/**
+ * console.log and friends write to stdout, which a stdio server reserves for JSON-RPC
+ */
+function checkStdoutLogging(sources: ProjectFile[]): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+
+  for (const file of sources) {
+    file.content.split('\n').forEach((line, i) => {
+      if (isCommentLine(line)) return;
+      const match = /\bconsole\.(log|info|debug)\s*\(|process\.stdout\.write\s*\(/.exec(line);
+      if (!match) return;
+
+      findings.push({
+        rule: 'stdout-logging',
+        severity: 'error',
+        message: `${match[0].replace(/\s*\($/, '')} writes to stdout, which corrupts the JSON-RPC stream of a stdio server. Use console.error.`,
+        file: file.relativePath,
+        line: i + 1,
+      });
+    });
+  }
+  return findings;
+}
+
+/**
+ * Tools registered without an input schema, via the high-level or low-level API
+ */
+function checkToolSchemas(sources: ProjectFile[]): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+
+  for (const file of sources) {
+    const text = file.content;
+
+    // McpServer#tool(name, [description], [schema], handler)
+    for (const match of text.matchAll(/\.tool\(\s*(['"`])([^'"`]+)\1/g)) {
+      const handlerAt = text.slice(match.index!).search(/=>|\bfunction\b/);
+      const args = handlerAt === -1 ? '' : text.slice(match.index! + match[0].length, match.index! + handlerAt);
+      // Drop the handler's own parameter list, which may destructure with braces
+      const params = args.replace(/(?:async\s*)?\([^()]*\)\s*(?::[^,]*)?$/, '');
+      if (!/[{]|\bz\.|schema/i.test(params)) {
+        findings.push(toolFinding(file, text, match.index!, match[2]));
+      }
+    }
+
+    // McpServer#registerTool(name, { inputSchema, ... }, handler)
+    for (const match of text.matchAll(/\.registerTool\(\s*(['"`])([^'"`]+)\1\s*,\s*\{/g)) {
+      const config = objectLiteralAt(text, match.index! + match[0].length - 1);
+      if (!/\binputSchema\b/.test(config)) {
+        findings.push(toolFinding(file, text, match.index!, match[2]));
+      }
+    }
+
+    // Low-level Server: tool objects returned from the tools/list handler
+    if (/ListToolsRequestSchema|\bTool\[\]/.test(text)) {
+      for (const match of text.matchAll(/\bname\s*:\s*(['"`])([\w.-]+)\1/g)) {
+        const object = enclosingObjectLiteral(text, match.index!);
+        if (!object || !/\bdescription\s*:/.test(object)) continue;
+        // Prompts, resources and nested schema properties also have name/description
+        if (/\b(uri|uriTemplate|arguments|mimeType|type|required)\s*:/.test(object)) continue;
+        if (!/\binputSchema\b/.test(object)) {
+          findings.push(toolFinding(file, text, match.index!, match[2]));
+        }
+      }
+    }
+  }
+  return findings;
+}
+
+/**
+ * Tool handlers should validate arguments at runtime and report failures with isError
+ */
+function checkToolHandlers(sources: ProjectFile[], packages: ProjectFile[]): AuditFinding[] {
+  const handler = sources
+    .map((file) => ({ file, index: file.content.search(/CallToolRequestSchema|\.(?:registerTool|tool)\(/) }))
+    .find(({ index }) => index !== -1);
+  if (!handler) return [];
+
+  const findings: AuditFinding[] = [];
+  const location = { file: handler.file.relativePath, line: lineAt(handler.file.content, handler.index) };
+
+  const dependencies = new Set(packages.flatMap((pkg) => Object.keys(parseDependencies(pkg.content))));
+  if (!VALIDATION_LIBRARIES.some((lib) => dependencies.has(lib))) {
+    findings.push({
+      rule: 'runtime-validation',
+      severity: 'warning',
+      message: `Tool arguments aren't validated with a schema library (${VALIDATION_LIBRARIES.slice(0, 3).join(', ')}, ...). Validate inputs at runtime, e.g. with Zod.`,
+      ...location,
+    });
+  }
+
+  if (!sources.some((file) => /\bisError\b/.test(file.content))) {
+    findings.push({
+      rule: 'tool-error-result',
+      severity: 'warning',
+      message: 'No tool result sets isError. Return tool failures as a result with isError: true instead of throwing.',
+      ...location,
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Use of transports the current specification marks as deprecated
+ */
+function checkDeprecatedTransports(
+  sources: ProjectFile[],
+  manifests: ProjectFile[],
+  spec: MCPSpecification
+): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+  const current = spec.transports.filter((t) => t.status === 'current').map((t) => t.name);
+
+  for (const transport of spec.transports.filter((t) => t.status === 'deprecated')) {
+    const pattern = TRANSPORT_PATTERNS[transport.name];
+    if (!pattern) continue;
+
+    for (const file of [...sources, ...manifests]) {
+      file.content.split('\n').forEach((line, i) => {
+        if (isCommentLine(line) || !pattern.test(line)) return;
+        findings.push({
+          rule: 'deprecated-transport',
+          severity: 'warning',
+          message: `The ${transport.name} transport is deprecated as of MCP ${spec.version}. Use ${current.join(' or ') || 'a current transport'}.`,
+          file: file.relativePath,
+          line: i + 1,
+        });
+      });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Dependencies and configured servers matching server blocklist entries
+ */
+function checkDependencies(
+  packages: ProjectFile[],
+  manifests: ProjectFile[],
+  blockEntries: BlocklistEntry[]
+): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+
+  for (const pkg of packages) {
+    for (const [name, range] of Object.entries(parseDependencies(pkg.content))) {
+      // Check the lowest version the declared range allows
+      const version = /\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?/.exec(range)?.[0];
+      const matches = blockEntries.filter((entry) => matchesServerEntry(entry, name, version));
+      if (matches.length === 0) continue;
+
+      const index = pkg.content.indexOf(`"${name}"`);
+      findings.push({
+        rule: 'blocklisted-dependency',
+        severity: 'error',
+        message: `Dependency ${name}@${range} is blocklisted: ${matches.map((m) => m.reason).join('; ')}`,
+        file: pkg.relativePath,
+        line: index === -1 ? 1 : lineAt(pkg.content, index),
+      });
+    }
+  }
+
+  // Manifests are parsed the same way the server catalog parses indexed ones
+  const manifestDocs = manifests.map((file) => asDocument(file));
+  for (const server of buildServerCatalog(manifestDocs)) {
+    const matches = findBlocklistMatches(server, blockEntries);
+    if (matches.length === 0) continue;
+
+    for (const source of server.sources) {
+      const file = manifests.find((f) => f.relativePath === source.documentId)!;
+      const key = [server.name, ...server.aliases].find((name) => file.content.includes(name)) ?? server.name;
+      findings.push({
+        rule: 'blocklisted-dependency',
+        severity: 'error',
+        message: `Configured server ${server.name} is blocklisted: ${matches.map((m) => m.reason).join('; ')}`,
+        file: file.relativePath,
+        line: lineAt(file.content, Math.max(0, file.content.indexOf(key))),
+      });
+    }
+  }
+
+  return findings;
+}
+
+async function collectFiles(root: string): Promise<ProjectFile[]> {
+  const files: ProjectFile[] = [];
+  const pending = [root];
+
+  while (pending.length > 0 && files.length < MAX_FILES) {
+    const dir = pending.pop()!;
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIP_DIRECTORIES.has(entry.name)) pending.push(fullPath);
+        continue;
+      }
+      if (!entry.isFile()) continue;
+
+      const relevant =
+        SOURCE_EXTENSIONS.has(path.extname(entry.name)) ||
+        entry.name === 'package.json' ||
+        entry.name.endsWith('.mcp.json');
+      if (!relevant || entry.name.endsWith('.d.ts')) continue;
+
+      const stat = await fs.stat(fullPath);
+      if (stat.size > MAX_FILE_BYTES) continue;
+
+      files.push({
+        relativePath: path.relative(root, fullPath).split(path.sep).join('/'),
+        content: await fs.readFile(fullPath, 'utf-8'),
+      });
+      if (files.length >= MAX_FILES) break;
+    }
+  }
+
+  return files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+function toolFinding(file: ProjectFile, text: string, index: number, name: string): AuditFinding {
+  return {
+    rule: 'tool-input-schema',
+    severity: 'error',
+    message: `Tool "${name}" has no inputSchema. Every tool must declare a JSON Schema for its arguments.`,
+    file: file.relativePath,
+    line: lineAt(text, index),
+  };
+}
+
+function parseDependencies(packageJson: string): Record<string, string> {
+  try {
+    const pkg = JSON.parse(packageJson);
+    return Object.assign(
+      {},
+      pkg.dependencies,
+      pkg.devDependencies,
+      pkg.peerDependencies,
+      pkg.optionalDependencies
+    );
+  } catch {
+    return {};
+  }
+}
+
+function asDocument(file: ProjectFile): IndexedDocument {
+  return {
+    id: file.relativePath,
+    repoOwner: 'local',
+    repoName: 'audit',
+    branch: 'local',
+    filePath: file.relativePath,
+    content: file.content,
+    metadata: { fileType: 'json', lastModified: new Date().toISOString(), size: file.content.length, hash: '' },
+    indexed: new Date().toISOString(),
+  };
+}
+
+/**
+ * Text of the object literal starting at an opening brace
+ */
+function objectLiteralAt(text: string, openIndex: number): string {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return text.slice(openIndex, i + 1);
+  }
+  return text.slice(openIndex);
+}
+
+/**
+ * Object literal directly enclosing a position, without its nested objects
+ */
+function enclosingObjectLiteral(text: string, index: number): string | null {
+  let depth = 0;
+  for (let i = index; i >= 0; i--) {
+    if (text[i] === '}') depth++;
+    else if (text[i] === '{') {
+      if (depth === 0) {
+        let body = objectLiteralAt(text, i).slice(1, -1);
+        for (let previous = ''; previous !== body; ) {
+          previous = body;
+          body = body.replace(/\{[^{}]*\}/g, '{}');
+        }
+        return `{${body}}`;
+      }
+      depth--;
+    }
+  }
+  return null;
+}
+
+function lineAt(text: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index && i < text.length; i++) {
+    if (text[i] === '\n') line++;
+  }
+  return line;
+}
+
+function isCommentLine(line: string): boolean {
+  return /^\s*(\/\/|\/?\*)/.test(line);
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { BlocklistEntry, IndexedDocument } from '../schemas/knowledge-base.js';
+import { buildServerCatalog, findBlocklistMatches, findServer, referencingRepos } from './server-catalog.js';
+
+function doc(
+  repo: string,
+  filePath: string,
+  content: unknown,
+  sourceType?: IndexedDocument['sourceType']
+): IndexedDocument {
+  const text = typeof content === 'string' ? content : JSON.stringify(content);
+  return {
+    id: `acme/${repo}/main/${filePath}`,
+    repoOwner: 'acme',
+    repoName: repo,
+    branch: 'main',
+    filePath,
+    content: text,
+    metadata: { fileType: 'json', lastModified: '2025-01-01T00:00:00.000Z', size: text.length, hash: filePath },
+    indexed: '2025-01-01T00:00:00.000Z',
+    sourceType,
+  };
+}
+
+function blockEntry(serverName: string, version?: string): BlocklistEntry {
+  return {
+    timestamp: '2025-01-01T00:00:00.000Z',
+    type: 'server',
+    serverName,
+    version,
+    reason: 'test',
+    hash: `sha256:${serverName}`,
+    allowOverride: false,
+    source: 'user',
+  };
+}
+
+const MANIFEST = {
+  mcpServers: {
+    files: {
+      command: 'npx',
+      args: ['-y', '@acme/files-server@1.2.0', '--root', '${env:WORKSPACE}'],
+      env: { FILES_TOKEN: 'x' },
+    },
+    remote: { type: 'http', url: 'https://mcp.example.com/mcp', headers: { Authorization: 'Bearer ${API_KEY}' } },
+    legacy: { url: 'https://old.example.com/sse' },
+    python: { command: 'uvx', args: ['weather-server'] },
+    script: { command: 'node', args: ['server.js'] },
+  },
+};
+
+describe('buildServerCatalog', () => {
+  it('parses manifest entries, package runners and environment references', () => {
+    const catalog = buildServerCatalog([doc('app', '.mcp.json', MANIFEST, 'user')]);
+
+    expect(catalog.map((s) => s.name)).toEqual(['@acme/files-server', 'legacy', 'remote', 'script', 'weather-server']);
+
+    const files = findServer(catalog, 'files')!;
+    expect(files).toMatchObject({
+      name: '@acme/files-server',
+      aliases: ['files'],
+      version: '1.2.0',
+      command: 'npx',
+      transport: 'stdio',
+      env: ['FILES_TOKEN', 'WORKSPACE'],
+      sources: [{ documentId: 'acme/app/main/.mcp.json', repository: 'acme/app', kind: 'manifest', version: '1.2.0' }],
+    });
+
+    expect(findServer(catalog, 'remote')).toMatchObject({ transport: 'http', env: ['API_KEY'] });
+    expect(findServer(catalog, 'legacy')?.transport).toBe('sse');
+    expect(findServer(catalog, 'weather-server')?.aliases).toEqual(['python']);
+    expect(findServer(catalog, 'script')).toMatchObject({ aliases: [], command: 'node' });
+  });
+
+  it('indexes packages that use the SDK or declare an mcp field', () => {
+    const catalog = buildServerCatalog([
+      doc('files', 'package.json', {
+        name: '@acme/files-server',
+        version: '1.3.0',
+        description: 'File access',
+        bin: { 'files-server': 'dist/index.js' },
+        dependencies: { '@modelcontextprotocol/sdk': '^1.0.0' },
+      }),
+      doc('declared', 'package.json', {
+        name: 'declared',
+        mcp: { transport: 'http', env: ['B', 'A'], tools: ['read'] },
+      }),
+      doc('unrelated', 'package.json', { name: 'left-pad', dependencies: {} }),
+      doc('broken', 'package.json', '{ not json'),
+    ]);
+
+    expect(catalog.map((s) => s.name)).toEqual(['@acme/files-server', 'declared']);
+    expect(catalog[0]).toMatchObject({
+      command: 'npx',
+      args: ['-y', '@acme/files-server'],
+      description: 'File access',
+    });
+    expect(catalog[1]).toMatchObject({ transport: 'http', env: ['A', 'B'], tools: [{ name: 'read' }] });
+    expect(catalog[1].command).toBeUndefined();
+  });
+
+  it('merges a manifest entry into the package it launches', () => {
+    const catalog = buildServerCatalog([
+      doc('app', '.mcp.json', MANIFEST, 'user'),
+      doc('files', 'package.json', {
+        name: '@acme/files-server',
+        version: '1.3.0',
+        description: 'File access',
+        bin: 'dist/index.js',
+        dependencies: { '@modelcontextprotocol/sdk': '^1.0.0' },
+        mcp: { tools: [{ name: 'read_file', description: 'Read a file' }] },
+      }, 'official'),
+    ]);
+
+    const files = findServer(catalog, '@acme/files-server')!;
+    expect(files).toMatchObject({
+      aliases: ['files'],
+      version: '1.3.0',
+      description: 'File access',
+      args: ['-y', '@acme/files-server'],
+      env: ['FILES_TOKEN', 'WORKSPACE'],
+      tools: [{ name: 'read_file', description: 'Read a file' }],
+    });
+    expect(files.sources.map((s) => [s.kind, s.version])).toEqual([
+      ['manifest', '1.2.0'],
+      ['package', '1.3.0'],
+    ]);
+    expect(referencingRepos(files)).toEqual(['acme/app']);
+  });
+});
+
+describe('findBlocklistMatches', () => {
+  it('checks every name and version a server is known by', () => {
+    const [files] = buildServerCatalog([doc('app', '.mcp.json', { mcpServers: { files: MANIFEST.mcpServers.files } })]);
+
+    expect(findBlocklistMatches(files, [blockEntry('@acme/files-server', '<1.3.0')])).toHaveLength(1);
+    expect(findBlocklistMatches(files, [blockEntry('@acme/files-server', '>=1.3.0')])).toHaveLength(0);
+    expect(findBlocklistMatches(files, [blockEntry('files')])).toHaveLength(1);
+    expect(findBlocklistMatches(files, [blockEntry('@acme/*')])).toHaveLength(1);
+    expect(findBlocklistMatches(files, [blockEntry('@other/*')])).toHaveLength(0);
+  });
+});
@@ -0,0 +1,226 @@
+import path from 'path';
+import { BlocklistEntry, IndexedDocument, MCPServer } from '../schemas/knowledge-base.js';
+import { matchesServerEntry } from './blocklist.js';
+
+/**
+ * MCP server catalog
+ * Builds structured server entries from indexed .mcp.json manifests and
+ * package.json files. Manifest entries launched through a package runner
+ * (npx, bunx, uvx, ...) are merged with that package's own entry.
+ */
+
+type ServerSource = MCPServer['sources'][number];
+
+/**
+ * Build the catalog from indexed documents, sorted by server name
+ */
+export function buildServerCatalog(documents: IndexedDocument[]): MCPServer[] {
+  const catalog = new Map<string, MCPServer>();
+
+  for (const doc of documents) {
+    const fileName = path.posix.basename(doc.filePath);
+    let servers: MCPServer[] = [];
+
+    try {
+      if (fileName === '.mcp.json' || fileName.endsWith('.mcp.json')) {
+        servers = parseManifest(doc);
+      } else if (fileName === 'package.json') {
+        servers = parsePackage(doc);
+      }
+    } catch {
+      // Not valid JSON; stays searchable as text
+      continue;
+    }
+
+    for (const server of servers) {
+      const existing = catalog.get(server.name);
+      catalog.set(server.name, existing ? mergeServers(existing, server) : server);
+    }
+  }
+
+  return [...catalog.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Find a server by name or alias
+ */
+export function findServer(catalog: MCPServer[], name: string): MCPServer | undefined {
+  return catalog.find((s) => s.name === name) ?? catalog.find((s) => s.aliases.includes(name));
+}
+
+/**
+ * Active server blocklist entries that apply to a catalog entry.
+ * Every version a source pins or declares is checked.
+ */
+export function findBlocklistMatches(server: MCPServer, entries: BlocklistEntry[]): BlocklistEntry[] {
+  const names = [server.name, ...server.aliases];
+  const versions = [...new Set(server.sources.map((s) => s.version))];
+
+  return entries.filter((entry) =>
+    names.some((name) => versions.some((version) => matchesServerEntry(entry, name, version)))
+  );
+}
+
+/**
+ * Your repositories (type "user" or "local") that define or configure a server
+ */
+export function referencingRepos(server: MCPServer): string[] {
+  const own = server.sources.filter((s) => s.repoType === 'user' || s.repoType === 'local');
+  return [...new Set(own.map((s) => s.repository))];
+}
+
+/**
+ * Servers configured in a Claude/VS Code style manifest ({ mcpServers: { name: config } })
+ */
+function parseManifest(doc: IndexedDocument): MCPServer[] {
+  const manifest = JSON.parse(doc.content);
+  const servers = manifest?.mcpServers ?? manifest?.servers;
+  if (!isObject(servers)) return [];
+
+  const result: MCPServer[] = [];
+  for (const [key, config] of Object.entries(servers)) {
+    if (!isObject(config)) continue;
+
+    const command = typeof config.command === 'string' ? config.command : undefined;
+    const args = stringArray(config.args);
+    const url = typeof config.url === 'string' ? config.url : undefined;
+    const pkg = command ? packageFromCommand(command, args) : undefined;
+
+    // Variables set in env, plus ${VAR} references in args, URL and headers
+    const env = new Set(isObject(config.env) ? Object.keys(config.env) : []);
+    const headerValues = isObject(config.headers) ? Object.values(config.headers) : [];
+    for (const value of [...args, url, ...headerValues]) {
+      if (typeof value !== 'string') continue;
+      for (const match of value.matchAll(/\$\{(?:env:)?([A-Za-z_][A-Za-z0-9_]*)\}/g)) {
+        env.add(match[1]);
+      }
+    }
+
+    const name = pkg?.name ?? key;
+    result.push({
+      name,
+      aliases: name === key ? [] : [key],
+      version: pkg?.version,
+      description: typeof config.description === 'string' ? config.description : undefined,
+      command,
+      args,
+      url,
+      transport: transportOf(config.type ?? config.transport, url),
+      env: [...env].sort(),
+      tools: parseTools(config.tools),
+      sources: [sourceOf(doc, 'manifest', pkg?.version)],
+    });
+  }
+  return result;
+}
+
+/**
+ * A package.json describing an MCP server: depends on the SDK or has an "mcp" field
+ */
+function parsePackage(doc: IndexedDocument): MCPServer[] {
+  const pkg = JSON.parse(doc.content);
+  if (!isObject(pkg) || typeof pkg.name !== 'string') return [];
+
+  const dependsOnSdk = [pkg.dependencies, pkg.peerDependencies].some(
+    (deps) => isObject(deps) && '@modelcontextprotocol/sdk' in deps
+  );
+  const mcp = isObject(pkg.mcp) ? pkg.mcp : undefined;
+  if (!dependsOnSdk && !mcp) return [];
+
+  const hasBin = typeof pkg.bin === 'string' || isObject(pkg.bin);
+  return [
+    {
+      name: pkg.name,
+      aliases: [],
+      version: typeof pkg.version === 'string' ? pkg.version : undefined,
+      description: typeof pkg.description === 'string' ? pkg.description : undefined,
+      command: hasBin ? 'npx' : undefined,
+      args: hasBin ? ['-y', pkg.name] : [],
+      transport: transportOf(mcp?.transport, undefined),
+      env: stringArray(mcp?.env).sort(),
+      tools: parseTools(mcp?.tools),
+      sources: [sourceOf(doc, 'package', typeof pkg.version === 'string' ? pkg.version : undefined)],
+    },
+  ];
+}
+
+function mergeServers(a: MCPServer, b: MCPServer): MCPServer {
+  // Package entries describe the server itself; prefer their details
+  const [primary, secondary] = b.sources.some((s) => s.kind === 'package') ? [b, a] : [a, b];
+  const tools = new Map([...secondary.tools, ...primary.tools].map((t) => [t.name, t]));
+
+  return {
+    name: a.name,
+    aliases: [...new Set([...a.aliases, ...b.aliases])].sort(),
+    version: primary.version ?? secondary.version,
+    description: primary.description ?? secondary.description,
+    command: primary.command ?? secondary.command,
+    args: primary.command ? primary.args : secondary.args,
+    url: primary.url ?? secondary.url,
+    transport: primary.transport !== 'stdio' ? primary.transport : secondary.transport,
+    env: [...new Set([...a.env, ...b.env])].sort(),
+    tools: [...tools.values()],
+    sources: [...a.sources, ...b.sources],
+  };
+}
+
+/**
+ * Package launched by a runner command, e.g. "npx -y @org/server@1.2.0"
+ */
+function packageFromCommand(command: string, args: string[]): { name: string; version?: string } | undefined {
+  const runner = path.basename(command).replace(/\.(cmd|exe)$/, '');
+  let rest = args;
+  if (runner === 'pnpm' || runner === 'yarn') {
+    if (args[0] !== 'dlx') return undefined;
+    rest = args.slice(1);
+  } else if (!['npx', 'bunx', 'uvx', 'pipx'].includes(runner)) {
+    return undefined;
+  }
+  if (runner === 'pipx') {
+    if (rest[0] !== 'run') return undefined;
+    rest = rest.slice(1);
+  }
+
+  const spec = rest.find((arg) => !arg.startsWith('-'));
+  if (!spec) return undefined;
+
+  const at = spec.indexOf('@', 1);
+  return at === -1 ? { name: spec } : { name: spec.slice(0, at), version: spec.slice(at + 1) || undefined };
+}
+
+function transportOf(type: unknown, url: string | undefined): MCPServer['transport'] {
+  if (type === 'sse') return 'sse';
+  if (type === 'http' || type === 'streamable-http' || type === 'streamableHttp') return 'http';
+  if (type === 'stdio') return 'stdio';
+  if (url) return /\/sse\/?$/.test(url) ? 'sse' : 'http';
+  return 'stdio';
+}
+
+function parseTools(value: unknown): MCPServer['tools'] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((tool) => {
+    if (typeof tool === 'string') return [{ name: tool }];
+    if (isObject(tool) && typeof tool.name === 'string') {
+      return [{ name: tool.name, description: typeof tool.description === 'string' ? tool.description : undefined }];
+    }
+    return [];
+  });
+}
+
+function sourceOf(doc: IndexedDocument, kind: ServerSource['kind'], version?: string): ServerSource {
+  return {
+    documentId: doc.id,
+    repository: `${doc.repoOwner}/${doc.repoName}`,
+    repoType: doc.sourceType,
+    kind,
+    version,
+  };
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,376 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { KnowledgeBaseStorage } from './storage.js';
+import { matchGlob } from './glob.js';
+import { IndexedDocument, RepoSyncState } from '../schemas/knowledge-base.js';
+
+/**
+ * Source providers
+ * A provider knows how to read repositories from one kind of host (GitHub,
+ * GitLab, Gitea, a plain git remote). The incremental sync on top of it is
+ * shared: resolve the branch to a tree, list it, and fetch only blobs whose
+ * SHA changed.
+ */
+
+export interface RepoRef {
+  owner: string;
+  repo: string;
+}
+
+export interface RemoteTreeEntry {
+  /** Slash-separated path from the repository root */
+  path: string;
+  /** Git blob SHA */
+  sha: string;
+  size?: number;
+}
+
+export interface SourceProvider {
+  /** Shown in logs, e.g. "github" */
+  readonly name: string;
+
+  /**
+   * Repositories of a user (the authenticated one by default) that have a
+   * .claude/ directory. Returns null if discovery failed, so callers can tell
+   * that apart from "no repos".
+   */
+  discoverRepos(username?: string): Promise<RepoRef[] | null>;
+
+  /*
+   * The methods below are called during a sync; they stop with signal's
+   * reason once it aborts, even while waiting for a rate limit to reset.
+   */
+
+  /**
+   * Identifier of the branch's current content: the root tree SHA where the
+   * host exposes it, otherwise the head commit SHA. Equal ids mean nothing changed.
+   */
+  resolveTree(owner: string, repo: string, branch: string, signal?: AbortSignal): Promise<string>;
+
+  /** Every blob in the tree, recursively */
+  listTree(owner: string, repo: string, treeId: string, signal?: AbortSignal): Promise<RemoteTreeEntry[]>;
+
+  fetchBlob(owner: string, repo: string, sha: string, signal?: AbortSignal): Promise<Buffer>;
+
+  /**
+   * Date of the last commit on the branch that touched filePath (or of the
+   * branch's head commit without one), or null if there is none
+   */
+  lastCommitDate(
+    owner: string,
+    repo: string,
+    branch: string,
+    filePath?: string,
+    signal?: AbortSignal
+  ): Promise<string | null>;
+}
+
+/**
+ * What is already indexed for a repository before it is synced
+ */
+export interface PreviousRepoState {
+  state?: RepoSyncState;
+  documents: IndexedDocument[];
+}
+
+/**
+ * Counts of file changes in a sync
+ */
+export interface SyncFileStats {
+  added: number;
+  changed: number;
+  unchanged: number;
+  removed: number;
+}
+
+/**
+ * Outcome of syncing a single repository
+ */
+export interface RepoSyncResult {
+  owner: string;
+  repo: string;
+  branch: string;
+  /** True when the tree SHA hadn't moved and nothing was fetched */
+  skipped: boolean;
+  /** New sync state to record, undefined if some files failed to fetch */
+  state?: RepoSyncState;
+  /** Added and changed documents */
+  documents: IndexedDocument[];
+  /** IDs of previously indexed documents no longer in the tree */
+  removedIds: string[];
+  stats: SyncFileStats;
+  /** Files that matched but could not be fetched; they are retried next sync */
+  failedFiles: Array<{ path: string; error: string }>;
+}
+
+/**
+ * HTTP error from a provider API. status mirrors Octokit's request errors.
+ */
+export class SourceRequestError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SourceRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * GET a provider API URL, throwing SourceRequestError on a non-2xx response
+ */
+export async function sourceRequest(
+  url: string,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetch(url, { headers, signal });
+  if (!response.ok) {
+    throw new SourceRequestError(`${response.status} ${response.statusText}: GET ${url}`, response.status);
+  }
+  return response;
+}
+
+// Above this many new or changed files in one sync, files aren't dated one by one
+const MAX_FILE_DATE_LOOKUPS = 50;
+
+/**
+ * Fetch files matching patterns from a repository.
+ * When the previous sync state is given, only blobs whose SHA changed are
+ * downloaded, and the whole repo is skipped if its tree hasn't moved.
+ * Throws if the repository could not be read, or signal's reason once it is
+ * aborted; files that fail individually are listed in failedFiles.
+ */
+export async function fetchFilesFromRepo(
+  provider: SourceProvider,
+  storage: KnowledgeBaseStorage,
+  owner: string,
+  repo: string,
+  branch: string = 'main',
+  includePatterns: string[] = ['.claude/**/*.md'],
+  excludePatterns: string[] = ['**/node_modules/**'],
+  previous?: PreviousRepoState,
+  signal?: AbortSignal
+): Promise<RepoSyncResult> {
+  console.error(`Fetching files from ${owner}/${repo} (${provider.name})...`);
+
+  const repoPath = storage.getRepoPath(owner, repo);
+  await storage.ensureRepoDir(owner, repo);
+
+  const treeSha = await provider.resolveTree(owner, repo, branch, signal);
+  const previousDocs = previous?.documents ?? [];
+  const blocklist = await storage.loadFileBlocklist();
+
+  const result: RepoSyncResult = {
+    owner,
+    repo,
+    branch,
+    skipped: false,
+    state: {
+      owner,
+      repo,
+      branch,
+      treeSha,
+      includePatterns,
+      excludePatterns,
+      blocklistFingerprint: blocklist.fingerprint(),
+      lastSynced: new Date().toISOString(),
+    },
+    documents: [],
+    removedIds: [],
+    stats: { added: 0, changed: 0, unchanged: 0, removed: 0 },
+    failedFiles: [],
+  };
+
+  // Nothing moved since the last sync
+  if (previous?.state && isSameTree(previous.state, result.state!)) {
+    console.error(`${owner}/${repo} unchanged (tree ${treeSha.slice(0, 7)}), skipping`);
+    result.skipped = true;
+    result.state!.evicted = previous.state.evicted;
+    result.stats.unchanged = previousDocs.length;
+    return result;
+  }
+  const evicted = keepEvicted(previous?.state, branch);
+
+  const tree = await provider.listTree(owner, repo, treeSha, signal);
+
+  // Filter files by patterns
+  const matchingFiles = tree.filter((item) => {
+    // A misbehaving remote must not make us write outside the repo cache
+    if (!isInside(repoPath, path.resolve(repoPath, item.path))) {
+      console.error(`Skipping ${owner}/${repo} entry outside the repository: ${item.path}`);
+      result.failedFiles.push({ path: item.path, error: 'Path escapes the repository directory' });
+      return false;
+    }
+
+    // Check if matches include patterns
+    const includeMatch = includePatterns.some((pattern) => matchGlob(item.path, pattern));
+    if (!includeMatch) return false;
+
+    // Check if matches exclude patterns
+    const excludeMatch = excludePatterns.some((pattern) => matchGlob(item.path, pattern));
+    if (excludeMatch) return false;
+
+    // Blocklisted files are never fetched or cached in strict mode
+    if (blocklist.excludesFromIndex() && blocklist.match(owner, repo, item.path)) {
+      return false;
+    }
+
+    return true;
+  });
+
+  console.error(`Found ${matchingFiles.length} matching files`);
+
+  const previousByPath = new Map(
+    previousDocs.filter((doc) => doc.branch === branch).map((doc) => [doc.filePath, doc])
+  );
+  const currentPaths = new Set(matchingFiles.map((file) => file.path));
+
+  // Fetch content for new and changed files only
+  const pendingFiles = matchingFiles.filter((file) => {
+    const existing = previousByPath.get(file.path);
+    if (existing && existing.metadata.hash === file.sha) {
+      result.stats.unchanged++;
+      return false;
+    }
+    return !evicted.keep(file.path, file.sha);
+  });
+
+  // Dating a file costs a request, so large syncs date every file by the head commit
+  const datePerFile = pendingFiles.length <= MAX_FILE_DATE_LOOKUPS;
+  const headDate = datePerFile ? null : await lastCommitDate(provider, owner, repo, branch, undefined, signal);
+
+  for (const file of pendingFiles) {
+    const existing = previousByPath.get(file.path);
+
+    signal?.throwIfAborted();
+    try {
+      const blob = await provider.fetchBlob(owner, repo, file.sha, signal);
+      const content = blob.toString('utf-8');
+      const lastModified = datePerFile
+        ? await lastCommitDate(provider, owner, repo, branch, file.path, signal)
+        : headDate;
+
+      const document: IndexedDocument = {
+        id: `${owner}/${repo}/${branch}/${file.path}`,
+        repoOwner: owner,
+        repoName: repo,
+        branch,
+        filePath: file.path,
+        content,
+        metadata: {
+          fileType: path.extname(file.path).slice(1) || 'unknown',
+          lastModified: lastModified ?? new Date().toISOString(),
+          size: file.size ?? blob.length,
+          hash: file.sha,
+        },
+        indexed: new Date().toISOString(),
+      };
+
+      result.documents.push(document);
+      if (existing) {
+        result.stats.changed++;
+      } else {
+        result.stats.added++;
+      }
+
+      // Cache locally
+      const localPath = path.resolve(repoPath, file.path);
+      await fs.mkdir(path.dirname(localPath), { recursive: true });
+      await fs.writeFile(localPath, content, 'utf-8');
+    } catch (error) {
+      signal?.throwIfAborted();
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error fetching file ${file.path}:`, message);
+      result.failedFiles.push({ path: file.path, error: message });
+      // Don't record the tree as synced, so the file is retried next time
+      result.state = undefined;
+    }
+  }
+
+  if (result.state) {
+    result.state.evicted = evicted.records;
+  }
+
+  // Documents no longer in the tree (or indexed from another branch)
+  for (const doc of previousDocs) {
+    if (doc.branch !== branch || !currentPaths.has(doc.filePath)) {
+      result.removedIds.push(doc.id);
+      result.stats.removed++;
+    }
+  }
+
+  // Drop cached files deleted upstream or no longer matching the patterns
+  const prunedPaths = await storage.pruneRepoCache(owner, repo, currentPaths);
+  if (prunedPaths.length > 0) {
+    console.error(`Removed ${prunedPaths.length} stale cached files from ${owner}/${repo}`);
+  }
+
+  return result;
+}
+
+/**
+ * Files evicted for size stay out of the index until their content changes.
+ * keep() tells whether a file is such a file, and carries its record over to
+ * the new sync state.
+ */
+export function keepEvicted(previous: RepoSyncState | undefined, branch: string) {
+  const recorded = previous?.branch === branch ? previous.evicted ?? {} : {};
+  const kept: Record<string, string> = {};
+
+  return {
+    keep(filePath: string, sha: string): boolean {
+      if (recorded[filePath] !== sha) return false;
+      kept[filePath] = sha;
+      return true;
+    },
+    /** Records of the files kept out, or undefined if there are none */
+    get records(): Record<string, string> | undefined {
+      return Object.keys(kept).length > 0 ? kept : undefined;
+    },
+  };
+}
+
+/**
+ * Whether a repo's tree, patterns and blocklist match its previous sync state
+ */
+export function isSameTree(previous: RepoSyncState, current: RepoSyncState): boolean {
+  return (
+    previous.treeSha === current.treeSha &&
+    previous.branch === current.branch &&
+    previous.includePatterns.join('\n') === current.includePatterns.join('\n') &&
+    previous.excludePatterns.join('\n') === current.excludePatterns.join('\n') &&
+    previous.blocklistFingerprint === current.blocklistFingerprint
+  );
+}
+
+/**
+ * Whether target is a path below dir
+ */
+function isInside(dir: string, target: string): boolean {
+  return target.startsWith(dir + path.sep);
+}
+
+/**
+ * Last commit date of a file (or of the branch without one), looked up only
+ * for added or changed files since trees don't carry dates. Null if it can't
+ * be determined; the sync goes on.
+ */
+async function lastCommitDate(
+  provider: SourceProvider,
+  owner: string,
+  repo: string,
+  branch: string,
+  filePath: string | undefined,
+  signal?: AbortSignal
+): Promise<string | null> {
+  try {
+    const date = await provider.lastCommitDate(owner, repo, branch, filePath, signal);
+    return date && new Date(date).toISOString();
+  } catch (error) {
+    signal?.throwIfAborted();
+    const target = filePath ? `${owner}/${repo}/${filePath}` : `${owner}/${repo}@${branch}`;
+    console.error(`Cannot read the commit date of ${target}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
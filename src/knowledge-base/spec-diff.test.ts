@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { MCPSpecification } from '../schemas/knowledge-base.js';
+import { diffSpecifications, formatSpecDiff, isEmptyDiff } from './spec-diff.js';
+
+function spec(version: string, overrides: Partial<MCPSpecification> = {}): MCPSpecification {
+  return {
+    version,
+    lastUpdated: '2025-01-01T00:00:00.000Z',
+    capabilities: {},
+    transports: [],
+    lifecycle: { initialization: 'Handshake', shutdown: 'Close streams' },
+    bestPractices: [],
+    commonPatterns: [],
+    ...overrides,
+  };
+}
+
+const OLD = spec('2024-11-05', {
+  capabilities: {
+    tools: {
+      description: 'Tools',
+      schema: {
+        Tool: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            description: { type: 'string' },
+            inputSchema: { type: 'object', properties: { type: { const: 'object' } } },
+          },
+          required: ['name', 'description'],
+        },
+        ToolListChangedNotification: { type: 'object' },
+      },
+    },
+    prompts: { description: 'Prompts', schema: {} },
+  },
+  transports: [
+    { name: 'stdio', status: 'current', useCases: [] },
+    { name: 'http+sse', status: 'current', useCases: [] },
+  ],
+});
+
+const NEW = spec('2025-03-26', {
+  capabilities: {
+    tools: {
+      description: 'Tools the model can call',
+      schema: {
+        Tool: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            description: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+            inputSchema: {
+              type: 'object',
+              properties: { type: { const: 'object' }, properties: { type: 'object' } },
+            },
+            annotations: { $ref: '#/definitions/ToolAnnotations' },
+          },
+          required: ['name'],
+        },
+        ToolAnnotations: { type: 'object' },
+      },
+    },
+    resources: { description: 'Resources', schema: {} },
+  },
+  transports: [
+    { name: 'stdio', status: 'current', useCases: [] },
+    { name: 'http+sse', status: 'deprecated', useCases: [] },
+    { name: 'streamable-http', status: 'current', useCases: [] },
+  ],
+  lifecycle: { initialization: 'Handshake with capabilities', shutdown: 'Close streams' },
+});
+
+describe('diffSpecifications', () => {
+  it('reports capability, transport, lifecycle and schema changes', () => {
+    const diff = diffSpecifications(OLD, NEW);
+
+    expect(diff.capabilities).toEqual({
+      added: ['resources'],
+      removed: ['prompts'],
+      changed: [{ name: 'tools', from: 'Tools', to: 'Tools the model can call' }],
+    });
+    expect(diff.transports).toEqual({
+      added: [{ name: 'streamable-http', status: 'current' }],
+      removed: [],
+      statusChanged: [{ name: 'http+sse', from: 'current', to: 'deprecated' }],
+    });
+    expect(diff.lifecycle).toEqual([
+      { phase: 'initialization', from: 'Handshake', to: 'Handshake with capabilities' },
+    ]);
+    expect(diff.schema).toEqual([
+      {
+        capability: 'tools',
+        addedDefinitions: ['ToolAnnotations'],
+        removedDefinitions: ['ToolListChangedNotification'],
+        fields: [
+          { path: 'Tool.annotations', change: 'added', to: 'ToolAnnotations' },
+          { path: 'Tool.description', change: 'type', from: 'string', to: 'string | null' },
+          { path: 'Tool.description', change: 'optional' },
+          { path: 'Tool.inputSchema.properties', change: 'added', to: 'object' },
+        ],
+      },
+    ]);
+  });
+
+  it('finds nothing between identical versions', () => {
+    const diff = diffSpecifications(OLD, { ...OLD, version: '2024-11-05' });
+    expect(isEmptyDiff(diff)).toBe(true);
+    expect(formatSpecDiff(diff)).toBe('# MCP specification changes: 2024-11-05 → 2024-11-05\n\nNo differences found.');
+  });
+});
+
+describe('formatSpecDiff', () => {
+  it('renders a Markdown changelog', () => {
+    expect(formatSpecDiff(diffSpecifications(OLD, NEW))).toBe(
+      [
+        '# MCP specification changes: 2024-11-05 → 2025-03-26',
+        '',
+        '## Capabilities',
+        '',
+        '- Added `resources`',
+        '- Removed `prompts`',
+        '- `tools` description: "Tools" → "Tools the model can call"',
+        '',
+        '## Transports',
+        '',
+        '- Added `streamable-http` (current)',
+        '- `http+sse`: current → deprecated',
+        '',
+        '## Lifecycle',
+        '',
+        '- Initialization:',
+        '  - Before: Handshake',
+        '  - After: Handshake with capabilities',
+        '',
+        '## Schema',
+        '',
+        '### tools',
+        '',
+        '- Added definition `ToolAnnotations`',
+        '- Removed definition `ToolListChangedNotification`',
+        '- `Tool.annotations`: added (ToolAnnotations)',
+        '- `Tool.description`: type string → string | null',
+        '- `Tool.description`: now optional',
+        '- `Tool.inputSchema.properties`: added (object)',
+      ].join('\n')
+    );
+  });
+});
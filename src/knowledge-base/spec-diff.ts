@@ -0,0 +1,256 @@
+import { MCPSpecification } from '../schemas/knowledge-base.js';
+
+/**
+ * MCP specification diff
+ * Compares two stored specification versions: capabilities, transport status,
+ * lifecycle text and the JSON schema definitions behind each capability.
+ */
+
+type CapabilityName = keyof MCPSpecification['capabilities'];
+
+export interface SchemaFieldChange {
+  /** Dotted path, e.g. "CallToolRequest.params.name" */
+  path: string;
+  change: 'added' | 'removed' | 'type' | 'required' | 'optional';
+  from?: string;
+  to?: string;
+}
+
+export interface SpecDiff {
+  from: string;
+  to: string;
+  capabilities: {
+    added: string[];
+    removed: string[];
+    changed: Array<{ name: string; from: string; to: string }>;
+  };
+  transports: {
+    added: Array<{ name: string; status: string }>;
+    removed: string[];
+    statusChanged: Array<{ name: string; from: string; to: string }>;
+  };
+  lifecycle: Array<{ phase: string; from: string; to: string }>;
+  schema: Array<{
+    capability: string;
+    addedDefinitions: string[];
+    removedDefinitions: string[];
+    fields: SchemaFieldChange[];
+  }>;
+}
+
+// Nested objects deeper than this are compared as a whole type
+const MAX_FIELD_DEPTH = 4;
+
+export function diffSpecifications(from: MCPSpecification, to: MCPSpecification): SpecDiff {
+  const diff: SpecDiff = {
+    from: from.version,
+    to: to.version,
+    capabilities: { added: [], removed: [], changed: [] },
+    transports: { added: [], removed: [], statusChanged: [] },
+    lifecycle: [],
+    schema: [],
+  };
+
+  const capabilityNames = new Set([
+    ...Object.keys(from.capabilities),
+    ...Object.keys(to.capabilities),
+  ]) as Set<CapabilityName>;
+
+  for (const name of capabilityNames) {
+    const before = from.capabilities[name];
+    const after = to.capabilities[name];
+
+    if (!before) diff.capabilities.added.push(name);
+    else if (!after) diff.capabilities.removed.push(name);
+    else if (before.description !== after.description) {
+      diff.capabilities.changed.push({ name, from: before.description, to: after.description });
+    }
+
+    const schemaDiff = diffDefinitions(before?.schema ?? {}, after?.schema ?? {});
+    if (
+      schemaDiff.addedDefinitions.length > 0 ||
+      schemaDiff.removedDefinitions.length > 0 ||
+      schemaDiff.fields.length > 0
+    ) {
+      diff.schema.push({ capability: name, ...schemaDiff });
+    }
+  }
+
+  const fromTransports = new Map(from.transports.map((t) => [t.name, t]));
+  const toTransports = new Map(to.transports.map((t) => [t.name, t]));
+
+  for (const [name, transport] of toTransports) {
+    const previous = fromTransports.get(name);
+    if (!previous) {
+      diff.transports.added.push({ name, status: transport.status });
+    } else if (previous.status !== transport.status) {
+      diff.transports.statusChanged.push({ name, from: previous.status, to: transport.status });
+    }
+  }
+  for (const name of fromTransports.keys()) {
+    if (!toTransports.has(name)) diff.transports.removed.push(name);
+  }
+
+  for (const phase of ['initialization', 'shutdown'] as const) {
+    if (from.lifecycle[phase] !== to.lifecycle[phase]) {
+      diff.lifecycle.push({ phase, from: from.lifecycle[phase], to: to.lifecycle[phase] });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Whether the diff found any change at all
+ */
+export function isEmptyDiff(diff: SpecDiff): boolean {
+  const { capabilities, transports } = diff;
+  return (
+    capabilities.added.length + capabilities.removed.length + capabilities.changed.length === 0 &&
+    transports.added.length + transports.removed.length + transports.statusChanged.length === 0 &&
+    diff.lifecycle.length === 0 &&
+    diff.schema.length === 0
+  );
+}
+
+/**
+ * Render a diff as a Markdown changelog
+ */
+export function formatSpecDiff(diff: SpecDiff): string {
+  const lines = [`# MCP specification changes: ${diff.from} → ${diff.to}`, ''];
+
+  if (isEmptyDiff(diff)) {
+    lines.push('No differences found.');
+    return lines.join('\n');
+  }
+
+  const { capabilities, transports } = diff;
+  if (capabilities.added.length + capabilities.removed.length + capabilities.changed.length > 0) {
+    lines.push('## Capabilities', '');
+    for (const name of capabilities.added) lines.push(`- Added \`${name}\``);
+    for (const name of capabilities.removed) lines.push(`- Removed \`${name}\``);
+    for (const change of capabilities.changed) {
+      lines.push(`- \`${change.name}\` description: "${change.from}" → "${change.to}"`);
+    }
+    lines.push('');
+  }
+
+  if (transports.added.length + transports.removed.length + transports.statusChanged.length > 0) {
+    lines.push('## Transports', '');
+    for (const t of transports.added) lines.push(`- Added \`${t.name}\` (${t.status})`);
+    for (const name of transports.removed) lines.push(`- Removed \`${name}\``);
+    for (const t of transports.statusChanged) lines.push(`- \`${t.name}\`: ${t.from} → ${t.to}`);
+    lines.push('');
+  }
+
+  if (diff.lifecycle.length > 0) {
+    lines.push('## Lifecycle', '');
+    for (const change of diff.lifecycle) {
+      lines.push(`- ${capitalize(change.phase)}:`, `  - Before: ${change.from}`, `  - After: ${change.to}`);
+    }
+    lines.push('');
+  }
+
+  if (diff.schema.length > 0) {
+    lines.push('## Schema', '');
+    for (const section of diff.schema) {
+      lines.push(`### ${section.capability}`, '');
+      for (const name of section.addedDefinitions) lines.push(`- Added definition \`${name}\``);
+      for (const name of section.removedDefinitions) lines.push(`- Removed definition \`${name}\``);
+      for (const field of section.fields) lines.push(`- ${formatFieldChange(field)}`);
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+function diffDefinitions(
+  before: Record<string, any>,
+  after: Record<string, any>
+): Omit<SpecDiff['schema'][number], 'capability'> {
+  const addedDefinitions = Object.keys(after).filter((name) => !(name in before)).sort();
+  const removedDefinitions = Object.keys(before).filter((name) => !(name in after)).sort();
+  const fields: SchemaFieldChange[] = [];
+
+  for (const name of Object.keys(after).sort()) {
+    if (name in before) {
+      diffFields(before[name], after[name], name, 0, fields);
+    }
+  }
+
+  return { addedDefinitions, removedDefinitions, fields };
+}
+
+/**
+ * Compare the properties of two object schemas, recursing into nested objects
+ */
+function diffFields(before: any, after: any, prefix: string, depth: number, out: SchemaFieldChange[]): void {
+  const beforeProps: Record<string, any> = before?.properties ?? {};
+  const afterProps: Record<string, any> = after?.properties ?? {};
+  const beforeRequired = new Set<string>(before?.required ?? []);
+  const afterRequired = new Set<string>(after?.required ?? []);
+
+  for (const key of Object.keys(afterProps).sort()) {
+    const path = `${prefix}.${key}`;
+    if (!(key in beforeProps)) {
+      out.push({ path, change: 'added', to: describeType(afterProps[key]) });
+      continue;
+    }
+
+    const fromType = describeType(beforeProps[key]);
+    const toType = describeType(afterProps[key]);
+    if (fromType !== toType) {
+      out.push({ path, change: 'type', from: fromType, to: toType });
+    }
+
+    if (!beforeRequired.has(key) && afterRequired.has(key)) out.push({ path, change: 'required' });
+    if (beforeRequired.has(key) && !afterRequired.has(key)) out.push({ path, change: 'optional' });
+
+    if (depth + 1 < MAX_FIELD_DEPTH && afterProps[key]?.properties && beforeProps[key]?.properties) {
+      diffFields(beforeProps[key], afterProps[key], path, depth + 1, out);
+    }
+  }
+
+  for (const key of Object.keys(beforeProps).sort()) {
+    if (!(key in afterProps)) {
+      out.push({ path: `${prefix}.${key}`, change: 'removed', from: describeType(beforeProps[key]) });
+    }
+  }
+}
+
+/**
+ * Short type description of a JSON schema: a type name, $ref target or union
+ */
+function describeType(schema: any): string {
+  if (!schema || typeof schema !== 'object') return 'unknown';
+  if (typeof schema.$ref === 'string') return schema.$ref.split('/').pop()!;
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.enum)) return schema.enum.map((v: unknown) => JSON.stringify(v)).join(' | ');
+
+  const union = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(union)) return union.map(describeType).join(' | ');
+
+  if (schema.type === 'array') return `${describeType(schema.items)}[]`;
+  if (Array.isArray(schema.type)) return schema.type.join(' | ');
+  return typeof schema.type === 'string' ? schema.type : 'object';
+}
+
+function formatFieldChange(field: SchemaFieldChange): string {
+  switch (field.change) {
+    case 'added':
+      return `\`${field.path}\`: added (${field.to})`;
+    case 'removed':
+      return `\`${field.path}\`: removed (was ${field.from})`;
+    case 'type':
+      return `\`${field.path}\`: type ${field.from} → ${field.to}`;
+    case 'required':
+      return `\`${field.path}\`: now required`;
+    case 'optional':
+      return `\`${field.path}\`: now optional`;
+  }
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
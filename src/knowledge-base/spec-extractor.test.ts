@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IndexedDocument, MCPSpecification } from '../schemas/knowledge-base.js';
+import { extractSpecifications } from './spec-extractor.js';
+
+const BASE: MCPSpecification = {
+  version: '2025-03-26',
+  lastUpdated: '2025-01-01T00:00:00.000Z',
+  capabilities: {
+    tools: { description: 'Functions that can be called by the LLM', schema: {} },
+  },
+  transports: [{ name: 'stdio', status: 'current', useCases: ['Local execution'] }],
+  lifecycle: { initialization: 'Base initialization', shutdown: 'Base shutdown' },
+  bestPractices: ['Validate inputs'],
+  commonPatterns: [],
+};
+
+function specDoc(filePath: string, content: unknown, repo = 'modelcontextprotocol'): IndexedDocument {
+  const text = typeof content === 'string' ? content : JSON.stringify(content);
+  return {
+    id: `modelcontextprotocol/${repo}/main/${filePath}`,
+    repoOwner: 'modelcontextprotocol',
+    repoName: repo,
+    branch: 'main',
+    filePath,
+    content: text,
+    metadata: { fileType: 'md', lastModified: '2025-06-18T12:00:00.000Z', size: text.length, hash: filePath },
+    indexed: '2025-06-18T12:00:00.000Z',
+  };
+}
+
+const SCHEMA = {
+  definitions: {
+    ServerCapabilities: {
+      properties: {
+        tools: { description: 'Present if the server offers any tools to call.' },
+        resources: { description: 'Present if the server offers any resources to read.' },
+      },
+    },
+    Tool: { type: 'object', properties: { name: { type: 'string' } } },
+    CallToolRequest: { type: 'object' },
+    Resource: { type: 'object' },
+    Implementation: { type: 'object' },
+  },
+};
+
+const TRANSPORTS = `# Transports
+
+## stdio
+
+The client launches the server as a subprocess.
+
+## Streamable HTTP
+
+This replaces the HTTP+SSE transport from protocol version 2024-11-05.
+
+## Custom Transports
+`;
+
+const LIFECYCLE = `# Lifecycle
+
+## Initialization
+
+<Info>Ignored component</Info>
+
+The initialization phase **MUST** be the first interaction between
+client and server. See [capabilities](#capabilities).
+
+- a list item
+
+## Shutdown
+
+During shutdown, the client closes the \`stdio\` streams.
+`;
+
+describe('extractSpecifications', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('builds one specification per published schema version, oldest first', () => {
+    const specs = extractSpecifications(
+      [
+        specDoc('schema/2025-06-18/schema.json', SCHEMA),
+        specDoc('schema/2024-11-05/schema.json', { definitions: { Tool: {} } }, 'specification'),
+        specDoc('schema/draft/schema.json', SCHEMA),
+        specDoc('schema/2025-01-01/schema.json', '{ broken'),
+        { ...specDoc('schema/2025-02-02/schema.json', SCHEMA), repoOwner: 'someone' },
+      ],
+      BASE
+    );
+
+    expect(specs.map((s) => s.version)).toEqual(['2024-11-05', '2025-06-18']);
+    expect(specs[0].source).toEqual({
+      repository: 'modelcontextprotocol/specification',
+      schemaPath: 'schema/2024-11-05/schema.json',
+    });
+  });
+
+  it('groups schema definitions by capability and keeps curated fields', () => {
+    const [spec] = extractSpecifications([specDoc('schema/2025-06-18/schema.json', SCHEMA)], BASE);
+
+    expect(spec.version).toBe('2025-06-18');
+    expect(spec.lastUpdated).toBe('2025-06-18T12:00:00.000Z');
+    expect(spec.capabilities.tools).toEqual({
+      description: 'Present if the server offers any tools to call.',
+      schema: { CallToolRequest: SCHEMA.definitions.CallToolRequest, Tool: SCHEMA.definitions.Tool },
+    });
+    expect(Object.keys(spec.capabilities.resources!.schema)).toEqual(['Resource']);
+    expect(spec.capabilities.prompts).toBeUndefined();
+
+    // Without versioned docs, transports and lifecycle come from the stored spec
+    expect(spec.transports).toEqual(BASE.transports);
+    expect(spec.lifecycle).toEqual(BASE.lifecycle);
+    expect(spec.bestPractices).toEqual(BASE.bestPractices);
+  });
+
+  it('reads transports and lifecycle from the docs of the same version', () => {
+    const [spec] = extractSpecifications(
+      [
+        specDoc('schema/2025-06-18/schema.json', SCHEMA),
+        specDoc('docs/specification/2025-06-18/basic/transports.mdx', TRANSPORTS),
+        specDoc('docs/specification/2025-06-18/basic/lifecycle.mdx', LIFECYCLE),
+        specDoc('docs/specification/2024-11-05/basic/lifecycle.mdx', '## Shutdown\n\nOlder text.'),
+      ],
+      BASE
+    );
+
+    expect(spec.transports).toEqual([
+      { name: 'stdio', status: 'current', useCases: ['Local execution', 'Single-user tools'] },
+      { name: 'streamable-http', status: 'current', useCases: ['Remote servers', 'Multi-user applications'] },
+      { name: 'http+sse', status: 'deprecated', useCases: ['Remote servers (protocol 2024-11-05)'] },
+    ]);
+    expect(spec.lifecycle).toEqual({
+      initialization:
+        'The initialization phase MUST be the first interaction between client and server. See capabilities.',
+      shutdown: 'During shutdown, the client closes the stdio streams.',
+    });
+  });
+});
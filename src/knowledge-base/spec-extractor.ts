@@ -0,0 +1,193 @@
+import path from 'path';
+import { IndexedDocument, MCPSpecification } from '../schemas/knowledge-base.js';
+
+/**
+ * MCP specification extraction
+ * Builds an MCPSpecification per published protocol version from the synced
+ * specification repo: capability schemas from schema/<version>/schema.json,
+ * transports and lifecycle from the versioned docs. Curated fields (best
+ * practices, common patterns) and anything the docs don't cover come from the
+ * spec already stored.
+ */
+
+// The repo was renamed; documents may be indexed under either name
+const SPEC_REPOS = new Set(['modelcontextprotocol/specification', 'modelcontextprotocol/modelcontextprotocol']);
+
+export const SPEC_INCLUDE_PATTERNS = ['**/*.md', '**/*.mdx', 'schema/*/schema.json'];
+
+// Published versions are dates; "draft" is not a release
+const VERSION_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const CAPABILITY_DEFINITIONS: Record<'tools' | 'resources' | 'prompts', RegExp> = {
+  tools: /Tool/,
+  resources: /Resource/,
+  prompts: /Prompt/,
+};
+
+const TRANSPORTS: Array<{ name: string; pattern: RegExp; useCases: string[] }> = [
+  { name: 'stdio', pattern: /\bstdio\b/i, useCases: ['Local execution', 'Single-user tools'] },
+  {
+    name: 'streamable-http',
+    pattern: /streamable\s+http/i,
+    useCases: ['Remote servers', 'Multi-user applications'],
+  },
+  {
+    name: 'http+sse',
+    pattern: /http\s*(?:\+|with)\s*sse/i,
+    useCases: ['Remote servers (protocol 2024-11-05)'],
+  },
+];
+
+/**
+ * Extract every published version found in the indexed documents, oldest first
+ */
+export function extractSpecifications(documents: IndexedDocument[], base: MCPSpecification): MCPSpecification[] {
+  const specDocs = documents.filter((doc) => SPEC_REPOS.has(`${doc.repoOwner}/${doc.repoName}`));
+  const specs: MCPSpecification[] = [];
+
+  for (const doc of specDocs) {
+    const match = /^schema\/([^/]+)\/schema\.json$/.exec(doc.filePath);
+    if (!match || !VERSION_RE.test(match[1])) continue;
+
+    let schema: Record<string, any>;
+    try {
+      schema = JSON.parse(doc.content);
+    } catch {
+      console.error(`Skipping unparseable MCP schema ${doc.filePath}`);
+      continue;
+    }
+
+    const version = match[1];
+    const versionDocs = specDocs.filter((d) => d.filePath.includes(`/${version}/`));
+    specs.push(buildSpecification(version, schema, versionDocs, base, doc));
+  }
+
+  return specs.sort((a, b) => a.version.localeCompare(b.version));
+}
+
+function buildSpecification(
+  version: string,
+  schema: Record<string, any>,
+  docs: IndexedDocument[],
+  base: MCPSpecification,
+  schemaDoc: IndexedDocument
+): MCPSpecification {
+  const definitions: Record<string, any> = schema.definitions ?? schema.$defs ?? {};
+  const serverCapabilities = definitions.ServerCapabilities?.properties ?? {};
+
+  const capabilities: MCPSpecification['capabilities'] = {};
+  for (const [capability, pattern] of Object.entries(CAPABILITY_DEFINITIONS)) {
+    const key = capability as keyof typeof CAPABILITY_DEFINITIONS;
+    const names = Object.keys(definitions).filter((name) => pattern.test(name)).sort();
+    if (names.length === 0 && !serverCapabilities[key]) continue;
+
+    capabilities[key] = {
+      description:
+        serverCapabilities[key]?.description ?? base.capabilities[key]?.description ?? `${capability} capability`,
+      schema: Object.fromEntries(names.map((name) => [name, definitions[name]])),
+    };
+  }
+
+  const transportsDoc = findDoc(docs, 'transports');
+  const lifecycleDoc = findDoc(docs, 'lifecycle');
+
+  return {
+    version,
+    lastUpdated: schemaDoc.metadata.lastModified,
+    capabilities,
+    transports: transportsDoc ? extractTransports(transportsDoc.content) : base.transports,
+    lifecycle: {
+      initialization:
+        (lifecycleDoc && sectionSummary(lifecycleDoc.content, /^initiali[sz]ation$/i)) ??
+        base.lifecycle.initialization,
+      shutdown: (lifecycleDoc && sectionSummary(lifecycleDoc.content, /^shutdown$/i)) ?? base.lifecycle.shutdown,
+    },
+    bestPractices: base.bestPractices,
+    commonPatterns: base.commonPatterns,
+    source: {
+      repository: `${schemaDoc.repoOwner}/${schemaDoc.repoName}`,
+      schemaPath: schemaDoc.filePath,
+    },
+  };
+}
+
+/**
+ * Transports with their own heading. A transport is deprecated when the docs
+ * say another one "replaces" it or call it deprecated.
+ */
+function extractTransports(markdown: string): MCPSpecification['transports'] {
+  const lines = markdown.split('\n');
+  const headings = lines.filter((line) => /^#{2,4}\s/.test(line));
+  const deprecated = new Set<string>();
+
+  for (const line of lines) {
+    const phrases = [
+      ...[...line.matchAll(/replaces\s+(?:the\s+)?([^.;]+)/gi)].map((m) => m[1]),
+      ...[...line.matchAll(/deprecated\s+([^.;,]+)/gi)].map((m) => m[1]),
+      ...[...line.matchAll(/([^.;,]+?)\s+(?:transport\s+)?(?:is|has been)\s+deprecated/gi)].map((m) => m[1]),
+    ];
+    for (const phrase of phrases) {
+      // Only the transport named first in the phrase, not ones mentioned later
+      const named = TRANSPORTS.map((t) => ({ t, index: phrase.search(t.pattern) }))
+        .filter(({ index }) => index !== -1)
+        .sort((a, b) => a.index - b.index)[0];
+      if (named) deprecated.add(named.t.name);
+    }
+  }
+
+  // Deprecated transports are listed even when only mentioned in passing
+  const listed = TRANSPORTS.filter(
+    (t) => deprecated.has(t.name) || headings.some((heading) => t.pattern.test(heading))
+  );
+  return listed.map((t) => ({
+    name: t.name,
+    status: deprecated.has(t.name) ? 'deprecated' : 'current',
+    useCases: t.useCases,
+  }));
+}
+
+/**
+ * First paragraph of prose under a heading, with Markdown links flattened
+ */
+function sectionSummary(markdown: string, heading: RegExp): string | undefined {
+  const lines = markdown.split('\n');
+  const start = lines.findIndex((line) => {
+    const match = /^#{2,4}\s+(.+)$/.exec(line);
+    return match !== null && heading.test(match[1].trim());
+  });
+  if (start === -1) return undefined;
+
+  const paragraph: string[] = [];
+  let inFence = false;
+  for (const line of lines.slice(start + 1)) {
+    const text = line.trim();
+    if (text.startsWith('```')) {
+      inFence = !inFence;
+      if (paragraph.length > 0) break;
+      continue;
+    }
+    if (inFence) continue;
+    if (/^#{1,4}\s/.test(line)) break;
+    if (text === '') {
+      if (paragraph.length > 0) break;
+      continue;
+    }
+    // Skip MDX components, tables and lists
+    if (/^(<|\||[-*]\s|\d+\.\s)/.test(text)) {
+      if (paragraph.length > 0) break;
+      continue;
+    }
+    paragraph.push(text);
+  }
+
+  const summary = paragraph
+    .join(' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\*\*|`/g, '')
+    .trim();
+  return summary || undefined;
+}
+
+function findDoc(docs: IndexedDocument[], name: string): IndexedDocument | undefined {
+  return docs.find((doc) => path.posix.basename(doc.filePath).replace(/\.mdx?$/, '') === name);
+}
@@ -0,0 +1,122 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BlocklistEntry } from '../schemas/knowledge-base.js';
+import { KnowledgeBaseStorage } from './storage.js';
+
+function entry(overrides: Partial<Omit<BlocklistEntry, 'hash'>> = {}): Omit<BlocklistEntry, 'hash'> {
+  return {
+    timestamp: '2025-01-01T00:00:00.000Z',
+    type: 'server',
+    serverName: '@evil/server',
+    reason: 'malicious',
+    allowOverride: false,
+    source: 'user',
+    ...overrides,
+  };
+}
+
+describe('KnowledgeBaseStorage blocklist', () => {
+  let baseDir: string;
+  let storage: KnowledgeBaseStorage;
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kb-storage-'));
+    storage = new KnowledgeBaseStorage(baseDir);
+    await storage.initialize();
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  async function writeEntries(entries: BlocklistEntry[]): Promise<void> {
+    const blocklist = await storage.loadBlocklist();
+    await storage.saveBlocklist({ ...blocklist, entries });
+  }
+
+  it('appends entries with verifiable hashes', async () => {
+    await storage.appendBlocklistEntries([
+      entry(),
+      entry({ type: 'file_pattern', serverName: undefined, pattern: '**/*.secret.md' }),
+    ]);
+
+    const { entries } = await storage.loadBlocklist();
+    expect(entries).toHaveLength(2);
+    expect(entries[0].hash).toMatch(/^sha256:[0-9a-f]{64}$/);
+    await expect(storage.verifyBlocklist()).resolves.toEqual({ total: 2, valid: 2, tampered: [] });
+  });
+
+  it('removes entries by appending a tombstone and keeps the log', async () => {
+    await storage.addBlocklistEntry(entry());
+    const [blocked] = (await storage.loadBlocklist()).entries;
+
+    const tombstone = await storage.removeBlocklistEntry(blocked.hash.slice('sha256:'.length, 20), 'false positive');
+    expect(tombstone).toMatchObject({ action: 'remove', targetHash: blocked.hash, source: 'user' });
+
+    const { entries } = await storage.loadBlocklist();
+    expect(entries).toEqual([blocked, tombstone]);
+    expect(storage.getActiveEntries(entries)).toEqual([]);
+    await expect(storage.isBlocked('@evil/server')).resolves.toMatchObject({ blocked: false });
+
+    await expect(storage.removeBlocklistEntry(blocked.hash, 'again')).rejects.toThrow('already been removed');
+    await expect(storage.removeBlocklistEntry(tombstone.hash, 'undo')).rejects.toThrow('is itself a remove tombstone');
+  });
+
+  it('only overrides system and community entries that allow it', async () => {
+    await storage.appendBlocklistEntries([
+      entry({ serverName: '@locked/server', source: 'system' }),
+      entry({ serverName: '@open/server', source: 'community', allowOverride: true }),
+    ]);
+    const [locked, open] = (await storage.loadBlocklist()).entries;
+
+    await expect(storage.removeBlocklistEntry(locked.hash, 'mine')).rejects.toThrow('does not allow overrides');
+    await expect(storage.removeBlocklistEntry(open.hash, 'reviewed')).resolves.toMatchObject({ action: 'override' });
+
+    const active = storage.getActiveEntries((await storage.loadBlocklist()).entries);
+    expect(active.map((e) => e.serverName)).toEqual(['@locked/server']);
+  });
+
+  it('ignores tombstones that fail hash verification', async () => {
+    await storage.appendBlocklistEntries([entry(), entry({ serverName: '@other/server' })]);
+    const [first, second] = (await storage.loadBlocklist()).entries;
+
+    // A hand-written tombstone, and a genuine one re-pointed at another entry
+    const tombstone = await storage.removeBlocklistEntry(first.hash, 'ok');
+    const forged: BlocklistEntry = { ...entry({ action: 'remove', targetHash: second.hash }), hash: 'sha256:forged' };
+    const redirected: BlocklistEntry = { ...tombstone, targetHash: second.hash };
+    await writeEntries([first, second, forged, redirected]);
+
+    const { entries } = await storage.loadBlocklist();
+    expect(storage.getActiveEntries(entries)).toEqual([first, second]);
+    await expect(storage.isBlocked('@other/server')).resolves.toMatchObject({ blocked: true });
+
+    const verification = await storage.verifyBlocklist();
+    expect(verification.valid).toBe(2);
+    expect(verification.tampered.map((t) => t.index)).toEqual([2, 3]);
+  });
+
+  it('does not let tombstones from feeds lift user entries', async () => {
+    await storage.addBlocklistEntry(entry());
+    const [blocked] = (await storage.loadBlocklist()).entries;
+
+    // Valid hash, but from a community feed
+    await storage.appendBlocklistEntries([
+      entry({ action: 'override', targetHash: blocked.hash, source: 'community' }),
+    ]);
+
+    const { entries } = await storage.loadBlocklist();
+    expect(storage.getActiveEntries(entries)).toEqual([blocked]);
+  });
+
+  it('keeps every concurrent update and leaves no temp files', async () => {
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) => storage.addBlocklistEntry(entry({ serverName: `@evil/server-${i}` })))
+    );
+
+    const { entries } = await storage.loadBlocklist();
+    expect(new Set(entries.map((e) => e.serverName)).size).toBe(20);
+    expect((await fs.readdir(path.join(baseDir, 'data'))).filter((name) => name.endsWith('.tmp'))).toEqual([]);
+  });
+});
@@ -6,27 +6,59 @@ import {
   Blocklist,
   BlocklistEntry,
   BlocklistSchema,
+  IndexedDocument,
   KnowledgeBaseConfig,
   KnowledgeBaseConfigSchema,
   MCPSpecification,
   MCPSpecificationSchema,
+  PersistedIndex,
+  PersistedIndexSchema,
+  PersistedVectorIndex,
+  PersistedVectorIndexSchema,
+  PromptTemplate,
+  PromptTemplateSchema,
+  RepoSyncState,
+  SyncHistory,
+  SyncHistorySchema,
+  SyncRun,
 } from '../schemas/knowledge-base.js';
+import {
+  BlocklistCheck,
+  BlocklistVerification,
+  FileBlocklist,
+  findBlocklistEntry,
+  isTombstone,
+  matchesServerEntry,
+  splitServerSpec,
+} from './blocklist.js';
+import { parseVersion } from './semver.js';
+import { matchGlob } from './glob.js';
+
+// Sync runs kept in data/sync-history.json
+const MAX_SYNC_RUNS = 50;
 
 /**
  * Storage manager for knowledge base data
- * Handles reading/writing JSON files in ~/.claude-kb/
+ * Handles reading/writing JSON files in ~/.claude-kb/. The search index and
+ * repository caches can live elsewhere (storage.cacheDir).
  */
 export class KnowledgeBaseStorage {
   private baseDir: string;
+  // index.json, vectors.json, repos/ and mirrors/
+  private cacheDir: string;
+  // Tail of the pending read-modify-write updates per file
+  private fileLocks: Map<string, Promise<unknown>>;
 
   constructor(baseDir?: string) {
     this.baseDir = baseDir || path.join(os.homedir(), '.claude-kb');
+    this.cacheDir = this.baseDir;
+    this.fileLocks = new Map();
   }
 
   async initialize(): Promise<void> {
     // Create directory structure
     await fs.mkdir(this.baseDir, { recursive: true });
-    await fs.mkdir(path.join(this.baseDir, 'repos'), { recursive: true });
+    await fs.mkdir(path.join(this.cacheDir, 'repos'), { recursive: true });
     await fs.mkdir(path.join(this.baseDir, 'data'), { recursive: true });
     await fs.mkdir(path.join(this.baseDir, 'templates'), { recursive: true });
 
@@ -50,6 +82,13 @@ export class KnowledgeBaseStorage {
           autoDiscoverUserRepos: true,
           includeOfficialMCPRepos: true,
           includeCommunityRepos: true,
+          communityCatalog: {
+            categories: [],
+            allowlist: [],
+            maxRepos: 25,
+            includePatterns: ['**/*.md', '**/package.json', '**/*.mcp.json'],
+            excludePatterns: ['**/node_modules/**', '**/.git/**'],
+          },
         },
         storage: {
           cacheDir: this.baseDir,
@@ -58,6 +97,16 @@ export class KnowledgeBaseStorage {
         blocklist: {
           enabled: true,
           strict: true,
+          feeds: [],
+        },
+        server: {
+          transport: 'stdio',
+          host: '127.0.0.1',
+          port: 3000,
+          allowedHosts: [],
+          allowedOrigins: [],
+          sessionIdleMinutes: 30,
+          auditPaths: [],
         },
       };
       await this.saveConfig(defaultConfig);
@@ -120,12 +169,12 @@ export class KnowledgeBaseStorage {
           {
             name: 'Tool Implementation',
             description: 'Standard pattern for implementing MCP tools',
-            example: 'See templates/tool-template.ts',
+            example: 'Use the mcp-tool prompt',
           },
           {
             name: 'Resource Exposure',
             description: 'Expose data via URI-based resources',
-            example: 'See templates/resource-template.ts',
+            example: 'Use the mcp-resource prompt',
           },
         ],
       };
@@ -133,6 +182,19 @@ export class KnowledgeBaseStorage {
     }
   }
 
+  /**
+   * Keep the search index and repository caches in another directory.
+   * Configuration, blocklist, specifications and templates stay in the base directory.
+   */
+  async setCacheDir(cacheDir: string): Promise<void> {
+    await fs.mkdir(path.join(cacheDir, 'repos'), { recursive: true });
+    this.cacheDir = cacheDir;
+  }
+
+  getCacheDir(): string {
+    return this.cacheDir;
+  }
+
   // Config methods
   getConfigPath(): string {
     return path.join(this.baseDir, 'config.json');
@@ -162,43 +224,151 @@ export class KnowledgeBaseStorage {
   }
 
   async addBlocklistEntry(entry: Omit<BlocklistEntry, 'hash'>): Promise<void> {
+    await this.appendBlocklistEntries([entry]);
+  }
+
+  /**
+   * Append several entries in one write, hashing each for verification
+   */
+  async appendBlocklistEntries(entries: Array<Omit<BlocklistEntry, 'hash'>>): Promise<void> {
+    if (entries.length === 0) return;
+
+    await this.withFileLock(this.getBlocklistPath(), async () => {
+      const blocklist = await this.loadBlocklist();
+
+      // Append to blocklist (append-only log)
+      for (const entry of entries) {
+        blocklist.entries.push({ ...entry, hash: this.calculateHash(entry) });
+      }
+      blocklist.lastUpdated = new Date().toISOString();
+
+      await this.saveBlocklist(blocklist);
+    });
+  }
+
+  /**
+   * Append a tombstone lifting an earlier block entry.
+   * The user's own entries can always be removed; system and community entries
+   * only when they were published with allowOverride.
+   */
+  async removeBlocklistEntry(id: string, reason: string): Promise<BlocklistEntry> {
+    return this.withFileLock(this.getBlocklistPath(), async () => {
+      const blocklist = await this.loadBlocklist();
+      const target = findBlocklistEntry(blocklist.entries, id);
+
+      if (isTombstone(target)) {
+        throw new Error(`Entry ${target.hash} is itself a ${target.action} tombstone`);
+      }
+      if (!this.getActiveEntries(blocklist.entries).includes(target)) {
+        throw new Error(`Entry ${target.hash} has already been removed`);
+      }
+      if (target.source !== 'user' && !target.allowOverride) {
+        throw new Error(`Entry ${target.hash} is a ${target.source} entry and does not allow overrides`);
+      }
+
+      const tombstone: Omit<BlocklistEntry, 'hash'> = {
+        timestamp: new Date().toISOString(),
+        type: target.type,
+        serverName: target.serverName,
+        version: target.version,
+        pattern: target.pattern,
+        reason,
+        allowOverride: false,
+        source: 'user',
+        action: target.source === 'user' ? 'remove' : 'override',
+        targetHash: target.hash,
+      };
+      const fullEntry: BlocklistEntry = { ...tombstone, hash: this.calculateHash(tombstone) };
+
+      blocklist.entries.push(fullEntry);
+      blocklist.lastUpdated = new Date().toISOString();
+      await this.saveBlocklist(blocklist);
+
+      return fullEntry;
+    });
+  }
+
+  /**
+   * Recompute every entry's hash and report the ones that no longer match
+   */
+  async verifyBlocklist(): Promise<BlocklistVerification> {
     const blocklist = await this.loadBlocklist();
+    const tampered: BlocklistVerification['tampered'] = [];
 
-    // Calculate hash for verification
-    const hash = this.calculateHash(entry);
-    const fullEntry: BlocklistEntry = { ...entry, hash };
+    blocklist.entries.forEach((entry, index) => {
+      const expectedHash = this.entryHash(entry);
+      if (expectedHash !== entry.hash) {
+        tampered.push({ index, hash: entry.hash, expectedHash, entry });
+      }
+    });
+
+    return {
+      total: blocklist.entries.length,
+      valid: blocklist.entries.length - tampered.length,
+      tampered,
+    };
+  }
 
-    // Append to blocklist (append-only log)
-    blocklist.entries.push(fullEntry);
-    blocklist.lastUpdated = new Date().toISOString();
+  /**
+   * Block entries that have not been lifted by a tombstone.
+   * Tombstones whose own hash doesn't verify are ignored, so editing the file
+   * can't silently unblock anything, and only user tombstones lift user entries.
+   */
+  getActiveEntries(entries: BlocklistEntry[]): BlocklistEntry[] {
+    const byHash = new Map(entries.map((e) => [e.hash, e]));
+    const lifted = new Set<string>();
 
-    await this.saveBlocklist(blocklist);
+    for (const entry of entries) {
+      if (!isTombstone(entry) || !entry.targetHash || this.entryHash(entry) !== entry.hash) continue;
+      const target = byHash.get(entry.targetHash);
+      if (target && (target.source !== 'user' || entry.source === 'user')) {
+        lifted.add(target.hash);
+      }
+    }
+
+    return entries.filter((e) => !isTombstone(e) && !lifted.has(e.hash));
   }
 
-  async isBlocked(serverName?: string, pattern?: string): Promise<{ blocked: boolean; reason?: string }> {
+  /**
+   * Check a server (optionally at a version) and/or a file pattern against the
+   * entries in effect. Every matching entry is returned.
+   */
+  async isBlocked(serverName?: string, pattern?: string, version?: string): Promise<BlocklistCheck> {
     const blocklist = await this.loadBlocklist();
+    const entries = this.getActiveEntries(blocklist.entries);
+    const matches: BlocklistEntry[] = [];
 
-    // Check server blocklist
+    // Server entries: exact or wildcard names, optionally limited to a version range
     if (serverName) {
-      const entry = blocklist.entries.find(
-        (e) => e.type === 'server' && e.serverName === serverName
-      );
-      if (entry) {
-        return { blocked: true, reason: entry.reason };
+      const server = splitServerSpec(serverName);
+      const serverVersion = version || server.version;
+      if (serverVersion && !parseVersion(serverVersion)) {
+        throw new Error(`Invalid version: ${serverVersion}`);
       }
+      matches.push(...entries.filter((e) => matchesServerEntry(e, server.name, serverVersion)));
     }
 
-    // Check file pattern exclusions
+    // File pattern exclusions: the pattern itself, or a file path matching a glob
     if (pattern) {
-      const entry = blocklist.entries.find(
-        (e) => e.type === 'file_pattern' && e.pattern === pattern
+      matches.push(
+        ...entries.filter(
+          (e) =>
+            e.type === 'file_pattern' &&
+            e.pattern !== undefined &&
+            (e.pattern === pattern || matchGlob(pattern, e.pattern))
+        )
       );
-      if (entry) {
-        return { blocked: true, reason: entry.reason };
-      }
     }
 
-    return { blocked: false };
+    return { blocked: matches.length > 0, reason: matches[0]?.reason, matches };
+  }
+
+  /**
+   * Load file pattern entries together with the blocklist enabled/strict settings
+   */
+  async loadFileBlocklist(): Promise<FileBlocklist> {
+    const [blocklist, config] = await Promise.all([this.loadBlocklist(), this.loadConfig()]);
+    return new FileBlocklist(this.getActiveEntries(blocklist.entries), config.blocklist);
   }
 
   // MCP Specification methods
@@ -206,8 +376,16 @@ export class KnowledgeBaseStorage {
     return path.join(this.baseDir, 'data', 'specification.json');
   }
 
-  async loadSpecification(): Promise<MCPSpecification> {
-    const data = await fs.readFile(this.getSpecificationPath(), 'utf-8');
+  getSpecificationVersionsDir(): string {
+    return path.join(this.baseDir, 'data', 'specifications');
+  }
+
+  /**
+   * Load the latest specification, or a specific protocol version
+   */
+  async loadSpecification(version?: string): Promise<MCPSpecification> {
+    const specPath = version ? this.getSpecificationVersionPath(version) : this.getSpecificationPath();
+    const data = await fs.readFile(specPath, 'utf-8');
     return MCPSpecificationSchema.parse(JSON.parse(data));
   }
 
@@ -215,6 +393,173 @@ export class KnowledgeBaseStorage {
     await this.writeJSON(this.getSpecificationPath(), spec);
   }
 
+  /**
+   * Store one protocol version alongside the others
+   */
+  async saveSpecificationVersion(spec: MCPSpecification): Promise<void> {
+    await fs.mkdir(this.getSpecificationVersionsDir(), { recursive: true });
+    await this.writeJSON(this.getSpecificationVersionPath(spec.version), spec);
+  }
+
+  /**
+   * Stored protocol versions, oldest first
+   */
+  async listSpecificationVersions(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.getSpecificationVersionsDir());
+      return files
+        .filter((f) => f.endsWith('.json'))
+        .map((f) => f.slice(0, -'.json'.length))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  private getSpecificationVersionPath(version: string): string {
+    // Versions are dates like 2025-03-26; anything else could escape the directory
+    if (!/^[\w.-]+$/.test(version) || version.startsWith('.')) {
+      throw new Error(`Invalid specification version: ${version}`);
+    }
+    return path.join(this.getSpecificationVersionsDir(), `${version}.json`);
+  }
+
+  // Search index methods
+  getIndexPath(): string {
+    return path.join(this.cacheDir, 'index.json');
+  }
+
+  /**
+   * Load the persisted search index.
+   * Returns null if no index has been written yet or it can't be parsed,
+   * in which case the caller should fall back to a full sync.
+   */
+  async loadIndex(): Promise<PersistedIndex | null> {
+    const indexPath = this.getIndexPath();
+    if (!(await this.fileExists(indexPath))) {
+      return null;
+    }
+
+    try {
+      const data = await fs.readFile(indexPath, 'utf-8');
+      return PersistedIndexSchema.parse(JSON.parse(data));
+    } catch (error) {
+      console.error('Ignoring unreadable search index:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  async saveIndex(documents: IndexedDocument[], repositories: RepoSyncState[]): Promise<void> {
+    const index: PersistedIndex = {
+      version: '1.0.0',
+      lastUpdated: new Date().toISOString(),
+      documents,
+      repositories,
+    };
+    await this.writeJSON(this.getIndexPath(), index);
+  }
+
+  // Sync history methods
+  getSyncHistoryPath(): string {
+    return path.join(this.baseDir, 'data', 'sync-history.json');
+  }
+
+  /**
+   * Load the sync history, empty if no sync has run yet or it can't be parsed
+   */
+  async loadSyncHistory(): Promise<SyncHistory> {
+    try {
+      const data = await fs.readFile(this.getSyncHistoryPath(), 'utf-8');
+      return SyncHistorySchema.parse(JSON.parse(data));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Ignoring unreadable sync history:', error instanceof Error ? error.message : error);
+      }
+      return { version: '1.0.0', runs: [] };
+    }
+  }
+
+  /**
+   * Append a sync run, keeping only the most recent runs
+   */
+  async appendSyncRun(run: SyncRun): Promise<void> {
+    await this.withFileLock(this.getSyncHistoryPath(), async () => {
+      const history = await this.loadSyncHistory();
+      history.runs = [...history.runs, run].slice(-MAX_SYNC_RUNS);
+      await this.writeJSON(this.getSyncHistoryPath(), history);
+    });
+  }
+
+  // Template methods
+  getTemplatesDir(): string {
+    return path.join(this.baseDir, 'templates');
+  }
+
+  /**
+   * Load user prompt templates (*.json) from the templates directory.
+   * Invalid templates are logged and skipped.
+   */
+  async loadUserTemplates(): Promise<Array<PromptTemplate & { template: string }>> {
+    const templatesDir = this.getTemplatesDir();
+    const templates: Array<PromptTemplate & { template: string }> = [];
+
+    let files: string[];
+    try {
+      files = (await fs.readdir(templatesDir)).filter((f) => f.endsWith('.json')).sort();
+    } catch {
+      return templates;
+    }
+
+    for (const file of files) {
+      try {
+        const data = await fs.readFile(path.join(templatesDir, file), 'utf-8');
+        const template = PromptTemplateSchema.parse(JSON.parse(data));
+
+        let body = template.template;
+        if (body === undefined) {
+          const bodyPath = path.resolve(templatesDir, template.templateFile!);
+          if (!bodyPath.startsWith(path.resolve(templatesDir) + path.sep)) {
+            throw new Error('templateFile must be inside the templates directory');
+          }
+          body = await fs.readFile(bodyPath, 'utf-8');
+        }
+
+        templates.push({ ...template, template: body });
+      } catch (error) {
+        console.error(`Skipping invalid template ${file}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return templates;
+  }
+
+  // Vector index methods
+  getVectorIndexPath(): string {
+    return path.join(this.cacheDir, 'vectors.json');
+  }
+
+  /**
+   * Load persisted embeddings, or null if none exist or they can't be parsed
+   */
+  async loadVectorIndex(): Promise<PersistedVectorIndex | null> {
+    const vectorPath = this.getVectorIndexPath();
+    if (!(await this.fileExists(vectorPath))) {
+      return null;
+    }
+
+    try {
+      const data = await fs.readFile(vectorPath, 'utf-8');
+      return PersistedVectorIndexSchema.parse(JSON.parse(data));
+    } catch (error) {
+      console.error('Ignoring unreadable vector index:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  async saveVectorIndex(index: PersistedVectorIndex): Promise<void> {
+    await this.writeJSON(this.getVectorIndexPath(), index);
+  }
+
   // Utility methods
   private async fileExists(filePath: string): Promise<boolean> {
     try {
@@ -225,17 +570,69 @@ export class KnowledgeBaseStorage {
     }
   }
 
+  /**
+   * Run a read-modify-write of filePath after the ones already pending for it
+   */
+  private async withFileLock<T>(filePath: string, update: () => Promise<T>): Promise<T> {
+    const previous = this.fileLocks.get(filePath) ?? Promise.resolve();
+    const result = previous.catch(() => {}).then(update);
+    const tail = result.catch(() => {});
+    this.fileLocks.set(filePath, tail);
+
+    try {
+      return await result;
+    } finally {
+      if (this.fileLocks.get(filePath) === tail) {
+        this.fileLocks.delete(filePath);
+      }
+    }
+  }
+
   private async writeJSON(filePath: string, data: any): Promise<void> {
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+    // Write to a temp file first so a crash mid-write never leaves a truncated file.
+    // The name is unique so concurrent writers (or processes) never share one.
+    const tmpPath = `${filePath}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+    try {
+      await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+      await fs.rename(tmpPath, filePath);
+    } catch (error) {
+      await fs.rm(tmpPath, { force: true });
+      throw error;
+    }
+  }
+
+  private entryHash(entry: BlocklistEntry): string {
+    const { hash: _hash, ...rest } = entry;
+    return this.calculateHash(rest);
   }
 
   private calculateHash(data: any): string {
-    const canonical = JSON.stringify(data, Object.keys(data).sort());
-    return `sha256:${crypto.createHash('sha256').update(canonical).digest('hex')}`;
+    return `sha256:${crypto.createHash('sha256').update(canonicalJSON(data)).digest('hex')}`;
   }
 
   getRepoPath(owner: string, repo: string): string {
-    return path.join(this.baseDir, 'repos', owner, repo);
+    // GitLab owners can be nested groups ("group/subgroup"); keep them one directory
+    return this.containedPath('repos', encodeURIComponent(owner), repo);
+  }
+
+  /**
+   * Bare mirror of a repository synced with the plain git provider
+   */
+  getMirrorPath(owner: string, repo: string): string {
+    return this.containedPath('mirrors', encodeURIComponent(owner), `${repo}.git`);
+  }
+
+  /**
+   * Join owner and repo directories under a cache subdirectory, refusing names
+   * such as ".." that would resolve outside of it
+   */
+  private containedPath(subdir: string, ownerDir: string, repoDir: string): string {
+    const base = path.resolve(this.cacheDir, subdir);
+    const resolved = path.resolve(base, ownerDir, repoDir);
+    if (path.dirname(path.dirname(resolved)) !== base) {
+      throw new Error(`Invalid repository name: ${ownerDir}/${repoDir}`);
+    }
+    return resolved;
   }
 
   async ensureRepoDir(owner: string, repo: string): Promise<string> {
@@ -243,4 +640,135 @@ export class KnowledgeBaseStorage {
     await fs.mkdir(repoPath, { recursive: true });
     return repoPath;
   }
+
+  /**
+   * Read a file from a repository's local cache.
+   * Returns null if it isn't cached or the path escapes the repo directory.
+   */
+  async readCachedFile(owner: string, repo: string, filePath: string): Promise<string | null> {
+    let repoPath: string;
+    try {
+      repoPath = this.getRepoPath(owner, repo);
+    } catch {
+      return null;
+    }
+    const localPath = path.resolve(repoPath, filePath);
+    if (!localPath.startsWith(repoPath + path.sep)) {
+      return null;
+    }
+
+    try {
+      return await fs.readFile(localPath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Delete a single file from a repository's local cache
+   */
+  async removeCachedFile(owner: string, repo: string, filePath: string): Promise<void> {
+    const repoPath = path.resolve(this.getRepoPath(owner, repo));
+    const localPath = path.resolve(repoPath, filePath);
+    if (!localPath.startsWith(repoPath + path.sep)) {
+      return;
+    }
+    await fs.rm(localPath, { force: true });
+  }
+
+  /**
+   * List repositories that have a local cache directory under repos/
+   */
+  async listCachedRepos(): Promise<Array<{ owner: string; repo: string }>> {
+    const reposDir = path.join(this.cacheDir, 'repos');
+    const cached: Array<{ owner: string; repo: string }> = [];
+
+    for (const owner of await this.listDirectories(reposDir)) {
+      for (const repo of await this.listDirectories(path.join(reposDir, owner))) {
+        cached.push({ owner: decodeURIComponent(owner), repo });
+      }
+    }
+
+    return cached;
+  }
+
+  /**
+   * Delete cached files of a repository that are not in keepPaths.
+   * Returns the relative paths that were removed.
+   */
+  async pruneRepoCache(owner: string, repo: string, keepPaths: Set<string>): Promise<string[]> {
+    const repoPath = this.getRepoPath(owner, repo);
+    const removed: string[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+          // Drop directories left empty by the prune
+          if ((await fs.readdir(fullPath)).length === 0) {
+            await fs.rmdir(fullPath);
+          }
+        } else {
+          const relativePath = path.relative(repoPath, fullPath).split(path.sep).join('/');
+          if (!keepPaths.has(relativePath)) {
+            await fs.unlink(fullPath);
+            removed.push(relativePath);
+          }
+        }
+      }
+    };
+
+    await walk(repoPath);
+    return removed;
+  }
+
+  /**
+   * Delete the whole local cache of a repository
+   */
+  async removeRepoCache(owner: string, repo: string): Promise<void> {
+    await fs.rm(this.getRepoPath(owner, repo), { recursive: true, force: true });
+    await fs.rm(this.getMirrorPath(owner, repo), { recursive: true, force: true });
+
+    // Remove the owner directories once their last repo is gone
+    for (const root of ['repos', 'mirrors']) {
+      const ownerDir = path.join(this.cacheDir, root, encodeURIComponent(owner));
+      if ((await this.listDirectories(ownerDir)).length === 0) {
+        await fs.rm(ownerDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  private async listDirectories(dir: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      return entries.filter((e) => e.isDirectory()).map((e) => e.name);
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * JSON with object keys sorted at every level and undefined values dropped
+ */
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => (v === undefined ? 'null' : canonicalJSON(v))).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJSON((value as Record<string, unknown>)[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
 }
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { SyncCancelledError, SyncCoordinator } from './sync-coordinator.js';
+
+/**
+ * A task that runs until released, or rejects once its signal aborts
+ */
+function controllableTask<T>() {
+  const started: Array<{ params: T; signal: AbortSignal }> = [];
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  const task = (params: T, signal: AbortSignal) => {
+    started.push({ params, signal });
+    return new Promise<T>((resolve, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+      released.then(() => resolve(params));
+    });
+  };
+
+  return { task, started, release };
+}
+
+describe('SyncCoordinator', () => {
+  it('runs jobs one at a time in request order', async () => {
+    const coordinator = new SyncCoordinator();
+    const order: string[] = [];
+    const first = controllableTask<string>();
+
+    const a = coordinator.run('a', 'a', first.task);
+    const b = coordinator.run('b', 'b', async (params) => {
+      order.push(params);
+      return params;
+    });
+
+    expect(coordinator.getState()).toEqual({ running: 'a', queued: ['b'] });
+    expect(order).toEqual([]);
+
+    first.release();
+    await expect(a).resolves.toBe('a');
+    await expect(b).resolves.toBe('b');
+    expect(coordinator.getState()).toEqual({ running: null, queued: [] });
+  });
+
+  it('joins a waiting job with the same key and merges its parameters', async () => {
+    const coordinator = new SyncCoordinator();
+    const blocker = controllableTask<number>();
+    const runs: number[] = [];
+    const sum = async (params: number) => {
+      runs.push(params);
+      return params;
+    };
+
+    void coordinator.run('blocker', 0, blocker.task);
+    const first = coordinator.run('sync', 1, sum, { merge: (a, b) => a + b });
+    const second = coordinator.run('sync', 2, sum, { merge: (a, b) => a + b });
+
+    blocker.release();
+    await expect(first).resolves.toBe(3);
+    await expect(second).resolves.toBe(3);
+    expect(runs).toEqual([3]);
+  });
+
+  it('cancels a running job once its only caller aborts', async () => {
+    const coordinator = new SyncCoordinator();
+    const { task, started } = controllableTask<string>();
+    const controller = new AbortController();
+
+    const result = coordinator.run('sync', 'x', task, { signal: controller.signal });
+    controller.abort();
+
+    await expect(result).rejects.toBeInstanceOf(SyncCancelledError);
+    expect(started[0].signal.aborted).toBe(true);
+    await expect(coordinator.run('next', 'y', async (params) => params)).resolves.toBe('y');
+  });
+
+  it('keeps a job running while another caller still waits for it', async () => {
+    const coordinator = new SyncCoordinator();
+    const blocker = controllableTask<string>();
+    const job = controllableTask<string>();
+    const controller = new AbortController();
+
+    void coordinator.run('blocker', 'b', blocker.task);
+    const aborted = coordinator.run('sync', 'x', job.task, { signal: controller.signal });
+    const waiting = coordinator.run('sync', 'x', job.task, { signal: new AbortController().signal });
+
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(SyncCancelledError);
+
+    blocker.release();
+    job.release();
+    await expect(waiting).resolves.toBe('x');
+    expect(job.started).toHaveLength(1);
+    expect(job.started[0].signal.aborted).toBe(false);
+  });
+
+  it('drops a queued job whose callers all aborted without running it', async () => {
+    const coordinator = new SyncCoordinator();
+    const blocker = controllableTask<string>();
+    const job = controllableTask<string>();
+    const controller = new AbortController();
+
+    void coordinator.run('blocker', 'b', blocker.task);
+    const queued = coordinator.run('sync', 'x', job.task, { signal: controller.signal });
+    expect(coordinator.has('sync')).toBe(true);
+
+    controller.abort();
+    await expect(queued).rejects.toBeInstanceOf(SyncCancelledError);
+    expect(coordinator.has('sync')).toBe(false);
+
+    blocker.release();
+    await Promise.resolve();
+    expect(job.started).toHaveLength(0);
+  });
+
+  it('never cancels a job that has a caller without a signal', async () => {
+    const coordinator = new SyncCoordinator();
+    const blocker = controllableTask<string>();
+    const job = controllableTask<string>();
+    const controller = new AbortController();
+
+    void coordinator.run('blocker', 'b', blocker.task);
+    const plain = coordinator.run('sync', 'x', job.task);
+    const aborted = coordinator.run('sync', 'x', job.task, { signal: controller.signal });
+
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(SyncCancelledError);
+    expect(coordinator.has('sync')).toBe(true);
+
+    blocker.release();
+    job.release();
+    await expect(plain).resolves.toBe('x');
+    expect(job.started[0].signal.aborted).toBe(false);
+  });
+
+  it('rejects every caller when the job fails and moves on', async () => {
+    const coordinator = new SyncCoordinator();
+
+    const failing = coordinator.run('sync', null, async () => {
+      throw new Error('boom');
+    });
+    const next = coordinator.run('other', 'ok', async (params) => params);
+
+    await expect(failing).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('ok');
+  });
+});
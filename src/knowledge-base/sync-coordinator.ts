@@ -0,0 +1,150 @@
+/**
+ * Sync coordinator
+ * Runs sync jobs one at a time, in request order. A request for a job that is
+ * already waiting (same key) joins it instead of queueing another run, with
+ * the parameters merged. Callers can pass an AbortSignal: a caller that aborts
+ * stops waiting, and the job is cancelled once every caller waiting on it has
+ * aborted.
+ */
+
+export class SyncCancelledError extends Error {
+  constructor(message: string = 'Sync cancelled') {
+    super(message);
+    this.name = 'SyncCancelledError';
+  }
+}
+
+export interface SyncJobOptions<P> {
+  /** Aborts this caller's request */
+  signal?: AbortSignal;
+  /** Combine the parameters of the waiting job with those of a new request; default keeps the waiting ones */
+  merge?: (queued: P, incoming: P) => P;
+}
+
+interface Job {
+  key: string;
+  params: unknown;
+  task: (params: unknown, signal: AbortSignal) => Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting for the result; those without a signal never stop */
+  waiting: number;
+  promise: Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+export class SyncCoordinator {
+  private queue: Job[] = [];
+  private running: Job | null = null;
+
+  /**
+   * Run a job after the ones before it, or join the waiting job with the same key
+   */
+  run<P, T>(
+    key: string,
+    params: P,
+    task: (params: P, signal: AbortSignal) => Promise<T>,
+    options: SyncJobOptions<P> = {}
+  ): Promise<T> {
+    let job = this.queue.find((queued) => queued.key === key);
+
+    if (job) {
+      if (options.merge) {
+        job.params = options.merge(job.params as P, params);
+      }
+    } else {
+      let resolve!: (value: unknown) => void;
+      let reject!: (error: unknown) => void;
+      const promise = new Promise<unknown>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      // Callers that aborted no longer listen; don't let a late failure go unhandled
+      promise.catch(() => {});
+
+      job = {
+        key,
+        params,
+        task: task as Job['task'],
+        controller: new AbortController(),
+        waiting: 0,
+        promise,
+        resolve,
+        reject,
+      };
+      this.queue.push(job);
+    }
+
+    const result = this.attach(job, options.signal) as Promise<T>;
+    void this.drain();
+    return result;
+  }
+
+  /**
+   * Whether a job with this key is running or waiting
+   */
+  has(key: string): boolean {
+    return this.running?.key === key || this.queue.some((job) => job.key === key);
+  }
+
+  /**
+   * Keys of the running job and of the jobs waiting after it
+   */
+  getState(): { running: string | null; queued: string[] } {
+    return { running: this.running?.key ?? null, queued: this.queue.map((job) => job.key) };
+  }
+
+  /**
+   * Add a caller to a job; its promise rejects with SyncCancelledError as soon as its signal aborts
+   */
+  private attach(job: Job, signal?: AbortSignal): Promise<unknown> {
+    job.waiting++;
+    if (!signal) return job.promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        reject(new SyncCancelledError());
+        if (--job.waiting === 0) {
+          this.cancel(job);
+        }
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+      job.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Drop a waiting job, or signal a running one to stop
+   */
+  private cancel(job: Job): void {
+    job.controller.abort(new SyncCancelledError());
+
+    const index = this.queue.indexOf(job);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+      job.reject(new SyncCancelledError());
+    }
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) return;
+
+    const job = this.queue.shift();
+    if (!job) return;
+
+    this.running = job;
+    try {
+      job.resolve(await job.task(job.params, job.controller.signal));
+    } catch (error) {
+      job.reject(error);
+    } finally {
+      this.running = null;
+      void this.drain();
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { RepoSyncRecord, SyncRun } from '../schemas/knowledge-base.js';
+
+/**
+ * Sync history queries
+ * Summaries over the persisted sync runs for get_sync_status.
+ */
+
+export interface FailingRepository {
+  repository: string;
+  /** Error of the most recent attempt */
+  error: string;
+  /** Start of the first run in the current streak of failures */
+  failingSince: string;
+  consecutiveFailures: number;
+  /** End of the last successful sync, if it is still in the history */
+  lastSuccess?: string;
+}
+
+/**
+ * A run without its per-repository records: totals and the repos that had errors
+ */
+export function summarizeRun(run: SyncRun) {
+  const { repositories, ...summary } = run;
+  return {
+    ...summary,
+    repositoryCount: repositories.length,
+    errors: repositories
+      .filter((r) => r.error)
+      .map((r) => ({ repository: r.repository, error: r.error! })),
+  };
+}
+
+/**
+ * Repositories whose most recent sync failed, worst streak first
+ */
+export function failingRepositories(runs: SyncRun[]): FailingRepository[] {
+  const streaks = new Map<string, FailingRepository>();
+  const settled = new Set<string>();
+
+  // Newest first: count failures back to the last success
+  for (const run of [...runs].reverse()) {
+    for (const record of run.repositories) {
+      if (settled.has(record.repository)) continue;
+
+      const streak = streaks.get(record.repository);
+      if (!record.error) {
+        settled.add(record.repository);
+        if (streak) streak.lastSuccess = record.finishedAt;
+        continue;
+      }
+
+      if (streak) {
+        streak.failingSince = record.startedAt;
+        streak.consecutiveFailures++;
+      } else {
+        streaks.set(record.repository, {
+          repository: record.repository,
+          error: record.error,
+          failingSince: record.startedAt,
+          consecutiveFailures: 1,
+        });
+      }
+    }
+  }
+
+  return [...streaks.values()].sort(
+    (a, b) => b.consecutiveFailures - a.consecutiveFailures || a.repository.localeCompare(b.repository)
+  );
+}
+
+/**
+ * Every record of the matching repositories, newest first, with the run they belong to
+ */
+export function repositoryHistory(
+  runs: SyncRun[],
+  matches: (repository: string) => boolean
+): Array<RepoSyncRecord & { trigger: SyncRun['trigger'] }> {
+  return [...runs]
+    .reverse()
+    .flatMap((run) =>
+      run.repositories.filter((r) => matches(r.repository)).map((r) => ({ ...r, trigger: run.trigger }))
+    );
+}
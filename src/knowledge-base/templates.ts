@@ -0,0 +1,427 @@
+import { MCPSpecification, PromptTemplate } from '../schemas/knowledge-base.js';
+
+/**
+ * Scaffold templates exposed as MCP prompts
+ * Built-in templates render code for tools, resources, prompts and server
+ * skeletons. User templates from ~/.claude-kb/templates use {{argument}}
+ * placeholder substitution.
+ */
+
+export interface TemplateArgument {
+  name: string;
+  description?: string;
+  required: boolean;
+}
+
+export interface ScaffoldTemplate {
+  name: string;
+  description: string;
+  arguments: TemplateArgument[];
+  /** Keywords used to pick relevant best practices from the spec */
+  topics: string[];
+  render(args: Record<string, string>): string;
+}
+
+/**
+ * Render a template into the prompt text, including relevant best practices
+ */
+export function renderScaffold(
+  template: ScaffoldTemplate,
+  args: Record<string, string>,
+  spec: MCPSpecification
+): string {
+  const missing = template.arguments
+    .filter((arg) => arg.required && !args[arg.name])
+    .map((arg) => arg.name);
+  if (missing.length > 0) {
+    throw new Error(`Missing required arguments for ${template.name}: ${missing.join(', ')}`);
+  }
+
+  const practices = selectBestPractices(spec.bestPractices, template.topics);
+
+  return [
+    `${template.description}. Use this scaffold as the starting point (MCP protocol ${spec.version}):`,
+    '',
+    template.render(args).trimEnd(),
+    '',
+    'Follow these best practices:',
+    ...practices.map((practice) => `- ${practice}`),
+  ].join('\n');
+}
+
+/**
+ * Pick best practices mentioning any of the topics, or all when none match
+ */
+function selectBestPractices(bestPractices: string[], topics: string[]): string[] {
+  if (topics.length === 0) return bestPractices;
+
+  const relevant = bestPractices.filter((practice) =>
+    topics.some((topic) => practice.toLowerCase().includes(topic.toLowerCase()))
+  );
+  return relevant.length > 0 ? relevant : bestPractices;
+}
+
+/**
+ * Wrap a user template so it can be rendered like a built-in
+ */
+export function fromUserTemplate(template: PromptTemplate & { template: string }): ScaffoldTemplate {
+  return {
+    name: template.name,
+    description: template.description,
+    arguments: template.arguments,
+    topics: template.topics,
+    render: (args) =>
+      template.template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => args[name] ?? ''),
+  };
+}
+
+/**
+ * Split a comma-separated argument into trimmed, non-empty items
+ */
+function splitList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function toCamelCase(name: string): string {
+  return name.replace(/[-_\s]+(\w)/g, (_, c: string) => c.toUpperCase());
+}
+
+function toPascalCase(name: string): string {
+  const camel = toCamelCase(name);
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+function indent(code: string, prefix: string): string {
+  return code
+    .split('\n')
+    .map((line) => (line.length > 0 ? prefix + line : line))
+    .join('\n');
+}
+
+/**
+ * Code for one tool: Zod schema, definition and call handler case
+ */
+function renderToolParts(toolName: string, description: string) {
+  const schemaName = `${toPascalCase(toolName)}Schema`;
+
+  return {
+    schema: [
+      `const ${schemaName} = z.object({`,
+      `  // TODO: describe the tool's inputs`,
+      `  input: z.string().describe('Input for ${toolName}'),`,
+      `});`,
+    ].join('\n'),
+    definition: [
+      `  {`,
+      `    name: '${toolName}',`,
+      `    description: '${description.replace(/'/g, "\\'")}',`,
+      `    inputSchema: zodToJsonSchema(${schemaName}) as any,`,
+      `  },`,
+    ].join('\n'),
+    handler: [
+      `      case '${toolName}': {`,
+      `        const args = ${schemaName}.parse(request.params.arguments);`,
+      `        // TODO: implement ${toolName}`,
+      `        return {`,
+      `          content: [{ type: 'text', text: JSON.stringify({ received: args.input }) }],`,
+      `        };`,
+      `      }`,
+    ].join('\n'),
+  };
+}
+
+function renderCallToolHandler(handlers: string[]): string {
+  return [
+    `server.setRequestHandler(CallToolRequestSchema, async (request) => {`,
+    `  try {`,
+    `    switch (request.params.name) {`,
+    handlers.join('\n\n'),
+    ``,
+    `      default:`,
+    `        throw new Error(\`Unknown tool: \${request.params.name}\`);`,
+    `    }`,
+    `  } catch (error) {`,
+    `    // Return errors as results so the LLM can see and react to them`,
+    `    return {`,
+    `      content: [`,
+    `        { type: 'text', text: \`Error: \${error instanceof Error ? error.message : String(error)}\` },`,
+    `      ],`,
+    `      isError: true,`,
+    `    };`,
+    `  }`,
+    `});`,
+  ].join('\n');
+}
+
+const toolTemplate: ScaffoldTemplate = {
+  name: 'mcp-tool',
+  description: 'Implement an MCP tool with Zod input validation and structured errors',
+  arguments: [
+    { name: 'toolName', description: 'Tool name (snake_case)', required: true },
+    { name: 'description', description: 'What the tool does', required: false },
+  ],
+  topics: ['zod', 'valid', 'error', 'typescript'],
+  render: (args) => {
+    const parts = renderToolParts(args.toolName, args.description || `TODO: describe ${args.toolName}`);
+    return [
+      '```typescript',
+      `import { CallToolRequestSchema, ListToolsRequestSchema, Tool } from '@modelcontextprotocol/sdk/types.js';`,
+      `import { z } from 'zod';`,
+      `import { zodToJsonSchema } from 'zod-to-json-schema';`,
+      ``,
+      parts.schema,
+      ``,
+      `const TOOLS: Tool[] = [`,
+      parts.definition,
+      `];`,
+      ``,
+      `server.setRequestHandler(ListToolsRequestSchema, async () => {`,
+      `  return { tools: TOOLS };`,
+      `});`,
+      ``,
+      renderCallToolHandler([parts.handler]),
+      '```',
+    ].join('\n');
+  },
+};
+
+const resourceTemplate: ScaffoldTemplate = {
+  name: 'mcp-resource',
+  description: 'Expose data as MCP resources addressed by URI',
+  arguments: [
+    { name: 'resourceName', description: 'Human-readable resource name', required: true },
+    { name: 'uriTemplate', description: 'URI template, e.g. "notes://{id}"', required: false },
+  ],
+  topics: ['valid', 'error', 'typescript'],
+  render: (args) => {
+    const uriTemplate = args.uriTemplate || `${toCamelCase(args.resourceName).toLowerCase()}://{id}`;
+    const scheme = uriTemplate.split('://')[0];
+    return [
+      '```typescript',
+      `import {`,
+      `  ListResourcesRequestSchema,`,
+      `  ListResourceTemplatesRequestSchema,`,
+      `  ReadResourceRequestSchema,`,
+      `} from '@modelcontextprotocol/sdk/types.js';`,
+      ``,
+      `// Declare the capability when creating the server: capabilities: { resources: {} }`,
+      ``,
+      `server.setRequestHandler(ListResourcesRequestSchema, async () => {`,
+      `  // TODO: list concrete resources`,
+      `  return { resources: [] };`,
+      `});`,
+      ``,
+      `server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {`,
+      `  return {`,
+      `    resourceTemplates: [`,
+      `      { uriTemplate: '${uriTemplate}', name: '${args.resourceName}' },`,
+      `    ],`,
+      `  };`,
+      `});`,
+      ``,
+      `server.setRequestHandler(ReadResourceRequestSchema, async (request) => {`,
+      `  const { uri } = request.params;`,
+      `  if (!uri.startsWith('${scheme}://')) {`,
+      `    throw new Error(\`Unknown resource: \${uri}\`);`,
+      `  }`,
+      ``,
+      `  // TODO: load the resource content`,
+      `  return {`,
+      `    contents: [{ uri, mimeType: 'application/json', text: JSON.stringify({}) }],`,
+      `  };`,
+      `});`,
+      '```',
+    ].join('\n');
+  },
+};
+
+const promptTemplate: ScaffoldTemplate = {
+  name: 'mcp-prompt',
+  description: 'Offer a reusable prompt template through the MCP prompts capability',
+  arguments: [
+    { name: 'promptName', description: 'Prompt name', required: true },
+    { name: 'arguments', description: 'Comma-separated prompt argument names', required: false },
+  ],
+  topics: ['valid', 'typescript'],
+  render: (args) => {
+    const promptArgs = splitList(args.arguments);
+    return [
+      '```typescript',
+      `import { GetPromptRequestSchema, ListPromptsRequestSchema } from '@modelcontextprotocol/sdk/types.js';`,
+      ``,
+      `// Declare the capability when creating the server: capabilities: { prompts: {} }`,
+      ``,
+      `server.setRequestHandler(ListPromptsRequestSchema, async () => {`,
+      `  return {`,
+      `    prompts: [`,
+      `      {`,
+      `        name: '${args.promptName}',`,
+      `        description: 'TODO: describe ${args.promptName}',`,
+      `        arguments: [`,
+      ...promptArgs.map((arg) => `          { name: '${arg}', required: true },`),
+      `        ],`,
+      `      },`,
+      `    ],`,
+      `  };`,
+      `});`,
+      ``,
+      `server.setRequestHandler(GetPromptRequestSchema, async (request) => {`,
+      `  if (request.params.name !== '${args.promptName}') {`,
+      `    throw new Error(\`Unknown prompt: \${request.params.name}\`);`,
+      `  }`,
+      `  const args = request.params.arguments || {};`,
+      ``,
+      `  return {`,
+      `    messages: [`,
+      `      {`,
+      `        role: 'user',`,
+      `        content: { type: 'text', text: \`TODO: prompt text using ${promptArgs.map((arg) => `\${args.${arg}}`).join(', ') || 'its arguments'}\` },`,
+      `      },`,
+      `    ],`,
+      `  };`,
+      `});`,
+      '```',
+    ].join('\n');
+  },
+};
+
+const serverTemplate: ScaffoldTemplate = {
+  name: 'mcp-server',
+  description: 'Create a new MCP server project skeleton',
+  arguments: [
+    { name: 'serverName', description: 'Server (package) name', required: true },
+    { name: 'toolNames', description: 'Comma-separated tool names', required: false },
+    { name: 'transport', description: 'stdio (default) or http', required: false },
+  ],
+  topics: [],
+  render: (args) => {
+    const transport = (args.transport || 'stdio').toLowerCase();
+    if (transport !== 'stdio' && transport !== 'http') {
+      throw new Error(`Unsupported transport "${args.transport}", use stdio or http`);
+    }
+
+    const toolNames = splitList(args.toolNames);
+    const tools = (toolNames.length > 0 ? toolNames : ['example_tool']).map((name) =>
+      renderToolParts(name, `TODO: describe ${name}`)
+    );
+
+    const transportImport = transport === 'stdio'
+      ? `import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';`
+      : [
+          `import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';`,
+          `import http from 'http';`,
+        ].join('\n');
+
+    const startup = transport === 'stdio'
+      ? [
+          `async function main() {`,
+          `  const transport = new StdioServerTransport();`,
+          `  await createServer().connect(transport);`,
+          `  // stdout is reserved for JSON-RPC, log to stderr`,
+          `  console.error('${args.serverName} running on stdio');`,
+          `}`,
+        ]
+      : [
+          `async function main() {`,
+          `  // Stateless mode: a fresh server and transport per request, so concurrent`,
+          `  // requests never share a connection`,
+          `  const httpServer = http.createServer(async (req, res) => {`,
+          `    if (req.url !== '/mcp') {`,
+          `      res.writeHead(404).end();`,
+          `      return;`,
+          `    }`,
+          `    const server = createServer();`,
+          `    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });`,
+          `    res.on('close', () => {`,
+          `      transport.close();`,
+          `      server.close();`,
+          `    });`,
+          `    await server.connect(transport);`,
+          `    await transport.handleRequest(req, res);`,
+          `  });`,
+          ``,
+          `  const port = Number(process.env.PORT) || 3000;`,
+          `  httpServer.listen(port, () => {`,
+          `    console.error(\`${args.serverName} listening on http://localhost:\${port}/mcp\`);`,
+          `  });`,
+          `}`,
+        ];
+
+    return [
+      '```typescript',
+      `#!/usr/bin/env node`,
+      ``,
+      `import { Server } from '@modelcontextprotocol/sdk/server/index.js';`,
+      transportImport,
+      `import { CallToolRequestSchema, ListToolsRequestSchema, Tool } from '@modelcontextprotocol/sdk/types.js';`,
+      `import { z } from 'zod';`,
+      `import { zodToJsonSchema } from 'zod-to-json-schema';`,
+      ``,
+      ...tools.flatMap((tool) => [tool.schema, ``]),
+      `const TOOLS: Tool[] = [`,
+      ...tools.map((tool) => tool.definition),
+      `];`,
+      ``,
+      `function createServer(): Server {`,
+      `  const server = new Server(`,
+      `    { name: '${args.serverName}', version: '0.1.0' },`,
+      `    { capabilities: { tools: {} } }`,
+      `  );`,
+      ``,
+      `  server.setRequestHandler(ListToolsRequestSchema, async () => {`,
+      `    return { tools: TOOLS };`,
+      `  });`,
+      ``,
+      indent(renderCallToolHandler(tools.map((tool) => tool.handler)), '  '),
+      ``,
+      `  return server;`,
+      `}`,
+      ``,
+      ...startup,
+      ``,
+      `main().catch((error) => {`,
+      `  console.error('Fatal error:', error);`,
+      `  process.exit(1);`,
+      `});`,
+      '```',
+      '',
+      'package.json dependencies:',
+      '',
+      '```json',
+      JSON.stringify(
+        {
+          name: args.serverName,
+          version: '0.1.0',
+          type: 'module',
+          bin: { [args.serverName.replace(/^@[^/]+\//, '')]: 'dist/index.js' },
+          dependencies: {
+            // server/streamableHttp.js first shipped in 1.10.0
+            '@modelcontextprotocol/sdk': '^1.10.0',
+            zod: '^3.23.8',
+            'zod-to-json-schema': '^3.23.5',
+          },
+          devDependencies: {
+            '@types/node': '^22.0.0',
+            typescript: '^5.8.2',
+          },
+        },
+        null,
+        2
+      ),
+      '```',
+    ].join('\n');
+  },
+};
+
+/**
+ * Templates shipped with the server
+ */
+export const BUILT_IN_TEMPLATES: ScaffoldTemplate[] = [
+  serverTemplate,
+  toolTemplate,
+  resourceTemplate,
+  promptTemplate,
+];
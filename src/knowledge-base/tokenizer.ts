@@ -0,0 +1,79 @@
+/**
+ * Text tokenizer for the search index
+ * Lowercases, splits on non-alphanumerics and camelCase, drops stopwords and
+ * applies light suffix stemming so "implementing tools" matches "implement tool"
+ */
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for',
+  'from', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its',
+  'of', 'on', 'or', 'so', 'that', 'the', 'their', 'then', 'there', 'these',
+  'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why',
+  'will', 'with', 'you', 'your',
+]);
+
+export interface Token {
+  /** Normalized (lowercased, stemmed) term */
+  term: string;
+  /** Offset of the original word in the source text */
+  start: number;
+  end: number;
+}
+
+/**
+ * Split text into normalized terms
+ */
+export function tokenize(text: string): string[] {
+  return tokenizeWithOffsets(text).map((token) => token.term);
+}
+
+/**
+ * Split text into normalized terms, keeping the source offsets of each word
+ */
+export function tokenizeWithOffsets(text: string): Token[] {
+  const tokens: Token[] = [];
+  const wordRegex = /[A-Za-z0-9]+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = wordRegex.exec(text)) !== null) {
+    // Split camelCase / PascalCase words ("CallToolRequest" -> call, tool, request)
+    const partRegex = /[A-Z]+(?![a-z])|[A-Z]?[a-z]+|[0-9]+/g;
+    let part: RegExpExecArray | null;
+
+    while ((part = partRegex.exec(match[0])) !== null) {
+      const term = normalizeTerm(part[0]);
+      if (!term) continue;
+
+      const start = match.index + part.index;
+      tokens.push({ term, start, end: start + part[0].length });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Lowercase, filter and stem a single word. Returns null for stopwords.
+ */
+export function normalizeTerm(word: string): string | null {
+  const lower = word.toLowerCase();
+  if (lower.length < 2 || STOPWORDS.has(lower)) {
+    return null;
+  }
+  return stem(lower);
+}
+
+/**
+ * Minimal suffix-stripping stemmer, good enough for English docs
+ */
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('ing') && word.length > 6) return word.slice(0, -3);
+  if (word.endsWith('ed') && word.length > 5) return word.slice(0, -2);
+  if (word.endsWith('es') && /(ss|x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+
+  return word;
+}
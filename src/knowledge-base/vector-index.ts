@@ -0,0 +1,110 @@
+import { PersistedVectorIndex } from '../schemas/knowledge-base.js';
+import { EmbeddingProvider, cosineSimilarity } from './embeddings.js';
+
+/**
+ * In-memory vector index for semantic search
+ * Stores one embedding per chunk, keyed by chunk ID and recomputed only
+ * when the hash of the chunk's document changes.
+ */
+export class VectorIndex {
+  private provider: EmbeddingProvider;
+  private vectors: Map<string, { hash: string; vector: number[] }> = new Map();
+
+  constructor(provider: EmbeddingProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Embed the given chunks that have no vector yet or whose hash changed.
+   * Returns the number of chunks embedded.
+   */
+  async update(documents: Array<{ id: string; hash: string; text: string }>): Promise<number> {
+    const stale = documents.filter((doc) => this.vectors.get(doc.id)?.hash !== doc.hash);
+
+    // Embed in batches to keep memory bounded for large providers
+    const batchSize = 64;
+    for (let i = 0; i < stale.length; i += batchSize) {
+      const batch = stale.slice(i, i + batchSize);
+      const embeddings = await this.provider.embed(batch.map((doc) => doc.text));
+      batch.forEach((doc, j) => {
+        this.vectors.set(doc.id, { hash: doc.hash, vector: embeddings[j] });
+      });
+    }
+
+    return stale.length;
+  }
+
+  remove(ids: string[]): void {
+    for (const id of ids) {
+      this.vectors.delete(id);
+    }
+  }
+
+  clear(): void {
+    this.vectors.clear();
+  }
+
+  /**
+   * Independent copy; vectors are shared since they are replaced, never changed
+   */
+  clone(): VectorIndex {
+    const copy = new VectorIndex(this.provider);
+    copy.vectors = new Map(this.vectors);
+    return copy;
+  }
+
+  /**
+   * Rank chunk IDs by cosine similarity to the query
+   */
+  async search(
+    query: string,
+    maxResults: number,
+    allowed: (id: string) => boolean = () => true
+  ): Promise<Array<[string, number]>> {
+    const [queryVector] = await this.provider.embed([query]);
+    const scored: Array<[string, number]> = [];
+
+    for (const [id, { vector }] of this.vectors) {
+      if (!allowed(id)) continue;
+
+      const similarity = cosineSimilarity(queryVector, vector);
+      if (similarity > 0) {
+        scored.push([id, similarity]);
+      }
+    }
+
+    return scored.sort((a, b) => b[1] - a[1]).slice(0, maxResults);
+  }
+
+  /**
+   * Restore vectors from disk. Vectors made by a different provider are ignored.
+   */
+  load(index: PersistedVectorIndex): boolean {
+    if (index.provider !== this.provider.name || index.dimensions !== this.provider.dimensions) {
+      console.error(
+        `Discarding vector index built with ${index.provider}, current provider is ${this.provider.name}`
+      );
+      return false;
+    }
+
+    for (const { id, hash, vector } of index.vectors) {
+      this.vectors.set(id, { hash, vector });
+    }
+    return true;
+  }
+
+  toJSON(): PersistedVectorIndex {
+    return {
+      version: '1.0.0',
+      lastUpdated: new Date().toISOString(),
+      provider: this.provider.name,
+      dimensions: this.provider.dimensions,
+      vectors: Array.from(this.vectors.entries()).map(([id, { hash, vector }]) => ({
+        id,
+        hash,
+        // Rounded to keep the file compact
+        vector: vector.map((v) => Math.round(v * 1e5) / 1e5),
+      })),
+    };
+  }
+}
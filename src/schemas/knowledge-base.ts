@@ -36,10 +36,35 @@ export const MCPSpecificationSchema = z.object({
     description: z.string(),
     example: z.string(),
   })),
+  source: z.object({
+    repository: z.string().describe('owner/repo the version was extracted from'),
+    schemaPath: z.string(),
+  }).optional().describe('Where the spec was extracted from; absent for the built-in default'),
 });
 
 export type MCPSpecification = z.infer<typeof MCPSpecificationSchema>;
 
+/**
+ * Prompt Template Schema
+ * User-defined scaffold templates stored as JSON in ~/.claude-kb/templates
+ */
+export const PromptTemplateSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9-_]*$/i).describe('Prompt name'),
+  description: z.string(),
+  arguments: z.array(z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    required: z.boolean().default(false),
+  })).default([]),
+  template: z.string().optional().describe('Template body with {{argument}} placeholders'),
+  templateFile: z.string().optional().describe('Body file, relative to the templates directory'),
+  topics: z.array(z.string()).default([]).describe('Keywords selecting relevant best practices'),
+}).refine((t) => t.template !== undefined || t.templateFile !== undefined, {
+  message: 'Either template or templateFile is required',
+});
+
+export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
+
 /**
  * Blocklist Entry Schema
  * Tracks removed MCP servers and excluded file patterns
@@ -56,6 +81,20 @@ export const BlocklistEntrySchema = z.object({
   pattern: z.string().optional().describe('Glob pattern to exclude (e.g., "**/*.secret.md")'),
 
   reason: z.string().describe('Why this was blocked/excluded'),
+
+  // Tombstones: later entries that lift an earlier one (the log stays append-only)
+  action: z.enum(['block', 'remove', 'override']).optional().describe('Defaults to block'),
+  targetHash: z.string().optional().describe('Hash of the entry a remove/override tombstone lifts'),
+
+  // Where an entry imported from a blocklist feed came from
+  provenance: z.object({
+    feed: z.string().describe('Feed name from blocklist.feeds'),
+    location: z.string().describe('Feed file path or owner/repo/path'),
+    feedHash: z.string().describe('SHA-256 of the feed file the entry was imported from'),
+    verifiedBy: z.enum(['signature', 'sha256']),
+    importedAt: z.string().datetime(),
+  }).optional(),
+
   hash: z.string().describe('SHA-256 hash for verification'),
   allowOverride: z.boolean().default(false).describe('Can user explicitly re-enable?'),
   source: z.enum(['user', 'system', 'community']).default('user'),
@@ -74,21 +113,107 @@ export const BlocklistSchema = z.object({
 
 export type Blocklist = z.infer<typeof BlocklistSchema>;
 
+/**
+ * Blocklist Feed Schema
+ * A shared list of block entries, e.g. maintained by a security team
+ */
+export const BlocklistFeedSchema = z.object({
+  name: z.string().optional(),
+  updated: z.string().optional(),
+  entries: z.array(BlocklistEntrySchema.pick({
+    type: true,
+    serverName: true,
+    version: true,
+    pattern: true,
+    reason: true,
+    allowOverride: true,
+  })),
+});
+
+export type BlocklistFeed = z.infer<typeof BlocklistFeedSchema>;
+
+/**
+ * Blocklist Feed Source Schema
+ * Where to fetch a feed and how to verify it. Feeds are imported on each sync.
+ */
+export const BlocklistFeedSourceSchema = z.object({
+  name: z.string().describe('Recorded as the provenance of imported entries'),
+  path: z.string().optional().describe('Local feed file'),
+  github: z.object({
+    owner: z.string(),
+    repo: z.string(),
+    branch: z.string().optional(),
+    path: z.string(),
+  }).optional().describe('Feed file in a GitHub repository'),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/i).optional().describe('Pinned SHA-256 of the feed file'),
+  publicKey: z.string().optional().describe('PEM public key verifying a detached signature'),
+  signaturePath: z.string().optional().describe('Detached signature file (default: feed path + ".sig")'),
+}).refine((f) => (f.path === undefined) !== (f.github === undefined), {
+  message: 'Exactly one of path or github is required',
+}).refine((f) => f.sha256 !== undefined || f.publicKey !== undefined, {
+  message: 'A feed needs sha256 or publicKey for verification',
+});
+
+export type BlocklistFeedSource = z.infer<typeof BlocklistFeedSourceSchema>;
+
+/**
+ * Repository Type Schema
+ * Source category of a repository: your own, official MCP, community, or a
+ * local directory
+ */
+export const RepositoryTypeSchema = z.enum(['user', 'official', 'community', 'local']);
+
+export type RepositoryType = z.infer<typeof RepositoryTypeSchema>;
+
+/**
+ * Repository Provider Schema
+ * Where a remote repository is fetched from: GitHub, GitLab, Gitea, or any
+ * git remote through a local mirror
+ */
+export const RepositoryProviderSchema = z.enum(['github', 'gitlab', 'gitea', 'git']);
+
+export type RepositoryProvider = z.infer<typeof RepositoryProviderSchema>;
+
+/**
+ * Repository Entry Schema
+ * Fields of a configured repository, before the cross-field checks of
+ * RepositoryConfigSchema (used to validate partial updates)
+ */
+export const RepositoryEntrySchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  branch: z.string().default('main'),
+  includePatterns: z.array(z.string()).default(['.claude/**/*.md', '**/*.mcp.json']),
+  excludePatterns: z.array(z.string()).default(['**/node_modules/**', '**/.git/**']),
+  indexingEnabled: z.boolean().default(true),
+  type: RepositoryTypeSchema.default('user'),
+  path: z.string().optional().describe('Directory to index for "local" repositories (~/ is expanded)'),
+  provider: RepositoryProviderSchema.default('github'),
+  url: z.string().optional().describe('GitLab/Gitea instance URL, or the remote URL for the "git" provider'),
+  tokenEnv: z.string().optional().describe('Environment variable holding the GitLab/Gitea token'),
+});
+
+/**
+ * Repository Config Schema
+ * A repository listed in config.json
+ */
+export const RepositoryConfigSchema = RepositoryEntrySchema.refine((repo) => repo.type !== 'local' || !!repo.path, {
+  message: 'Local repositories need a path',
+  path: ['path'],
+}).refine((repo) => repo.type === 'local' || !['gitea', 'git'].includes(repo.provider) || !!repo.url, {
+  message: 'Gitea and git repositories need a url',
+  path: ['url'],
+});
+
+export type RepositoryConfig = z.infer<typeof RepositoryConfigSchema>;
+
 /**
  * Knowledge Base Configuration Schema
  */
 export const KnowledgeBaseConfigSchema = z.object({
   version: z.string().default('1.0.0'),
 
-  repositories: z.array(z.object({
-    owner: z.string(),
-    repo: z.string(),
-    branch: z.string().default('main'),
-    includePatterns: z.array(z.string()).default(['.claude/**/*.md', '**/*.mcp.json']),
-    excludePatterns: z.array(z.string()).default(['**/node_modules/**', '**/.git/**']),
-    indexingEnabled: z.boolean().default(true),
-    type: z.enum(['user', 'official', 'community']).default('user'),
-  })),
+  repositories: z.array(RepositoryConfigSchema),
 
   sync: z.object({
     enabled: z.boolean().default(true),
@@ -96,6 +221,13 @@ export const KnowledgeBaseConfigSchema = z.object({
     autoDiscoverUserRepos: z.boolean().default(true),
     includeOfficialMCPRepos: z.boolean().default(true),
     includeCommunityRepos: z.boolean().default(true),
+    communityCatalog: z.object({
+      categories: z.array(z.string()).default([]).describe('Awesome-list categories whose servers are indexed'),
+      allowlist: z.array(z.string()).default([]).describe('"owner/repo" servers indexed regardless of category'),
+      maxRepos: z.number().int().min(0).max(500).default(25),
+      includePatterns: z.array(z.string()).default(['**/*.md', '**/package.json', '**/*.mcp.json']),
+      excludePatterns: z.array(z.string()).default(['**/node_modules/**', '**/.git/**']),
+    }).default({}).describe('Servers from the awesome lists to index as community repositories'),
   }),
 
   storage: z.object({
@@ -106,7 +238,19 @@ export const KnowledgeBaseConfigSchema = z.object({
   blocklist: z.object({
     enabled: z.boolean().default(true),
     strict: z.boolean().default(true).describe('Block without prompting user'),
+    feeds: z.array(BlocklistFeedSourceSchema).default([]),
   }),
+
+  server: z.object({
+    transport: z.enum(['stdio', 'http']).default('stdio'),
+    host: z.string().default('127.0.0.1').describe('HTTP mode bind address'),
+    port: z.number().int().min(1).max(65535).default(3000).describe('HTTP mode port'),
+    authToken: z.string().optional().describe('Bearer token for HTTP mode (CLAUDE_KB_AUTH_TOKEN takes precedence)'),
+    allowedHosts: z.array(z.string()).default([]).describe('Host names clients may use in HTTP mode; loopback names when bound to loopback'),
+    allowedOrigins: z.array(z.string()).default([]).describe('Extra browser origins allowed in HTTP mode'),
+    sessionIdleMinutes: z.number().int().min(1).default(30).describe('Close HTTP sessions idle for this long'),
+    auditPaths: z.array(z.string()).default([]).describe('Directories HTTP clients may audit with audit_mcp_server'),
+  }).default({}),
 });
 
 export type KnowledgeBaseConfig = z.infer<typeof KnowledgeBaseConfigSchema>;
@@ -121,6 +265,7 @@ export const IndexedDocumentSchema = z.object({
   branch: z.string(),
   filePath: z.string(),
   content: z.string(),
+  sourceType: RepositoryTypeSchema.optional().describe('Source category of the repository'),
   metadata: z.object({
     fileType: z.string(),
     lastModified: z.string().datetime(),
@@ -132,13 +277,190 @@ export const IndexedDocumentSchema = z.object({
 
 export type IndexedDocument = z.infer<typeof IndexedDocumentSchema>;
 
+/**
+ * Document Chunk Schema
+ * A heading-delimited passage of an indexed document
+ */
+export const DocumentChunkSchema = z.object({
+  id: z.string().describe('Chunk identifier (<document id>#<n>)'),
+  documentId: z.string(),
+  headings: z.array(z.string()).describe('Section path, starting with the file name'),
+  startLine: z.number().describe('First line of the chunk (1-based)'),
+  endLine: z.number().describe('Last line of the chunk (inclusive)'),
+  content: z.string(),
+});
+
+export type DocumentChunk = z.infer<typeof DocumentChunkSchema>;
+
+/**
+ * Repository Sync State Schema
+ * Last synced tree of a repository, used to skip repos that haven't changed
+ */
+export const RepoSyncStateSchema = z.object({
+  owner: z.string(),
+  repo: z.string(),
+  branch: z.string(),
+  treeSha: z.string().describe('Git tree SHA of the branch at last sync'),
+  includePatterns: z.array(z.string()),
+  excludePatterns: z.array(z.string()),
+  blocklistFingerprint: z.string().optional().describe('File blocklist in effect at last sync'),
+  evicted: z
+    .record(z.string())
+    .optional()
+    .describe('Files evicted by storage.maxIndexSizeMB, by path, with the blob SHA they had'),
+  lastSynced: z.string().datetime(),
+});
+
+export type RepoSyncState = z.infer<typeof RepoSyncStateSchema>;
+
+/**
+ * Persisted Search Index Schema
+ * Snapshot of the search index written to disk so restarts don't require a resync
+ */
+export const PersistedIndexSchema = z.object({
+  version: z.string().default('1.0.0'),
+  lastUpdated: z.string().datetime(),
+  documents: z.array(IndexedDocumentSchema),
+  repositories: z.array(RepoSyncStateSchema).default([]),
+});
+
+export type PersistedIndex = z.infer<typeof PersistedIndexSchema>;
+
+/**
+ * Persisted Vector Index Schema
+ * Document embeddings for semantic search, tied to the provider that made them
+ */
+export const PersistedVectorIndexSchema = z.object({
+  version: z.string().default('1.0.0'),
+  lastUpdated: z.string().datetime(),
+  provider: z.string().describe('Embedding provider name'),
+  dimensions: z.number(),
+  vectors: z.array(z.object({
+    id: z.string().describe('Document ID'),
+    hash: z.string().describe('Document hash the vector was computed from'),
+    vector: z.array(z.number()),
+  })),
+});
+
+export type PersistedVectorIndex = z.infer<typeof PersistedVectorIndexSchema>;
+
+/**
+ * Repository Sync Record Schema
+ * Outcome of syncing one repository within a sync run
+ */
+export const RepoSyncRecordSchema = z.object({
+  repository: z.string().describe('owner/repo'),
+  startedAt: z.string().datetime(),
+  finishedAt: z.string().datetime(),
+  treeSha: z.string().optional().describe('Tree synced, if the repo could be read'),
+  skipped: z.boolean().describe('Tree unchanged, or the repo could not be read'),
+  added: z.number(),
+  changed: z.number(),
+  unchanged: z.number(),
+  removed: z.number(),
+  error: z.string().optional(),
+  failedFiles: z.array(z.object({ path: z.string(), error: z.string() })).optional(),
+});
+
+export type RepoSyncRecord = z.infer<typeof RepoSyncRecordSchema>;
+
+/**
+ * Sync Run Schema
+ * One full knowledge base sync, as kept in the sync history
+ */
+export const SyncRunSchema = z.object({
+  trigger: z.enum(['startup', 'periodic', 'manual', 'config']).describe('config: a configuration change'),
+  startedAt: z.string().datetime(),
+  finishedAt: z.string().datetime(),
+  status: z
+    .enum(['success', 'partial', 'failed', 'cancelled'])
+    .describe('partial: some repositories had errors; cancelled: the index was left unchanged'),
+  error: z.string().optional().describe('Why the run as a whole failed'),
+  totals: z.object({
+    added: z.number(),
+    changed: z.number(),
+    unchanged: z.number(),
+    removed: z.number(),
+  }),
+  repositories: z.array(RepoSyncRecordSchema),
+});
+
+export type SyncRun = z.infer<typeof SyncRunSchema>;
+
+/**
+ * Sync History Schema
+ * Most recent sync runs, newest last
+ */
+export const SyncHistorySchema = z.object({
+  version: z.string().default('1.0.0'),
+  runs: z.array(SyncRunSchema).default([]),
+});
+
+export type SyncHistory = z.infer<typeof SyncHistorySchema>;
+
+/**
+ * Search Mode Schema
+ * keyword = BM25, semantic = embedding similarity, hybrid = fusion of both
+ */
+export const SearchModeSchema = z.enum(['keyword', 'semantic', 'hybrid']);
+
+export type SearchMode = z.infer<typeof SearchModeSchema>;
+
+/**
+ * Search Filters Schema
+ * Restricts which documents a search may return
+ */
+export const SearchFiltersSchema = z.object({
+  owner: z.string().optional().describe('Only documents from repositories of this owner'),
+  repo: z.string().optional().describe('Only documents from this repository ("repo" or "owner/repo")'),
+  repoType: z.array(RepositoryTypeSchema).optional().describe('Only these repository source types'),
+  fileType: z.array(z.string()).optional().describe('Only these file extensions (e.g. "md", "json")'),
+  pathGlob: z.string().optional().describe('Only file paths matching this glob (e.g. "**/*.mcp.json")'),
+  indexedAfter: z.string().datetime().optional().describe('Only documents indexed at or after this time'),
+  indexedBefore: z.string().datetime().optional().describe('Only documents indexed at or before this time'),
+  modifiedAfter: z.string().datetime().optional().describe('Only documents modified at or after this time'),
+  modifiedBefore: z.string().datetime().optional().describe('Only documents modified at or before this time'),
+});
+
+export type SearchFilters = z.infer<typeof SearchFiltersSchema>;
+
 /**
  * Search Result Schema
  */
 export const SearchResultSchema = z.object({
   document: IndexedDocumentSchema,
+  chunk: DocumentChunkSchema.describe('Best matching passage of the document'),
   score: z.number().min(0).max(1).describe('Relevance score'),
   snippet: z.string().describe('Highlighted text snippet'),
 });
 
 export type SearchResult = z.infer<typeof SearchResultSchema>;
+
+/**
+ * MCP Server Catalog Entry Schema
+ * A server described by indexed .mcp.json manifests and package.json files
+ */
+export const MCPServerSchema = z.object({
+  name: z.string().describe('Package name, or the manifest key for non-package servers'),
+  aliases: z.array(z.string()).describe('Other names the server is configured under'),
+  version: z.string().optional(),
+  description: z.string().optional(),
+  command: z.string().optional(),
+  args: z.array(z.string()),
+  url: z.string().optional().describe('Endpoint of remote (HTTP/SSE) servers'),
+  transport: z.enum(['stdio', 'http', 'sse']),
+  env: z.array(z.string()).describe('Environment variables the server requires'),
+  tools: z.array(z.object({
+    name: z.string(),
+    description: z.string().optional(),
+  })),
+  sources: z.array(z.object({
+    documentId: z.string(),
+    repository: z.string().describe('owner/repo'),
+    repoType: RepositoryTypeSchema.optional(),
+    kind: z.enum(['manifest', 'package']),
+    version: z.string().optional().describe('Version pinned by the manifest or declared by the package'),
+  })),
+});
+
+export type MCPServer = z.infer<typeof MCPServerSchema>;